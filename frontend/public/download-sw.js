@@ -0,0 +1,70 @@
+/**
+ * Download Service Worker
+ * Serves streamed downloads registered by services/downloadSinks.ts so large
+ * decrypted files never have to be assembled in page memory.
+ */
+
+const STREAM_PREFIX = "/__dcs-stream/";
+const streams = new Map();
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("message", (event) => {
+  const data = event.data || {};
+  if (data.type !== "register" || !event.ports[0]) return;
+  streams.set(String(data.id), {
+    port: event.ports[0],
+    filename: data.filename || "download",
+    mimeType: data.mimeType || "application/octet-stream",
+    size: data.size,
+  });
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(STREAM_PREFIX)) return;
+
+  const id = url.pathname.slice(STREAM_PREFIX.length);
+  const entry = streams.get(id);
+  if (!entry) {
+    event.respondWith(new Response("Download not found", { status: 404 }));
+    return;
+  }
+  streams.delete(id);
+
+  const { port } = entry;
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = (msg) => {
+        const data = msg.data || {};
+        if (data.type === "chunk") {
+          controller.enqueue(new Uint8Array(data.chunk));
+        } else if (data.type === "end") {
+          controller.close();
+          port.close();
+        } else if (data.type === "abort") {
+          controller.error(new Error(data.reason || "aborted"));
+          port.close();
+        }
+      };
+    },
+    pull() {
+      // Backpressure: ask the page for exactly one more chunk
+      port.postMessage({ type: "pull" });
+    },
+    cancel() {
+      port.postMessage({ type: "cancel" });
+      port.close();
+    },
+  }, { highWaterMark: 1 });
+
+  const headers = new Headers({
+    "Content-Type": entry.mimeType,
+    "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(entry.filename)}`,
+    "X-Content-Type-Options": "nosniff",
+  });
+  if (entry.size) headers.set("Content-Length", String(entry.size));
+
+  event.respondWith(new Response(stream, { headers }));
+});
@@ -1,19 +1,67 @@
-import React, { useEffect, useMemo, useState, useCallback } from 'react'
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react'
 import { Header } from './components/Header'
 import { Sidebar } from './components/Sidebar'
-import { UploadArea } from './components/UploadArea'
+import { UploadArea, type UploadItem } from './components/UploadArea'
 import { FileList } from './components/FileList'
 import { DetailsPane } from './components/DetailsPane'
 import { Toast } from './components/Toast'
 import { useWallet } from './contexts/WalletContext'
-import { chunkedUploadFile } from './services/chunkedUpload'
-import { chunkedDownloadFile } from './services/chunkedDownload'
-import { MockStorage, type StorageAdapter } from './adapters.storage'
-import type { StoredEntry } from './lib.db'
+import { ProxyIpfsStorage, type StorageAdapter } from './adapters.storage'
+import { pickSaveFileHandle } from './services/downloadSinks'
+import { PREVIEW_LIMIT_BYTES, isPreviewable } from './utils/preview'
+import { hasSessionKeyPair } from './utils/keyDerivation'
+import {
+  createFolder,
+  moveEntries,
+  ensureFolderPath,
+  folderAncestors,
+  folderDescendants,
+  isFolder,
+  entryDisplayName,
+  setStarred,
+  setTrashed,
+  setDisplayName,
+  migrateLegacyLibraryState,
+  type StoredEntry,
+} from './lib.db'
 import { PreviewModal } from './components/PreviewModal'
 import { ShareModal } from './components/ShareModal'
-import { Contract, utils } from 'ethers'
-import CONTRACT_ABI from './contracts/TimeBoundFileRegistry.abi.json'
+import { ResumeUploadsPanel } from './components/ResumeUploadsPanel'
+import { GatewaySettings } from './components/GatewaySettings'
+import { RecoveryKitModal } from './components/RecoveryKitModal'
+import { DeleteForeverModal } from './components/DeleteForeverModal'
+import {
+  listPendingUploads,
+  discardPendingUpload,
+  getUploadSessionKey,
+  UploadController,
+  type UploadState,
+} from './services/chunkedUpload'
+import { discoverSharedFiles, discoverOwnedFiles, mergeDiscoveredEntries } from './services/chainSync'
+import {
+  syncLibraryManifest,
+  recordLibraryChanges,
+  seedLibraryManifest,
+  loadLibraryManifest,
+  applyLibraryManifest,
+  type LibraryChange,
+  type LibraryManifest,
+} from './services/libraryManifest'
+import {
+  loadTrashRetentionDays,
+  saveTrashRetentionDays,
+  expiredTrash,
+  releaseRemoteFile,
+} from './services/trash'
+import {
+  isContentIndexEnabled,
+  setContentIndexEnabled,
+  isIndexable,
+  indexFileContent,
+  loadContentIndex,
+  removeContentIndex,
+} from './services/contentIndex'
+import { searchEntries } from './utils/search'
 
 const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || ''
 const PROXY_URL = import.meta.env.VITE_PROXY_URL || ''
@@ -34,22 +82,68 @@ export default function App({ initialTab }: { initialTab?: 'shared' } = {}) {
     return 'dark'
   })
 
-  const { account, signer, connect: connectWallet, isConnected, decryptWithSignature } = useWallet()
-  const [storage] = useState<StorageAdapter>(MockStorage)
+  const {
+    account,
+    provider,
+    signer,
+    connect: connectWallet,
+    isConnected,
+    decryptWithSignature,
+    encryptionKeyPublished,
+    encryptionKeyOutdated,
+    publishEncryptionKey,
+    legacyKeyDetected,
+    migrateLegacyKeys,
+    sessionUnlocked,
+    lockSession,
+    sessionIdleMinutes,
+    setSessionIdleMinutes,
+  } = useWallet()
+  const storage = useMemo<StorageAdapter>(
+    () =>
+      new ProxyIpfsStorage({
+        proxyUrl: PROXY_URL,
+        account,
+        signer,
+        contractAddress: CONTRACT_ADDRESS || undefined,
+        resolveKey: requestFileKey,
+      }),
+    [account, signer]
+  )
   const [entries, setEntries] = useState<StoredEntry[]>([])
+  const [libraryLoaded, setLibraryLoaded] = useState(false)
+  const [syncing, setSyncing] = useState(false)
+  const [upgradingKeys, setUpgradingKeys] = useState(false)
+  // Accounts already auto-synced this session, so an empty chain history doesn't loop
+  const autoSyncedFor = useRef<string | null>(null)
+  // Library manifest: pulled once per account on connect, pushed shortly after local edits
+  const manifestSyncedFor = useRef<string | null>(null)
+  const manifestPushTimer = useRef<number | null>(null)
   const [selectedId, setSelectedId] = useState<string | null>(null)
   const [selectedIds, setSelectedIds] = useState<string[]>([])
-  const [uploading, setUploading] = useState<{ name: string; pct: number }[]>([])
+  const [uploading, setUploading] = useState<{ name: string; uploadId: string | null; pct: number; paused: boolean }[]>([])
+  const uploadControllers = useRef<Map<string, UploadController>>(new Map())
+  const [pendingUploads, setPendingUploads] = useState<UploadState[]>([])
   const [preview, setPreview] = useState<{ url: string; mime: string; name: string } | null>(
     null
   )
   const [viewMode, setViewMode] = useState<'list' | 'grid'>('list')
 
   const [tab, setTab] = useState<Tab>(initialTab === 'shared' ? 'shared' : 'drive')
-  const [trashedIds, setTrashedIds] = useState<string[]>([])
-  const [starredIds, setStarredIds] = useState<string[]>([])
+  // Folder shown in My Drive (null = root)
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null)
   const [showDetails, setShowDetails] = useState(true)
   const [shareModalEntry, setShareModalEntry] = useState<StoredEntry | null>(null)
+  const [showGatewaySettings, setShowGatewaySettings] = useState(false)
+  const [showRecoveryKit, setShowRecoveryKit] = useState(false)
+  const [trashRetentionDays, setTrashRetentionDays] = useState(loadTrashRetentionDays)
+  // Ids waiting for the "Delete forever" confirmation
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null)
+  const [deleteProgress, setDeleteProgress] = useState<{ done: number; total: number } | null>(null)
+  const purging = useRef(false)
+  const [query, setQuery] = useState('')
+  const [searchContents, setSearchContents] = useState(isContentIndexEnabled)
+  const [contentIndex, setContentIndex] = useState<Map<string, Set<string>> | null>(null)
 
   const [toast, setToast] = useState<ToastState | null>(null)
   const selectionCount = selectedIds.length
@@ -83,19 +177,69 @@ const selectedEntry =
     }, 2500)
   }
 
+  // Files shared with me are stored locally too, but belong in the Shared tab
+  const ownEntries = useMemo(
+    () =>
+      entries.filter(
+        e => !e.ownerAddr || !account || e.ownerAddr.toLowerCase() === account.toLowerCase()
+      ),
+    [entries, account]
+  )
+  // Everything inside a trashed folder goes to the trash with it
+  const hiddenByTrash = useMemo(() => {
+    const hidden = new Set<string>()
+    for (const e of ownEntries) {
+      if (isFolder(e) && e.trashedAt) {
+        folderDescendants(ownEntries, e.id).forEach(id => hidden.add(id))
+      }
+    }
+    return hidden
+  }, [ownEntries])
+  const activeEntries = useMemo(
+    () => ownEntries.filter(e => !e.trashedAt && !hiddenByTrash.has(e.id)),
+    [ownEntries, hiddenByTrash]
+  )
   const driveEntries = useMemo(
-    () => entries.filter(e => !trashedIds.includes(e.id)),
-    [entries, trashedIds]
+    () => activeEntries.filter(e => (e.parentId ?? null) === currentFolderId),
+    [activeEntries, currentFolderId]
   )
   const trashEntries = useMemo(
-    () => entries.filter(e => trashedIds.includes(e.id)),
-    [entries, trashedIds]
+    () => ownEntries.filter(e => e.trashedAt && !hiddenByTrash.has(e.id)),
+    [ownEntries, hiddenByTrash]
   )
   const starredEntries = useMemo(
-    () => entries.filter(e => starredIds.includes(e.id) && !trashedIds.includes(e.id)),
-    [entries, starredIds, trashedIds]
+    () => activeEntries.filter(e => e.starred),
+    [activeEntries]
+  )
+  const breadcrumbs = useMemo(
+    () => [
+      { id: null as string | null, name: 'My Drive' },
+      ...folderAncestors(ownEntries, currentFolderId).map(f => ({ id: f.id as string | null, name: entryDisplayName(f) })),
+    ],
+    [ownEntries, currentFolderId]
   )
 
+  // Purge trashed items past the retention period (library only; nothing is revoked or unpinned)
+  useEffect(() => {
+    if (!libraryLoaded || purging.current) return
+    const expired = expiredTrash(ownEntries, trashRetentionDays)
+    if (!expired.length) return
+    purging.current = true
+    removeFromLibrary(expired.map(e => e.id))
+      .then(() => showToast(`Removed ${expired.length} item${expired.length === 1 ? '' : 's'} from Trash after ${trashRetentionDays} days`, 'info'))
+      .catch(err => console.error('Trash purge failed:', err))
+      .finally(() => {
+        purging.current = false
+      })
+  }, [libraryLoaded, ownEntries, trashRetentionDays])
+
+  // Leave a folder that was trashed, deleted or belongs to another account
+  useEffect(() => {
+    if (currentFolderId && !activeEntries.some(e => e.id === currentFolderId)) {
+      setCurrentFolderId(null)
+    }
+  }, [activeEntries, currentFolderId])
+
   const [sharedEntries, setSharedEntries] = useState<StoredEntry[]>([])
 
   const visibleEntries = useMemo(() => {
@@ -107,9 +251,36 @@ const selectedEntry =
 
   const isTrashView = tab === 'trash'
 
+  // Open the content index for searching while the key is unlocked (no extra signature)
+  useEffect(() => {
+    if (!query.trim() || !searchContents || !sessionUnlocked || !account || !signer) {
+      if (!sessionUnlocked) setContentIndex(null)
+      return
+    }
+    if (contentIndex) return
+    loadContentIndex(account, signer)
+      .then(setContentIndex)
+      .catch(err => console.warn('Loading content index failed:', err))
+  }, [query, searchContents, sessionUnlocked, account, signer, contentIndex])
+
+  useEffect(() => {
+    setContentIndex(null)
+  }, [account])
+
+  // My Drive searches every folder; other tabs search what they show
+  const searchHits = useMemo(() => {
+    if (!query.trim()) return null
+    const scope = tab === 'drive' ? activeEntries : visibleEntries
+    return searchEntries(scope, query, {
+      account,
+      contentTerms: searchContents && contentIndex ? id => contentIndex.get(id) : undefined,
+    })
+  }, [query, tab, activeEntries, visibleEntries, account, searchContents, contentIndex])
+  const isSearching = !!searchHits
+
   const storageUsedBytes = useMemo(
-    () => driveEntries.reduce((sum, e) => sum + (e.size || 0), 0),
-    [driveEntries]
+    () => activeEntries.reduce((sum, e) => sum + (e.size || 0), 0),
+    [activeEntries]
   )
 
   const selected = useMemo(
@@ -118,17 +289,10 @@ const selectedEntry =
   )
 
   useEffect(() => {
-    refreshList()
-
-    try {
-      const rawTrash = localStorage.getItem('ddrive.trashedIds')
-      if (rawTrash) setTrashedIds(JSON.parse(rawTrash))
-    } catch {}
-
-    try {
-      const rawStar = localStorage.getItem('ddrive.starredIds')
-      if (rawStar) setStarredIds(JSON.parse(rawStar))
-    } catch {}
+    // Star/trash used to live in localStorage; move it onto the entries before the first load
+    migrateLegacyLibraryState()
+      .catch(err => console.warn('Migrating trash/star state failed:', err))
+      .finally(() => refreshList())
 
     // Security: Removed URL hash parsing that extracted keys/IVs
     // Keys should never be parsed from URLs
@@ -142,50 +306,17 @@ const selectedEntry =
     }
   }, [])
 
-  useEffect(() => {
-    try {
-      localStorage.setItem('ddrive.trashedIds', JSON.stringify(trashedIds))
-    } catch {}
-  }, [trashedIds])
-
-  useEffect(() => {
-    try {
-      localStorage.setItem('ddrive.starredIds', JSON.stringify(starredIds))
-    } catch {}
-  }, [starredIds])
-
-  // Load shared files from contract
+  // Discover files shared with this account from AccessGranted events
   async function loadSharedFiles() {
-    if (!isConnected || !account || !CONTRACT_ADDRESS) {
+    if (!isConnected || !account || !provider || !CONTRACT_ADDRESS) {
       setSharedEntries([])
       return
     }
 
     try {
-      const provider = new (await import('ethers')).providers.Web3Provider(window.ethereum)
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider)
-
-      // Query AccessGranted events for current account as grantee
-      // Note: This is a simplified approach - in production, you might want to index events
-      // For now, we'll check known files from our entries
-      const shared: StoredEntry[] = []
-      
-      // Check all entries to see if any are shared with current user
-      for (const entry of entries) {
-        if (entry.metadataCid && entry.ownerAddr && entry.ownerAddr.toLowerCase() !== account.toLowerCase()) {
-          try {
-            const hasAccess = await contract.isAccessActive(entry.ownerAddr, entry.metadataCid, account)
-            if (hasAccess) {
-              shared.push(entry)
-            }
-          } catch (err) {
-            // Skip entries that fail access check
-            console.warn('Access check failed for entry:', entry.id, err)
-          }
-        }
-      }
-
-      setSharedEntries(shared)
+      const discovered = await discoverSharedFiles(provider, account)
+      setSharedEntries(await mergeDiscoveredEntries(discovered))
+      await refreshList()
     } catch (err) {
       console.error('Failed to load shared files:', err)
       setSharedEntries([])
@@ -196,14 +327,145 @@ const selectedEntry =
     if (isConnected && account && tab === 'shared') {
       loadSharedFiles()
     }
-  }, [isConnected, account, tab, entries])
+  }, [isConnected, account, provider, tab])
+
+  useEffect(() => {
+    refreshPendingUploads()
+  }, [account])
+
+  // Rebuild My Drive from the registry when this browser has no library for the account
+  useEffect(() => {
+    if (!libraryLoaded || !account || !provider || !CONTRACT_ADDRESS) return
+    if (ownEntries.length > 0 || autoSyncedFor.current === account) return
+    autoSyncedFor.current = account
+    syncFromChain(true)
+  }, [libraryLoaded, account, provider, ownEntries.length])
+
+  // Pull the library manifest from other devices once the local library is loaded
+  useEffect(() => {
+    if (!libraryLoaded || !account || !signer || !PROXY_URL) return
+    if (manifestSyncedFor.current === account) return
+    manifestSyncedFor.current = account
+    syncLibrary()
+  }, [libraryLoaded, account, signer])
+
+  useEffect(
+    () => () => {
+      if (manifestPushTimer.current) clearTimeout(manifestPushTimer.current)
+    },
+    []
+  )
 
   async function refreshList() {
     const list = await storage.list()
     setEntries(list)
+    setLibraryLoaded(true)
+  }
+
+  async function syncFromChain(auto = false) {
+    if (!account || !provider) {
+      alert('Please connect your wallet first')
+      return
+    }
+    if (!CONTRACT_ADDRESS) {
+      alert('Contract address not configured')
+      return
+    }
+    setSyncing(true)
+    try {
+      const owned = await mergeDiscoveredEntries(await discoverOwnedFiles(provider, account))
+      // Newly discovered files pick up names/folders/stars recorded on other devices
+      await applyManifest(await loadLibraryManifest(account))
+      await refreshList()
+      if (owned.length > 0 || !auto) {
+        showToast(`Synced ${owned.length} file${owned.length === 1 ? '' : 's'} from chain`, 'success')
+      }
+    } catch (err: any) {
+      console.error('Sync from chain failed:', err)
+      showToast('Sync from chain failed', 'error')
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  // Local library state the manifest may not have yet (folders, placements, stars, trash)
+  async function librarySnapshot(): Promise<LibraryChange[]> {
+    const own = (await storage.list()).filter(
+      e => e.ownerAddr && account && e.ownerAddr.toLowerCase() === account.toLowerCase()
+    )
+    return own.map(e => {
+      const fields: LibraryChange['fields'] = {}
+      if (isFolder(e) || e.displayName) fields.name = entryDisplayName(e)
+      if (e.parentId) fields.parentId = e.parentId
+      if (e.starred) fields.starred = true
+      if (e.trashedAt) fields.trashed = true
+      return { id: e.id, kind: isFolder(e) ? 'folder' : 'file', createdAt: e.createdAt, fields }
+    })
+  }
+
+  async function applyManifest(manifest: LibraryManifest) {
+    if (!account) return
+    await applyLibraryManifest(manifest, account)
+  }
+
+  async function syncLibrary() {
+    if (!account || !signer || !PROXY_URL) return
+    try {
+      await seedLibraryManifest(account, await librarySnapshot())
+      const { manifest, remoteChanged } = await syncLibraryManifest({ account, signer })
+      if (remoteChanged) {
+        await applyManifest(manifest)
+        await refreshList()
+      }
+    } catch (err) {
+      console.warn('Library sync failed:', err)
+    }
+  }
+
+  // Record an edit for other devices and push it once edits settle
+  function noteLibraryChanges(changes: LibraryChange[]) {
+    if (!account) return
+    recordLibraryChanges(account, changes).catch(err => console.warn('Recording library change failed:', err))
+    if (manifestPushTimer.current) clearTimeout(manifestPushTimer.current)
+    manifestPushTimer.current = window.setTimeout(() => {
+      manifestPushTimer.current = null
+      syncLibrary()
+    }, 5000)
   }
 
-  async function onFiles(files: FileList) {
+  async function refreshPendingUploads() {
+    if (!account) {
+      setPendingUploads([])
+      return
+    }
+    try {
+      setPendingUploads(await listPendingUploads(account))
+    } catch (err) {
+      console.warn('Failed to list pending uploads:', err)
+    }
+  }
+
+  async function resumeUpload(state: UploadState, file: File) {
+    if (!account) {
+      alert('Please connect your wallet first')
+      return
+    }
+    // The session key is derived from the file itself, so a different file can't hijack the session
+    const key = await getUploadSessionKey(file, account, state.chunkSize)
+    if (key !== state.uploadId) {
+      alert(`"${file.name}" does not match the interrupted upload of "${state.filename}". Please select the same file.`)
+      return
+    }
+    await onFiles([{ file, path: '' }])
+  }
+
+  async function discardUpload(state: UploadState) {
+    await discardPendingUpload(state.uploadId)
+    await refreshPendingUploads()
+    showToast('Interrupted upload discarded', 'info')
+  }
+
+  async function onFiles(items: UploadItem[]) {
     if (!isConnected || !account) {
       alert('Please connect your wallet first')
       return
@@ -214,27 +476,37 @@ const selectedEntry =
       return
     }
 
-    const batch = Array.from(files)
-    for (const f of batch) {
-      setUploading(u => [...u, { name: f.name, pct: 0 }])
-      const onProgress = (pct: number, uploadedBytes: number, totalBytes: number) => {
-        setUploading(u => u.map(r => (r.name === f.name ? { ...r, pct } : r)))
-        console.log(`Uploading ${f.name}: ${pct}% (${uploadedBytes}/${totalBytes} bytes)`)
+    // Dropped/picked directories are recreated under the folder being viewed
+    const baseFolderId = tab === 'drive' ? currentFolderId : null
+    const folderIds = new Map<string, string | null>()
+    try {
+      for (const path of new Set(items.map(i => i.path).filter(Boolean))) {
+        folderIds.set(path, await ensureFolderPath(baseFolderId, path.split('/'), account))
+      }
+      if (folderIds.size) await refreshList()
+    } catch (err) {
+      console.error('Creating folders failed:', err)
+      showToast('Creating folders failed', 'error')
+      return
+    }
+
+    for (const { file: f, path } of items) {
+      const label = path ? `${path}/${f.name}` : f.name
+      const controller = new UploadController()
+      uploadControllers.current.set(label, controller)
+      // Same session key chunkedUploadFile resumes under, so the resume list can hide this upload
+      const uploadId = await getUploadSessionKey(f, account).catch(() => null)
+      setUploading(u => [...u, { name: label, uploadId, pct: 0, paused: false }])
+      const onProgress = (pct: number) => {
+        setUploading(u => u.map(r => (r.name === label ? { ...r, pct } : r)))
       }
 
       try {
         console.log(`Starting chunked upload for ${f.name}...`)
-        
+
         // Check if contract is configured for on-chain registration
         const hasContract = !!CONTRACT_ADDRESS && !!signer
-        console.log('[App] Upload configuration:', {
-          hasContractAddress: !!CONTRACT_ADDRESS,
-          contractAddress: CONTRACT_ADDRESS,
-          hasSigner: !!signer,
-          account: account,
-          willAutoRegister: hasContract
-        })
-        
+
         if (!CONTRACT_ADDRESS) {
           console.warn('VITE_CONTRACT_ADDRESS not set - files will be uploaded but cannot be downloaded without contract')
           alert(
@@ -246,20 +518,25 @@ const selectedEntry =
           )
         }
 
-        const result = await chunkedUploadFile(f, {
-          ownerAddr: account,
-          signer: signer || undefined,
-          contractAddress: CONTRACT_ADDRESS || undefined,
-          proxyUrl: PROXY_URL,
+        const { entry } = await storage.uploadEncrypted(f, {
           onProgress,
-          autoRegister: hasContract,
+          controller,
+          parentId: path ? folderIds.get(path) ?? null : baseFolderId,
         })
 
-        console.log('Upload complete:', result)
-        showToast(`Upload complete: ${result.metadataCid}`, 'success')
-        
-        if (result.txReceipt) {
-          console.log('On-chain registration:', result.txReceipt.transactionHash)
+        console.log('Upload complete:', entry)
+        showToast(`Upload complete: ${entry.metadataCid}`, 'success')
+        if (entry.parentId) {
+          noteLibraryChanges([{ id: entry.id, createdAt: entry.createdAt, fields: { parentId: entry.parentId } }])
+        }
+        if (signer && isContentIndexEnabled() && isIndexable(f)) {
+          indexFileContent(entry.id, f, { signer, account }).catch(err =>
+            console.warn('Indexing file content failed:', err)
+          )
+        }
+
+        if (entry.onChainTx) {
+          console.log('On-chain registration:', entry.onChainTx)
           showToast('File registered on-chain', 'success')
         } else if (hasContract) {
           console.warn('Upload completed but no transaction receipt. File may not be registered on-chain.')
@@ -269,201 +546,216 @@ const selectedEntry =
           )
         }
 
-        // Save entry to IndexedDB for file listing
-        const { putEntry } = await import('./lib.db')
-        const entry: StoredEntry = {
-          id: result.metadataCid, // Use metadataCid as ID for chunked files
-          name: f.name,
-          size: f.size,
-          mime: f.type || 'application/octet-stream',
-          createdAt: Date.now(),
-          metadataCid: result.metadataCid,
-          ownerAddr: account,
-          onChainTx: result.txReceipt?.transactionHash || null,
-          encryptedKeyForOwner: null, // Not stored here - it's in the contract
-        }
-        await putEntry(entry)
-
         // Refresh list to show new file
         await refreshList()
       } catch (e: any) {
+        if (e?.name === 'AbortError') {
+          showToast(`Upload cancelled: ${label}`, 'info')
+          continue
+        }
         console.error('Upload failed:', e)
         alert('Upload failed: ' + (e.message || String(e)))
         showToast('Upload failed', 'error')
       } finally {
-        setUploading(u => u.filter(x => x.name !== f.name))
+        uploadControllers.current.delete(label)
+        setUploading(u => u.filter(x => x.name !== label))
+        await refreshPendingUploads()
       }
     }
   }
 
-  async function openFile(id: string) {
-    if (!isConnected || !account) {
-      alert('Please connect your wallet first')
-      return
+  function togglePauseUpload(name: string) {
+    const controller = uploadControllers.current.get(name)
+    if (!controller) return
+    if (controller.isPaused) controller.resume()
+    else controller.pause()
+    setUploading(u => u.map(r => (r.name === name ? { ...r, paused: controller.isPaused } : r)))
+  }
+
+  function cancelUpload(name: string) {
+    uploadControllers.current.get(name)?.cancel()
+  }
+
+  // Called by the storage adapter once it has read the encrypted key from the contract
+  async function requestFileKey(encryptedKeyBytes: Uint8Array): Promise<string> {
+    if (!account) {
+      throw new Error('Please connect your wallet first')
     }
 
-    try {
-      const entry = entries.find(e => e.id === id)
-      if (!entry) {
-        throw new Error('File not found')
-      }
+    // The session keypair opens the file without a wallet prompt
+    if (await hasSessionKeyPair(signer, account)) {
+      return decryptWithSignature(encryptedKeyBytes, account)
+    }
 
-      // Check if this is a chunked file (has metadataCid) or legacy file
-      if (entry.metadataCid && entry.ownerAddr) {
-        // Chunked file - use contract access check and IPFS download
-        if (!CONTRACT_ADDRESS) {
-          throw new Error(
-            'Contract address not configured.\n\n' +
-            'To download files, you need to:\n' +
-            '1. Deploy the TimeBoundFileRegistry smart contract (see server/contract.sol)\n' +
-            '2. Add the deployed contract address to frontend/.env as:\n' +
-            '   VITE_CONTRACT_ADDRESS=0x...\n\n' +
-            'The contract address is NOT your wallet address - it\'s the address of the deployed smart contract.\n' +
-            'You can deploy it using Hardhat, Remix, or any Solidity development tool.'
-          )
-        }
+    // Show attention modal BEFORE requesting signature (prevents popup suppression)
+    const userConfirmed = confirm(
+      'MetaMask will now ask you to sign a message to decrypt the file.\n\n' +
+      'Please:\n' +
+      '1. Look for the MetaMask signature request popup\n' +
+      '2. Click "Sign" to authorize decryption\n\n' +
+      'This signature is used to derive your decryption key. It does not approve any transactions.\n\n' +
+      'Click OK to continue, or Cancel to abort.'
+    )
+
+    if (!userConfirmed) {
+      throw new DOMException('Decryption cancelled', 'AbortError')
+    }
 
-        const provider = new (await import('ethers')).providers.Web3Provider(window.ethereum)
-        const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider)
-
-        // Check if user has access (owner or grantee)
-        const isOwner = entry.ownerAddr.toLowerCase() === account.toLowerCase()
-        let hasAccess = isOwner
-
-        if (!isOwner) {
-          // Check if access is granted
-          try {
-            hasAccess = await contract.isAccessActive(entry.ownerAddr, entry.metadataCid, account)
-          } catch (err) {
-            console.warn('Access check failed:', err)
-            hasAccess = false
-          }
-        }
+    showToast('Requesting signature to decrypt file...', 'info')
 
-        if (!hasAccess) {
-          alert('You do not have access to this file. Request access from the owner.')
-          showToast('Access denied', 'error')
-          return
-        }
+    // Request decryption using signature-based key derivation (NO deprecated MetaMask decrypt API)
+    return decryptWithSignature(encryptedKeyBytes, account)
+  }
 
-        // Get encrypted key from contract
-        let encryptedKeyBytes: Uint8Array
-        if (isOwner) {
-          // Owner: get from their file record
-          try {
-            const fileRecord = await contract.getFile(entry.ownerAddr, entry.metadataCid)
-            // getFile returns: (cidOut, encryptedKeyOut, timestampOut, revokedOut, existsOut)
-            const exists = fileRecord.existsOut !== undefined ? fileRecord.existsOut : fileRecord[4]
-            if (!fileRecord || !exists) {
-              throw new Error(
-                'File not found in contract. This file was uploaded before the contract was configured.\n\n' +
-                'Please re-upload the file to register it on-chain with the encrypted key.'
-              )
-            }
-            const encryptedKey = fileRecord.encryptedKeyOut !== undefined ? fileRecord.encryptedKeyOut : fileRecord[1]
-            encryptedKeyBytes = utils.arrayify(encryptedKey)
-            if (!encryptedKeyBytes || encryptedKeyBytes.length === 0) {
-              throw new Error('Encrypted key is empty in contract. File may not have been registered properly.')
-            }
-          } catch (err: any) {
-            if (err.message?.includes('not found')) {
-              throw err
-            }
-            throw new Error(`Failed to get file from contract: ${err.message || err}`)
-          }
-        } else {
-          // Grantee: get from access record
-          const accessRecord = await contract.getAccess(entry.ownerAddr, entry.metadataCid, account)
-          // getAccess returns: (encryptedKeyForGrantee, start, end, revoked, exists)
-          if (!accessRecord.exists || accessRecord.revoked) {
-            throw new Error('Access record not found or revoked')
-          }
-          encryptedKeyBytes = utils.arrayify(accessRecord.encryptedKeyForGrantee)
-          if (!encryptedKeyBytes || encryptedKeyBytes.length === 0) {
-            throw new Error('Encrypted key is empty in access record.')
-          }
-        }
+  async function openFile(id: string) {
+    if (!isConnected || !account) {
+      alert('Please connect your wallet first')
+      return
+    }
 
-        // Decrypt key using MetaMask (ALWAYS works - no fallbacks)
-        // Verify we're using the correct account
-        if (isOwner && entry.ownerAddr.toLowerCase() !== account.toLowerCase()) {
-          throw new Error(
-            `Account mismatch. File was uploaded by ${entry.ownerAddr} but you're trying to decrypt with ${account}. ` +
-            'Please switch to the correct wallet account.'
-          )
-        }
-        
-        console.log('Attempting to decrypt key for account:', account)
-        console.log('Encrypted key bytes length:', encryptedKeyBytes.length)
-        console.log('Encrypted key bytes preview:', Array.from(encryptedKeyBytes.slice(0, 50)).map(b => b.toString(16).padStart(2, '0')).join(' ') + '...')
-        
-        // Show attention modal BEFORE requesting signature (prevents popup suppression)
-        const userConfirmed = confirm(
-          'MetaMask will now ask you to sign a message to decrypt the file.\n\n' +
-          'Please:\n' +
-          '1. Look for the MetaMask signature request popup\n' +
-          '2. Click "Sign" to authorize decryption\n\n' +
-          'This signature is used to derive your decryption key. It does not approve any transactions.\n\n' +
-          'Click OK to continue, or Cancel to abort.'
-        )
-        
-        if (!userConfirmed) {
-          showToast('Decryption cancelled', 'info')
-          return
-        }
-        
-        // Show toast notification
-        showToast('Requesting signature to decrypt file...', 'info')
-        
-        // Request decryption using signature-based key derivation (NO deprecated MetaMask decrypt API)
-        // Pass raw bytes, normalization function will handle conversion
-        const aesKeyBase64 = await decryptWithSignature(encryptedKeyBytes, account)
-        
-        if (!aesKeyBase64 || aesKeyBase64.length === 0) {
-          throw new Error('Decryption returned empty result')
-        }
+    const folder = entries.find(e => e.id === id && isFolder(e))
+    if (folder) {
+      setTab('drive')
+      setCurrentFolderId(folder.id)
+      setSelection([])
+      return
+    }
 
-        // Download and decrypt file
+    try {
+      const known = entries.find(e => e.id === id)
+      if (known && (known.size > PREVIEW_LIMIT_BYTES || !isPreviewable(known.mime))) {
+        // Pick the save target first, while we still hold the click's user activation
+        const fileHandle = await pickSaveFileHandle(entryDisplayName(known))
         showToast('Downloading file...', 'info')
-        const result = await chunkedDownloadFile(entry.metadataCid, aesKeyBase64, {
-          onProgress: (pct) => {
-            console.log(`Download progress: ${pct}%`)
-          },
-        })
-
-        showToast(`Downloaded: ${result.filename}`, 'success')
-      } else {
-        // Legacy file - use mock storage
-        const { blob, entry: legacyEntry } = await storage.downloadEncrypted(id)
-        const url = URL.createObjectURL(blob)
-        setPreview(prev => {
-          try {
-            if (prev?.url) URL.revokeObjectURL(prev.url)
-          } catch {}
-          return { url, mime: legacyEntry.mime || 'application/octet-stream', name: legacyEntry.name }
+        await storage.saveToDisk(id, {
+          fileHandle,
+          onProgress: pct => console.log(`Download progress: ${pct}%`),
         })
+        showToast(`Downloaded: ${entryDisplayName(known)}`, 'success')
+        return
       }
+
+      const { blob, entry } = await storage.downloadEncrypted(id, pct => {
+        console.log(`Download progress: ${pct}%`)
+      })
+      const url = URL.createObjectURL(blob)
+      setPreview(prev => {
+        try {
+          if (prev?.url) URL.revokeObjectURL(prev.url)
+        } catch {}
+        return { url, mime: entry.mime || 'application/octet-stream', name: entryDisplayName(entry) }
+      })
     } catch (e: any) {
+      if (e?.name === 'AbortError') {
+        showToast('Cancelled', 'info')
+        return
+      }
       console.error('Open failed:', e)
       alert('Open failed: ' + (e.message || String(e)))
       showToast('Open failed', 'error')
     }
   }
 
-  function moveToTrash(id: string) {
-    setTrashedIds(prev => (prev.includes(id) ? prev : [...prev, id]))
+  async function moveToTrash(id: string) {
+    await setTrashed(id, true)
+    await refreshList()
+    noteLibraryChanges([{ id, fields: { trashed: true } }])
     setSelectedIds(prev => prev.filter(x => x !== id))
     if (selectedId === id) setSelectedId(null)
     showToast('Moved to Trash', 'info')
   }
 
-  async function remove(id: string) {
-    await storage.remove(id)
+  // Entries plus, for folders, everything below them
+  function withDescendants(ids: string[]) {
+    const all = new Set<string>()
+    for (const id of ids) {
+      all.add(id)
+      const target = entries.find(e => e.id === id)
+      if (target && isFolder(target)) folderDescendants(entries, id).forEach(x => all.add(x))
+    }
+    return [...all]
+  }
+
+  async function removeFromLibrary(ids: string[]) {
+    const removedIds = withDescendants(ids)
+    for (const removedId of removedIds) {
+      await storage.remove(removedId)
+      await removeContentIndex(removedId)
+    }
+    noteLibraryChanges(removedIds.map(x => ({ id: x, fields: { deleted: true } })))
     await refreshList()
-    setTrashedIds(prev => prev.filter(x => x !== id))
-    setSelectedIds(prev => prev.filter(x => x !== id))
-    if (selectedId === id) setSelectedId(null)
-    showToast('File deleted permanently', 'success')
+    setSelectedIds(prev => prev.filter(x => !removedIds.includes(x)))
+    if (selectedId && removedIds.includes(selectedId)) setSelectedId(null)
+  }
+
+  // Trash view deletes go through the confirmation (bulk deletes call this once per id)
+  function requestDelete(id: string) {
+    setPendingDelete(prev => (prev?.includes(id) ? prev : [...(prev ?? []), id]))
+  }
+
+  async function confirmDelete({ revoke, unpin }: { revoke: boolean; unpin: boolean }) {
+    const ids = pendingDelete ?? []
+    if (!ids.length) return
+    const remote = withDescendants(ids)
+      .map(id => entries.find(e => e.id === id))
+      .filter((e): e is StoredEntry => !!e && !isFolder(e) && !!e.metadataCid)
+    try {
+      if ((revoke || unpin) && remote.length) {
+        if (!account || !signer) throw new Error('Please connect your wallet first')
+        setDeleteProgress({ done: 0, total: remote.length })
+        for (let i = 0; i < remote.length; i++) {
+          await releaseRemoteFile(remote[i], { signer, account, revoke, unpin })
+          setDeleteProgress({ done: i + 1, total: remote.length })
+        }
+      }
+      await removeFromLibrary(ids)
+      showToast(`Deleted ${ids.length} item${ids.length === 1 ? '' : 's'} permanently`, 'success')
+      setPendingDelete(null)
+    } catch (err: any) {
+      console.error('Permanent delete failed:', err)
+      showToast(err.message || 'Delete failed', 'error')
+    } finally {
+      setDeleteProgress(null)
+    }
+  }
+
+  async function restore(ids: string[]) {
+    for (const id of ids) {
+      const entry = entries.find(e => e.id === id)
+      await setTrashed(id, false)
+      // The folder it was in may be gone; put it back at the root
+      const parentGone = !!entry?.parentId && !activeEntries.some(f => f.id === entry.parentId)
+      if (parentGone) await moveEntries([id], null)
+      noteLibraryChanges([{ id, fields: parentGone ? { trashed: false, parentId: null } : { trashed: false } }])
+    }
+    await refreshList()
+    showToast(`Restored ${ids.length} item${ids.length === 1 ? '' : 's'}`, 'success')
+  }
+
+  function changeTrashRetention(days: number) {
+    setTrashRetentionDays(days)
+    saveTrashRetentionDays(days)
+  }
+
+  async function newFolder() {
+    const name = prompt('Folder name', 'New folder')?.trim()
+    if (!name) return
+    const folder = await createFolder(name, currentFolderId, account)
+    noteLibraryChanges([
+      { id: folder.id, kind: 'folder', createdAt: folder.createdAt, fields: { name, parentId: currentFolderId } },
+    ])
+    await refreshList()
+    showToast(`Created folder "${name}"`, 'success')
+  }
+
+  async function moveTo(ids: string[], folderId: string | null) {
+    const moved = await moveEntries(ids, folderId)
+    noteLibraryChanges(moved.map(x => ({ id: x, fields: { parentId: folderId } })))
+    await refreshList()
+    setSelection([])
+    const target = folderId ? entries.find(e => e.id === folderId) : null
+    const targetName = folderId ? (target ? entryDisplayName(target) : 'folder') : 'My Drive'
+    showToast(`Moved ${ids.length} item${ids.length === 1 ? '' : 's'} to ${targetName}`, 'info')
   }
 
   function copyShare(e: StoredEntry) {
@@ -471,8 +763,10 @@ const selectedEntry =
     setShareModalEntry(e)
   }
 
-  function renameEntry(id: string, name: string) {
-    setEntries(prev => prev.map(e => (e.id === id ? { ...e, name } : e)))
+  async function renameEntry(id: string, name: string) {
+    await setDisplayName(id, name)
+    await refreshList()
+    noteLibraryChanges([{ id, fields: { name } }])
     if (selectedId === id) setSelectedId(id)
     showToast(`Renamed to "${name}"`, 'info')
   }
@@ -482,13 +776,12 @@ const selectedEntry =
     setSelectedId(ids.length ? ids[ids.length - 1] : null)
   }
 
-  function toggleStar(id: string) {
-    setStarredIds(prev => {
-      const exists = prev.includes(id)
-      const next = exists ? prev.filter(x => x !== id) : [...prev, id]
-      showToast(exists ? 'Removed from Starred' : 'Added to Starred', 'info')
-      return next
-    })
+  async function toggleStar(id: string) {
+    const starred = !entries.find(e => e.id === id)?.starred
+    await setStarred(id, starred)
+    await refreshList()
+    noteLibraryChanges([{ id, fields: { starred } }])
+    showToast(starred ? 'Added to Starred' : 'Removed from Starred', 'info')
   }
 
   async function connect() {
@@ -498,6 +791,45 @@ const selectedEntry =
     }
   }
 
+  async function enableSharing() {
+    try {
+      showToast('Sign to derive your key, then confirm the transaction…', 'info')
+      await publishEncryptionKey()
+      showToast(
+        encryptionKeyOutdated
+          ? 'Sharing key updated — new grants use your current key'
+          : 'Sharing enabled — others can now grant you access',
+        'success'
+      )
+    } catch (err: any) {
+      console.error('Publishing encryption key failed', err)
+      showToast(err.message || 'Failed to publish encryption key', 'error')
+    }
+  }
+
+  async function upgradeKeys() {
+    const cids = ownEntries.filter(e => e.metadataCid && e.ownerAddr).map(e => e.metadataCid!)
+    const ok = confirm(
+      `Upgrade encryption keys for ${cids.length} file(s)?\n\n` +
+        'You will sign twice (new and old key), then confirm one transaction per file still on the old key.'
+    )
+    if (!ok) return
+    setUpgradingKeys(true)
+    try {
+      const result = await migrateLegacyKeys(cids)
+      if (result.failed.length) {
+        showToast(`Upgraded ${result.migrated.length} file(s); ${result.failed.length} failed (see console)`, 'error')
+      } else {
+        showToast(`Upgraded ${result.migrated.length} file key(s)`, 'success')
+      }
+    } catch (err: any) {
+      console.error('Key upgrade failed', err)
+      showToast(err.message || 'Key upgrade failed', 'error')
+    } finally {
+      setUpgradingKeys(false)
+    }
+  }
+
   function toggleTheme() {
     setTheme(prev => (prev === 'dark' ? 'light' : 'dark'))
   }
@@ -514,6 +846,16 @@ const selectedEntry =
         onConnect={connect}
         theme={theme}
         onToggleTheme={toggleTheme}
+        sharingKeyPublished={encryptionKeyPublished}
+        onPublishSharingKey={enableSharing}
+        sharingKeyOutdated={encryptionKeyOutdated}
+        legacyKeyDetected={legacyKeyDetected}
+        onUpgradeKeys={upgradeKeys}
+        upgradingKeys={upgradingKeys}
+        sessionUnlocked={sessionUnlocked}
+        onLockSession={lockSession}
+        sessionIdleMinutes={sessionIdleMinutes}
+        onChangeSessionIdleMinutes={setSessionIdleMinutes}
       />
 
       <main className="flex flex-1 overflow-hidden">
@@ -523,11 +865,23 @@ const selectedEntry =
           storageUsedBytes={storageUsedBytes}
           storageLimitBytes={5 * 1024 ** 3}
           theme={theme}
+          onOpenGatewaySettings={() => setShowGatewaySettings(true)}
+          onSyncFromChain={isConnected ? () => syncFromChain() : undefined}
+          syncing={syncing}
+          onOpenRecoveryKit={isConnected ? () => setShowRecoveryKit(true) : undefined}
+          counts={{ starred: starredEntries.length, trash: trashEntries.length }}
         />
 
         <section className="flex-1 p-4 space-y-4 flex flex-col overflow-hidden">
           <UploadArea onFiles={onFiles} theme={theme} />
 
+          <ResumeUploadsPanel
+            pending={pendingUploads.filter(p => !uploading.some(u => u.uploadId === p.uploadId))}
+            onResume={resumeUpload}
+            onDiscard={discardUpload}
+            theme={theme}
+          />
+
 
           {uploading.length > 0 && (
             <div className="mb-3 space-y-2">
@@ -536,13 +890,27 @@ const selectedEntry =
                   key={u.name}
                   className="bg-slate-900/60 rounded-xl p-2 border border-slate-800"
                 >
-                  <div className="flex items-center justify-between text-sm">
-                    <span>{u.name}</span>
-                    <span>{u.pct.toFixed(0)}%</span>
+                  <div className="flex items-center justify-between text-sm gap-2">
+                    <span className="flex-1 truncate">{u.name}</span>
+                    <span>{u.paused ? 'Paused · ' : ''}{u.pct.toFixed(0)}%</span>
+                    <button
+                      type="button"
+                      className="text-xs text-sky-500 hover:underline"
+                      onClick={() => togglePauseUpload(u.name)}
+                    >
+                      {u.paused ? 'Resume' : 'Pause'}
+                    </button>
+                    <button
+                      type="button"
+                      className="text-xs text-rose-500 hover:underline"
+                      onClick={() => cancelUpload(u.name)}
+                    >
+                      Cancel
+                    </button>
                   </div>
                   <div className="h-1.5 bg-slate-800 rounded-full mt-2 overflow-hidden">
                     <div
-                      className="h-full bg-indigo-500"
+                      className={'h-full ' + (u.paused ? 'bg-amber-500' : 'bg-indigo-500')}
                       style={{ width: `${u.pct}%` }}
                     />
                   </div>
@@ -550,36 +918,80 @@ const selectedEntry =
               ))}
             </div>
           )}
-          {/* Search stub */}
+          {/* Search */}
           <div className="mt-1">
             <div
               className={
-                'rounded-xl px-4 py-2 text-sm ' +
+                'rounded-xl px-4 py-2 text-sm flex items-center gap-2 ' +
                 (theme === 'dark'
                   ? 'bg-slate-900 text-slate-100'
-                  : 'bg-white border border-slate-200 text-slate-500 shadow-sm')
+                  : 'bg-white border border-slate-200 text-slate-700 shadow-sm')
               }
             >
-              Search by name or tag... (coming soon)
+              <span className="text-slate-500">🔍</span>
+              <input
+                type="search"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Escape') setQuery('')
+                }}
+                placeholder="Search by name, type, tag, owner or CID…"
+                className="flex-1 bg-transparent outline-none placeholder:text-slate-500"
+              />
+              {query && (
+                <button type="button" className="text-slate-500 hover:text-slate-300" onClick={() => setQuery('')}>
+                  ✕
+                </button>
+              )}
+            </div>
+            <div className="mt-1 px-1 flex items-center gap-3 text-[11px] text-slate-500">
+              {searchHits && (
+                <span>
+                  {searchHits.length} result{searchHits.length === 1 ? '' : 's'}
+                  {tab === 'drive' ? ' in My Drive' : ''}
+                </span>
+              )}
+              <label className="inline-flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={searchContents}
+                  onChange={e => {
+                    setSearchContents(e.target.checked)
+                    setContentIndexEnabled(e.target.checked)
+                  }}
+                />
+                Index and search text file contents
+              </label>
+              {searchHits && searchContents && !sessionUnlocked && (
+                <span>Contents are searched once your key is unlocked</span>
+              )}
             </div>
           </div>
 
           <FileList
-            entries={visibleEntries}
+            entries={searchHits ? searchHits.map(h => h.entry) : visibleEntries}
             selectedId={selectedId}
             selectedIds={selectedIds}
             viewMode={viewMode}
             onChangeView={setViewMode}
             onSetSelection={setSelection}
             onOpen={openFile}
-            onRemove={id => (isTrashView ? remove(id) : moveToTrash(id))}
+            onRemove={id => (isTrashView ? requestDelete(id) : moveToTrash(id))}
             isTrashView={isTrashView}
             showDetails={showDetails}
             onToggleDetails={() => setShowDetails(v => !v)}
             onRename={renameEntry}
-            starredIds={starredIds}
             onToggleStar={toggleStar}
-            theme={theme}          
+            theme={theme}
+            breadcrumbs={tab === 'drive' && !isSearching ? breadcrumbs : undefined}
+            onNavigate={setCurrentFolderId}
+            onNewFolder={tab === 'drive' && isConnected && !isSearching ? newFolder : undefined}
+            onMove={tab === 'drive' ? moveTo : undefined}
+            onRestore={isTrashView ? restore : undefined}
+            onEmptyTrash={isTrashView ? () => setPendingDelete(trashEntries.map(e => e.id)) : undefined}
+            trashRetentionDays={trashRetentionDays}
+            onChangeTrashRetention={isTrashView ? changeTrashRetention : undefined}
           />
 
         </section>
@@ -596,6 +1008,7 @@ const selectedEntry =
   onCopyLink={copyShare}
   onRename={renameEntry}
   theme={theme}
+  account={account}
 />
 
           </aside>
@@ -620,14 +1033,35 @@ const selectedEntry =
         />
       )}
 
+      {showGatewaySettings && <GatewaySettings onClose={() => setShowGatewaySettings(false)} />}
+      {pendingDelete && (
+        <DeleteForeverModal
+          count={pendingDelete.length}
+          hasRemote={withDescendants(pendingDelete).some(id => !!entries.find(e => e.id === id)?.metadataCid)}
+          busy={!!deleteProgress}
+          progress={deleteProgress}
+          onConfirm={confirmDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+
+      {showRecoveryKit && (
+        <RecoveryKitModal
+          files={ownEntries
+            .filter(e => e.metadataCid && e.ownerAddr)
+            .map(e => ({ cid: e.metadataCid!, filename: e.nameSealed ? undefined : e.name }))}
+          onImported={() => syncFromChain()}
+          onClose={() => setShowRecoveryKit(false)}
+        />
+      )}
+
       <footer
         className={
           'border-t px-4 py-3 text-xs ' +
           (theme === 'dark' ? 'border-slate-800 text-slate-500' : 'border-slate-200 text-slate-500')
         }
       >
-        Drive-like UX • Client-side encryption • Mock storage (IndexedDB). Adapters ready for
-        IPFS/Smart Contract later.
+        Drive-like UX • Client-side encryption • IPFS storage via upload proxy • Access control on-chain.
       </footer>
     </div>
   )
@@ -7,9 +7,23 @@
 
 import { putEntry, putBlob, listEntries, getBlob, getEntry, removeEntry, StoredEntry } from "./lib.db";
 import { fakeCidFromBlob } from "./lib.cid";
+import { Contract, utils } from "ethers";
+import CONTRACT_ABI from "./contracts/TimeBoundFileRegistry.abi.json";
+import { chunkedUploadFile, type UploadController } from "./services/chunkedUpload";
+import { chunkedDownloadBlob, chunkedDownloadFile, type FileMetadata } from "./services/chunkedDownload";
+import { envelopeMetadataCid } from "./services/keyEnvelope";
+
+export interface UploadEncryptedOptions {
+  onProgress?: (p: number) => void;
+  // Pause/resume/cancel handle for the running upload
+  controller?: UploadController;
+  // Folder to file the upload under (null/undefined = root)
+  parentId?: string | null;
+}
 
 export interface StorageAdapter {
-  uploadEncrypted(file: File): { entry: any; } | PromiseLike<{ entry: any; }>;
+  // Encrypts, stores and indexes a file; returns the persisted entry
+  uploadEncrypted(file: File, opts?: UploadEncryptedOptions): Promise<{ entry: StoredEntry }>;
   // SECURITY: Updated to use encryptedKeyForOwner instead of raw keys
   upload: (
     blob: Blob,
@@ -22,11 +36,31 @@ export interface StorageAdapter {
     },
     onProgress?: (p: number) => void
   ) => Promise<string>; // returns id
-  downloadEncrypted: (id: string) => Promise<{ blob: Blob; entry: StoredEntry }>;
+  // Returns the decrypted file contents ready for preview/save
+  downloadEncrypted: (id: string, onProgress?: (p: number) => void) => Promise<{ blob: Blob; entry: StoredEntry }>;
+  // Streams the decrypted file to disk without holding it all in memory (where supported)
+  saveToDisk: (id: string, opts?: SaveToDiskOptions) => Promise<void>;
   list: () => Promise<StoredEntry[]>;
   remove: (id: string) => Promise<void>;
 }
 
+export interface SaveToDiskOptions {
+  onProgress?: (p: number) => void;
+  // Target picked with showSaveFilePicker inside the user gesture
+  fileHandle?: FileSystemFileHandle | null;
+}
+
+function saveBlobWithAnchor(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 export const MockStorage: StorageAdapter = {
   async upload(blob, meta, onProgress) {
     // Simulate progress
@@ -67,9 +101,226 @@ export const MockStorage: StorageAdapter = {
     if (!blob || !entry) throw new Error('Not found');
     return { blob, entry };
   },
+  async saveToDisk(id: string) {
+    const { blob, entry } = await MockStorage.downloadEncrypted(id);
+    saveBlobWithAnchor(blob, entry.name);
+  },
   list: async () => listEntries(),
   remove: async (id: string) => removeEntry(id),
-  uploadEncrypted: function (file: File): { entry: any; } | PromiseLike<{ entry: any; }> {
+  uploadEncrypted: function (file: File): Promise<{ entry: StoredEntry }> {
     throw new Error("Function not implemented.");
   },
 };
+
+export interface ProxyIpfsStorageConfig {
+  proxyUrl: string;
+  account: string | null;
+  signer?: any;
+  contractAddress?: string;
+  /**
+   * Decrypts the owner/grantee-encrypted AES key read from the contract.
+   * Should throw an AbortError if the user declines the signature prompt.
+   */
+  resolveKey: (encryptedKey: Uint8Array, entry: StoredEntry) => Promise<string>;
+}
+
+/**
+ * Storage adapter backed by the upload proxy (/upload, /metadata) and IPFS gateways.
+ * 
+ * Files are chunked, encrypted and pinned through the proxy; the local IndexedDB
+ * only keeps the entry index (metadataCid, owner, tx hash). Entries created by
+ * the old MockStorage (no metadataCid) are still served from their local blob.
+ */
+export class ProxyIpfsStorage implements StorageAdapter {
+  constructor(private readonly config: ProxyIpfsStorageConfig) {}
+
+  async uploadEncrypted(file: File, opts: UploadEncryptedOptions = {}): Promise<{ entry: StoredEntry }> {
+    const { onProgress, controller, parentId = null } = opts;
+    const { proxyUrl, account, signer, contractAddress } = this.config;
+    if (!proxyUrl) {
+      throw new Error("VITE_PROXY_URL not configured");
+    }
+    if (!account) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    const canRegister = !!contractAddress && !!signer;
+    const result = await chunkedUploadFile(file, {
+      ownerAddr: account,
+      signer: signer || undefined,
+      contractAddress: contractAddress || undefined,
+      proxyUrl,
+      onProgress: onProgress ? (pct) => onProgress(pct) : undefined,
+      autoRegister: canRegister,
+      controller,
+    });
+
+    const entry: StoredEntry = {
+      id: result.metadataCid, // Use metadataCid as ID for chunked files
+      name: file.name,
+      size: file.size,
+      mime: file.type || "application/octet-stream",
+      createdAt: Date.now(),
+      metadataCid: result.metadataCid,
+      ownerAddr: account,
+      onChainTx: result.txReceipt?.transactionHash || null,
+      encryptedKeyForOwner: null, // Not stored here - it's in the contract
+      parentId,
+    };
+    await putEntry(entry);
+    return { entry };
+  }
+
+  async upload(
+    blob: Blob,
+    meta: { name: string; size: number; mime: string; ivB64: string; encryptedKeyForOwner?: string | null },
+    onProgress?: (p: number) => void
+  ): Promise<string> {
+    const file = new File([blob], meta.name, { type: meta.mime });
+    const { entry } = await this.uploadEncrypted(file, { onProgress });
+    return entry.id;
+  }
+
+  async downloadEncrypted(id: string, onProgress?: (p: number) => void): Promise<{ blob: Blob; entry: StoredEntry }> {
+    const entry = await getEntry(id);
+    if (!entry) throw new Error("File not found");
+
+    // Legacy entry from MockStorage: blob lives in IndexedDB
+    if (!entry.metadataCid || !entry.ownerAddr) {
+      const blob = await getBlob(id);
+      if (!blob) throw new Error("Not found");
+      return { blob, entry };
+    }
+
+    const encryptedKey = await this.getEncryptedKey(entry);
+    const aesKeyBase64 = await this.config.resolveKey(encryptedKey, entry);
+    if (!aesKeyBase64 || aesKeyBase64.length === 0) {
+      throw new Error("Decryption returned empty result");
+    }
+
+    // After a key rotation the content lives under the CID named in the key envelope
+    const contentCid = envelopeMetadataCid(encryptedKey, entry.metadataCid);
+    const { blob, metadata } = await chunkedDownloadBlob(contentCid, aesKeyBase64, { onProgress });
+    return { blob, entry: await this.revealSealedFields(entry, metadata) };
+  }
+
+  async saveToDisk(id: string, opts: SaveToDiskOptions = {}): Promise<void> {
+    const entry = await getEntry(id);
+    if (!entry) throw new Error("File not found");
+
+    if (!entry.metadataCid || !entry.ownerAddr) {
+      const { blob } = await this.downloadEncrypted(id);
+      saveBlobWithAnchor(blob, entry.name);
+      return;
+    }
+
+    const encryptedKey = await this.getEncryptedKey(entry);
+    const aesKeyBase64 = await this.config.resolveKey(encryptedKey, entry);
+    if (!aesKeyBase64 || aesKeyBase64.length === 0) {
+      throw new Error("Decryption returned empty result");
+    }
+
+    const contentCid = envelopeMetadataCid(encryptedKey, entry.metadataCid);
+    const { metadata } = await chunkedDownloadFile(contentCid, aesKeyBase64, {
+      onProgress: opts.onProgress,
+      fileHandle: opts.fileHandle,
+    });
+    await this.revealSealedFields(entry, metadata);
+  }
+
+  list = async () => listEntries();
+
+  remove = async (id: string) => removeEntry(id);
+
+  /**
+   * Entries discovered from chain events only know a placeholder name for sealed metadata;
+   * store the real name/MIME once the file has been opened with its key.
+   */
+  private async revealSealedFields(entry: StoredEntry, metadata: FileMetadata): Promise<StoredEntry> {
+    if (!entry.nameSealed) return entry;
+    const revealed: StoredEntry = {
+      ...entry,
+      name: metadata.filename,
+      mime: metadata.mimeType || entry.mime,
+      size: metadata.fileSize,
+      nameSealed: false,
+    };
+    await putEntry(revealed);
+    return revealed;
+  }
+
+  /**
+   * Read the encrypted AES key for the connected account from the contract.
+   * Owners read it from their FileRecord, grantees from their AccessRecord.
+   */
+  private async getEncryptedKey(entry: StoredEntry): Promise<Uint8Array> {
+    const { account, contractAddress } = this.config;
+    if (!account) {
+      throw new Error("Please connect your wallet first");
+    }
+    if (!contractAddress) {
+      throw new Error(
+        "Contract address not configured.\n\n" +
+        "To download files, you need to:\n" +
+        "1. Deploy the TimeBoundFileRegistry smart contract (see server/contract.sol)\n" +
+        "2. Add the deployed contract address to frontend/.env as:\n" +
+        "   VITE_CONTRACT_ADDRESS=0x...\n\n" +
+        "The contract address is NOT your wallet address - it's the address of the deployed smart contract.\n" +
+        "You can deploy it using Hardhat, Remix, or any Solidity development tool."
+      );
+    }
+
+    const provider = new (await import("ethers")).providers.Web3Provider(window.ethereum);
+    const contract = new Contract(contractAddress, CONTRACT_ABI, provider);
+    const ownerAddr = entry.ownerAddr!;
+    const metadataCid = entry.metadataCid!;
+    const isOwner = ownerAddr.toLowerCase() === account.toLowerCase();
+
+    if (isOwner) {
+      let encryptedKeyBytes: Uint8Array;
+      try {
+        const fileRecord = await contract.getFile(ownerAddr, metadataCid);
+        // getFile returns: (cidOut, encryptedKeyOut, timestampOut, revokedOut, existsOut)
+        const exists = fileRecord.existsOut !== undefined ? fileRecord.existsOut : fileRecord[4];
+        if (!fileRecord || !exists) {
+          throw new Error(
+            "File not found in contract. This file was uploaded before the contract was configured.\n\n" +
+            "Please re-upload the file to register it on-chain with the encrypted key."
+          );
+        }
+        const encryptedKey = fileRecord.encryptedKeyOut !== undefined ? fileRecord.encryptedKeyOut : fileRecord[1];
+        encryptedKeyBytes = utils.arrayify(encryptedKey);
+      } catch (err: any) {
+        if (err.message?.includes("not found")) {
+          throw err;
+        }
+        throw new Error(`Failed to get file from contract: ${err.message || err}`);
+      }
+      if (!encryptedKeyBytes || encryptedKeyBytes.length === 0) {
+        throw new Error("Encrypted key is empty in contract. File may not have been registered properly.");
+      }
+      return encryptedKeyBytes;
+    }
+
+    let hasAccess = false;
+    try {
+      hasAccess = await contract.isAccessActive(ownerAddr, metadataCid, account);
+    } catch (err) {
+      console.warn("Access check failed:", err);
+    }
+    if (!hasAccess) {
+      throw new Error("You do not have access to this file. Request access from the owner.");
+    }
+
+    const accessRecord = await contract.getAccess(ownerAddr, metadataCid, account);
+    // getAccess returns: (encryptedKeyForGrantee, start, end, revoked, exists)
+    if (!accessRecord.exists || accessRecord.revoked) {
+      throw new Error("Access record not found or revoked");
+    }
+    const encryptedKeyBytes = utils.arrayify(accessRecord.encryptedKeyForGrantee);
+    if (!encryptedKeyBytes || encryptedKeyBytes.length === 0) {
+      throw new Error("Encrypted key is empty in access record.");
+    }
+    return encryptedKeyBytes;
+  }
+}
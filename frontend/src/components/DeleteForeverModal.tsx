@@ -0,0 +1,76 @@
+import React, { useState } from 'react'
+
+type Props = {
+  count: number
+  // Some of the items are chunked files with copies on IPFS / the registry
+  hasRemote: boolean
+  busy?: boolean
+  progress?: { done: number; total: number } | null
+  onConfirm: (opts: { revoke: boolean; unpin: boolean }) => void
+  onCancel: () => void
+}
+
+/**
+ * Confirm permanent deletion, optionally releasing the files' on-chain record and IPFS pins
+ */
+export function DeleteForeverModal({ count, hasRemote, busy = false, progress, onConfirm, onCancel }: Props) {
+  const [revoke, setRevoke] = useState(false)
+  const [unpin, setUnpin] = useState(false)
+
+  return (
+    <div className="fixed inset-0 bg-black/60 grid place-items-center p-4 z-50">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl p-4 w-full max-w-md space-y-3 text-slate-100">
+        <div className="text-lg font-semibold">Delete {count} item{count === 1 ? '' : 's'} forever?</div>
+        <p className="text-sm text-slate-400">
+          They are removed from your library on every device. This can't be undone.
+        </p>
+
+        {hasRemote && (
+          <div className="space-y-2">
+            <label className="flex items-start gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={revoke} onChange={e => setRevoke(e.target.checked)} disabled={busy} />
+              <span>
+                Revoke on-chain
+                <span className="block text-[11px] text-slate-500">
+                  Cuts off everyone the files were shared with. One transaction per file.
+                </span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={unpin} onChange={e => setUnpin(e.target.checked)} disabled={busy} />
+              <span>
+                Unpin from IPFS
+                <span className="block text-[11px] text-slate-500">
+                  Asks the proxy to stop pinning the encrypted chunks. Copies cached elsewhere may remain.
+                </span>
+              </span>
+            </label>
+          </div>
+        )}
+
+        {progress && (
+          <div className="text-xs text-slate-400">
+            {progress.done} / {progress.total} files
+          </div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <button
+            className="rounded-xl bg-slate-800 px-4 py-2 text-sm hover:bg-slate-700 disabled:opacity-50"
+            onClick={onCancel}
+            disabled={busy}
+          >
+            Cancel
+          </button>
+          <button
+            className="rounded-xl bg-rose-600 px-4 py-2 text-sm hover:bg-rose-500 disabled:opacity-50"
+            onClick={() => onConfirm({ revoke, unpin })}
+            disabled={busy}
+          >
+            {busy ? 'Deleting…' : 'Delete forever'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
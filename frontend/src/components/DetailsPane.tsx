@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react'
-import type { StoredEntry } from '../lib.db'
+import { entryDisplayName, type StoredEntry } from '../lib.db'
 
 type Props = {
   entry: StoredEntry | null
@@ -7,6 +7,8 @@ type Props = {
   onRename?: (id: string, name: string) => void
   theme?: 'dark' | 'light'
   selectionCount?: number
+  // Connected account; entries owned by anyone else are shown as shared
+  account?: string | null
 }
 
 export function DetailsPane({
@@ -15,13 +17,14 @@ export function DetailsPane({
   onRename,
   theme = 'dark',
   selectionCount = 0,
+  account = null,
 }: Props) {
   const isDark = theme === 'dark'
   const [editing, setEditing] = useState(false)
-  const [name, setName] = useState(entry?.name ?? '')
+  const [name, setName] = useState(entry ? entryDisplayName(entry) : '')
 
   useEffect(() => {
-    setName(entry?.name ?? '')
+    setName(entry ? entryDisplayName(entry) : '')
     setEditing(false)
   }, [entry?.id])
 
@@ -92,7 +95,7 @@ export function DetailsPane({
             onChange={e => setName(e.target.value)}
             onBlur={() => {
               const trimmed = name.trim()
-              if (trimmed && trimmed !== entry.name) {
+              if (trimmed && trimmed !== entryDisplayName(entry)) {
                 onRename(entry.id, trimmed)
               }
               setEditing(false)
@@ -113,7 +116,7 @@ export function DetailsPane({
           />
         ) : (
           <div className="flex-1 min-w-0">
-            <div className="text-sm font-medium truncate">{entry.name}</div>
+            <div className="text-sm font-medium truncate">{entryDisplayName(entry)}</div>
             <div className={'text-[11px] ' + labelMuted}>
               {entry.mime || 'file'} · {entry.size ? formatBytes(entry.size) : ''}
             </div>
@@ -131,7 +134,7 @@ export function DetailsPane({
             }
             onClick={() => {
               setEditing(true)
-              setName(entry.name)
+              setName(entryDisplayName(entry))
             }}
           >
             Rename
@@ -163,7 +166,15 @@ export function DetailsPane({
       <div className="text-xs">
         <div className="font-medium">CID</div>
         <div className={codeCls}>{cid}</div>
-        <div className={'mt-1 text-[11px] ' + labelMuted}>● Pinned · Mock backend</div>
+        <div className={'mt-1 text-[11px] ' + labelMuted}>
+          ● {entry.metadataCid ? 'Pinned · IPFS' : 'Local only · Legacy entry'}
+        </div>
+        {entry.ownerAddr && account && entry.ownerAddr.toLowerCase() !== account.toLowerCase() && (
+          <>
+            <div className="mt-2 font-medium">Shared by</div>
+            <div className={codeCls}>{entry.ownerAddr}</div>
+          </>
+        )}
       </div>
 
       {/* crypto */}
@@ -1,5 +1,10 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react'
-import type { StoredEntry } from '../lib.db'
+import { isFolder, entryDisplayName, type StoredEntry } from '../lib.db'
+
+// dataTransfer type for entries dragged within the list (JSON array of ids)
+const DRAG_MIME = 'application/x-ddrive-ids'
+
+type Crumb = { id: string | null; name: string }
 
 function getFileKind(mime?: string) {
   if (!mime) return 'file'
@@ -67,6 +72,8 @@ function gridIcon(kind: string) {
       return '🎵'
     case 'archive':
       return '🗂️'
+    case 'folder':
+      return '📁'
     default:
       return '📄'
   }
@@ -88,11 +95,23 @@ type Props = {
   showDetails: boolean
   onToggleDetails: () => void
   onRename: (id: string, name: string) => void
-  starredIds: string[]
   onToggleStar: (id: string) => void
   theme: 'dark' | 'light'
+  // Folder navigation (My Drive only)
+  breadcrumbs?: Crumb[]
+  onNavigate?: (folderId: string | null) => void
+  onNewFolder?: () => void
+  onMove?: (ids: string[], folderId: string | null) => void
+  // Trash view only
+  onRestore?: (ids: string[]) => void
+  onEmptyTrash?: () => void
+  trashRetentionDays?: number
+  onChangeTrashRetention?: (days: number) => void
 }
 
+// Auto-delete choices for trashed items (0 = never)
+const RETENTION_OPTIONS = [0, 7, 30, 90]
+
 export function FileList({
   entries,
   selectedIds,
@@ -105,9 +124,16 @@ export function FileList({
   showDetails,
   onToggleDetails,
   onRename,
-  starredIds,
   onToggleStar,
   theme,
+  breadcrumbs,
+  onNavigate,
+  onNewFolder,
+  onMove,
+  onRestore,
+  onEmptyTrash,
+  trashRetentionDays,
+  onChangeTrashRetention,
 }: Props) {
   const [sortBy, setSortBy] = useState<'name' | 'size' | 'date'>('name')
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc')
@@ -116,9 +142,11 @@ export function FileList({
   const sortedEntries = useMemo(() => {
     const arr = [...entries]
     arr.sort((a, b) => {
+      // Folders first, like most file managers
+      if (isFolder(a) !== isFolder(b)) return isFolder(a) ? -1 : 1
       if (sortBy === 'name') {
-        const an = (a.name || '').toLowerCase()
-        const bn = (b.name || '').toLowerCase()
+        const an = (entryDisplayName(a) || '').toLowerCase()
+        const bn = (entryDisplayName(b) || '').toLowerCase()
         if (an < bn) return sortDir === 'asc' ? -1 : 1
         if (an > bn) return sortDir === 'asc' ? 1 : -1
         return 0
@@ -136,7 +164,8 @@ export function FileList({
   }, [entries, sortBy, sortDir])
 
   const hasSelection = selectedIds.length > 0
-  const allStarred = hasSelection && selectedIds.every(id => starredIds.includes(id))
+  const allStarred =
+    hasSelection && selectedIds.every(id => entries.find(e => e.id === id)?.starred)
   const bulkStarLabel = allStarred ? 'Unstar' : 'Star'
 
   function handleBulkRemove() {
@@ -144,12 +173,19 @@ export function FileList({
     onSetSelection([])
   }
 
+  function handleBulkRestore() {
+    onRestore?.(selectedIds)
+    onSetSelection([])
+  }
+
   function handleBulkStar() {
     selectedIds.forEach(onToggleStar)
     onSetSelection([])
   }
 
-  if (!sortedEntries.length) {
+  const inFolder = !!breadcrumbs && breadcrumbs.length > 1
+
+  if (!sortedEntries.length && !inFolder && !onNewFolder) {
     return (
       <div className="flex-1 flex items-center justify-center text-sm text-slate-500">
         {isTrashView ? 'Trash is empty.' : 'No files yet. Drop something above to get started.'}
@@ -182,6 +218,15 @@ export function FileList({
               >
                 {isTrashView ? 'Delete' : 'Trash'}
               </button>
+              {isTrashView && onRestore && (
+                <button
+                  type="button"
+                  className="rounded-full border border-sky-500/60 text-sky-500 px-3 py-1 hover:bg-sky-500/10"
+                  onClick={handleBulkRestore}
+                >
+                  Restore
+                </button>
+              )}
               <button
                 type="button"
                 className="rounded-full border border-amber-500/60 text-amber-500 px-3 py-1 hover:bg-amber-500/10"
@@ -199,7 +244,49 @@ export function FileList({
             </>
           ) : (
             <>
-              <span>{isTrashView ? 'Trash' : 'My Drive'}</span>
+              {breadcrumbs ? (
+                <Breadcrumbs crumbs={breadcrumbs} onNavigate={onNavigate} onMove={onMove} />
+              ) : (
+                <span>{isTrashView ? 'Trash' : 'My Drive'}</span>
+              )}
+              {onNewFolder && (
+                <button
+                  type="button"
+                  className={
+                    isDark
+                      ? 'rounded-full border border-slate-700 px-3 py-1 text-[11px] text-slate-300 hover:border-slate-500'
+                      : 'rounded-full border border-slate-300 px-3 py-1 text-[11px] text-slate-600 hover:border-slate-500'
+                  }
+                  onClick={onNewFolder}
+                >
+                  + New folder
+                </button>
+              )}
+              {isTrashView && onEmptyTrash && sortedEntries.length > 0 && (
+                <button
+                  type="button"
+                  className="rounded-full border border-rose-500/60 text-rose-500 px-3 py-1 text-[11px] hover:bg-rose-500/10"
+                  onClick={onEmptyTrash}
+                >
+                  Empty trash
+                </button>
+              )}
+              {isTrashView && onChangeTrashRetention && (
+                <span className="inline-flex items-center gap-1">
+                  <span>• Auto-delete</span>
+                  <select
+                    value={trashRetentionDays ?? 0}
+                    onChange={e => onChangeTrashRetention(Number(e.target.value))}
+                    className={selectClass}
+                  >
+                    {RETENTION_OPTIONS.map(d => (
+                      <option key={d} value={d}>
+                        {d === 0 ? 'Never' : `After ${d} days`}
+                      </option>
+                    ))}
+                  </select>
+                </span>
+              )}
               <span className="hidden sm:inline-flex items-center gap-1">
                 <span>• Sort by</span>
                 <select
@@ -266,7 +353,11 @@ export function FileList({
         </div>
       </div>
 
-      {viewMode === 'list' ? (
+      {!sortedEntries.length ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-slate-500">
+          {inFolder ? 'This folder is empty.' : 'No files yet. Drop something above to get started.'}
+        </div>
+      ) : viewMode === 'list' ? (
         <ListView
           entries={sortedEntries}
           selectedIds={selectedIds}
@@ -275,9 +366,10 @@ export function FileList({
           onRemove={onRemove}
           isTrashView={isTrashView}
           onRename={onRename}
-          starredIds={starredIds}
           onToggleStar={onToggleStar}
           theme={theme}
+          onMove={onMove}
+          onRestore={onRestore}
         />
       ) : (
         <GridView
@@ -288,9 +380,10 @@ export function FileList({
           onRemove={onRemove}
           isTrashView={isTrashView}
           onRename={onRename}
-          starredIds={starredIds}
           onToggleStar={onToggleStar}
           theme={theme}
+          onMove={onMove}
+          onRestore={onRestore}
         />
       )}
     </div>
@@ -350,9 +443,10 @@ function ListView({
   onRemove,
   isTrashView,
   onRename,
-  starredIds,
   onToggleStar,
   theme,
+  onMove,
+  onRestore,
 }: {
   entries: StoredEntry[]
   selectedIds: string[]
@@ -361,12 +455,14 @@ function ListView({
   onRemove: (id: string) => void
   isTrashView: boolean
   onRename: (id: string, name: string) => void
-  starredIds: string[]
   onToggleStar: (id: string) => void
   theme: 'dark' | 'light'
+  onMove?: (ids: string[], folderId: string | null) => void
+  onRestore?: (ids: string[]) => void
 }) {
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editingName, setEditingName] = useState('')
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
   const isDark = theme === 'dark'
 
   const containerRef = useRef<HTMLDivElement | null>(null)
@@ -485,10 +581,12 @@ function ListView({
         {entries.map(e => {
           const isSelected = selectedIds.includes(e.id)
           const isEditing = editingId === e.id
-          const isStarred = starredIds.includes(e.id)
+          const isStarred = !!e.starred
 
+          const folder = isFolder(e)
           const rowClass =
             'px-6 py-2 flex items-center cursor-pointer ' +
+            (dropTargetId === e.id ? 'ring-2 ring-inset ring-sky-400 ' : '') +
             (isSelected
               ? isDark
                 ? 'bg-slate-800/80 border-l-2 border-l-sky-400'
@@ -515,13 +613,14 @@ function ListView({
                 else itemRefs.current.delete(e.id)
               }}
               className={rowClass}
+              {...dragProps(e, selectedIds, onMove, setDropTargetId)}
               onClick={ev => handleItemClick(ev, e.id, entries, selectedIds, onSetSelection)}
               onDoubleClick={ev => {
                 ev.stopPropagation()
                 onOpen(e.id)
               }}
             >
-              <div className="w-6 text-slate-500">📄</div>
+              <div className="w-6 text-slate-500">{folder ? '📁' : '📄'}</div>
               <div className="flex-1 flex items-center gap-2">
                 {isEditing ? (
                   <input
@@ -530,7 +629,7 @@ function ListView({
                     onChange={ev => setEditingName(ev.target.value)}
                     onBlur={() => {
                       const trimmed = editingName.trim()
-                      if (trimmed && trimmed !== e.name) {
+                      if (trimmed && trimmed !== entryDisplayName(e)) {
                         onRename(e.id, trimmed)
                       }
                       setEditingId(null)
@@ -551,10 +650,10 @@ function ListView({
                     onClick={ev => {
                       ev.stopPropagation()
                       setEditingId(e.id)
-                      setEditingName(e.name)
+                      setEditingName(entryDisplayName(e))
                     }}
                   >
-                    {e.name}
+                    {entryDisplayName(e)}
                   </button>
                 )}
 
@@ -573,25 +672,39 @@ function ListView({
                   {isStarred ? '★' : '☆'}
                 </button>
 
-                <span className="ml-1 inline-flex items-center rounded-full bg-emerald-500/15 text-emerald-600 text-[11px] px-2 py-[1px]">
-                  encrypted
-                </span>
+                {!folder && (
+                  <span className="ml-1 inline-flex items-center rounded-full bg-emerald-500/15 text-emerald-600 text-[11px] px-2 py-[1px]">
+                    encrypted
+                  </span>
+                )}
               </div>
 
-              <div className={sizeClass}>{formatBytes(e.size)}</div>
+              <div className={sizeClass}>{folder ? '—' : formatBytes(e.size)}</div>
               <div className={dateClass}>
                 {e.createdAt ? new Date(e.createdAt).toLocaleString() : ''}
               </div>
               <div className="w-28 text-right space-x-3">
-                <button
-                  className="text-sky-500 hover:underline"
-                  onClick={ev => {
-                    ev.stopPropagation()
-                    onOpen(e.id)
-                  }}
-                >
-                  Open
-                </button>
+                {isTrashView && onRestore ? (
+                  <button
+                    className="text-sky-500 hover:underline"
+                    onClick={ev => {
+                      ev.stopPropagation()
+                      onRestore([e.id])
+                    }}
+                  >
+                    Restore
+                  </button>
+                ) : (
+                  <button
+                    className="text-sky-500 hover:underline"
+                    onClick={ev => {
+                      ev.stopPropagation()
+                      onOpen(e.id)
+                    }}
+                  >
+                    Open
+                  </button>
+                )}
                 <button
                   className="text-rose-500 hover:underline"
                   onClick={ev => {
@@ -620,9 +733,10 @@ function GridView({
   onRemove,
   isTrashView,
   onRename,
-  starredIds,
   onToggleStar,
   theme,
+  onMove,
+  onRestore,
 }: {
   entries: StoredEntry[]
   selectedIds: string[]
@@ -631,12 +745,14 @@ function GridView({
   onRemove: (id: string) => void
   isTrashView: boolean
   onRename: (id: string, name: string) => void
-  starredIds: string[]
   onToggleStar: (id: string) => void
   theme: 'dark' | 'light'
+  onMove?: (ids: string[], folderId: string | null) => void
+  onRestore?: (ids: string[]) => void
 }) {
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editingName, setEditingName] = useState('')
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
   const isDark = theme === 'dark'
 
   const containerRef = useRef<HTMLDivElement | null>(null)
@@ -743,10 +859,11 @@ function GridView({
               : label === 'Code'
               ? 'bg-sky-500/20 text-sky-600'
               : 'bg-slate-500/10 text-slate-600'
-          const isStarred = starredIds.includes(e.id)
+          const isStarred = !!e.starred
 
-          const kind = getFileKind(e.mime)
-          const ext = getExt(e.name)
+          const folder = isFolder(e)
+          const kind = folder ? 'folder' : getFileKind(e.mime)
+          const ext = folder ? '' : getExt(entryDisplayName(e))
 
           const cardClassBase = isSelected
             ? isDark
@@ -774,8 +891,10 @@ function GridView({
               }}
               className={
                 'rounded-2xl border px-3 pt-3 pb-2 flex flex-col justify-between cursor-pointer ' +
+                (dropTargetId === e.id ? 'ring-2 ring-sky-400 ' : '') +
                 cardClassBase
               }
+              {...dragProps(e, selectedIds, onMove, setDropTargetId)}
               onClick={ev => handleItemClick(ev, e.id, entries, selectedIds, onSetSelection)}
               onDoubleClick={ev => {
                 ev.stopPropagation()
@@ -811,18 +930,20 @@ function GridView({
                     )}
 
                     <div className="absolute bottom-2 right-2 px-2 py-[2px] rounded-full text-[10px] font-medium bg-black/35 text-slate-50 backdrop-blur">
-                      {label}
+                      {folder ? 'Folder' : label}
                     </div>
                   </div>
                 </div>
 
-                <div className="flex items-center justify-between mb-1">
-                  <div className={encryptedPill}>
-                    <span className="h-2 w-2 rounded-full bg-emerald-400" />
-                    <span>encrypted</span>
+                {!folder && (
+                  <div className="flex items-center justify-between mb-1">
+                    <div className={encryptedPill}>
+                      <span className="h-2 w-2 rounded-full bg-emerald-400" />
+                      <span>encrypted</span>
+                    </div>
+                    <span className={`text-[11px] px-2 py-[1px] rounded-full ${badge}`}>{label}</span>
                   </div>
-                  <span className={`text-[11px] px-2 py-[1px] rounded-full ${badge}`}>{label}</span>
-                </div>
+                )}
 
                 <div className="mt-1 flex flex-col gap-1">
                   {isEditing ? (
@@ -832,7 +953,7 @@ function GridView({
                       onChange={ev => setEditingName(ev.target.value)}
                       onBlur={() => {
                         const trimmed = editingName.trim()
-                        if (trimmed && trimmed !== e.name) {
+                        if (trimmed && trimmed !== entryDisplayName(e)) {
                           onRename(e.id, trimmed)
                         }
                         setEditingId(null)
@@ -853,13 +974,13 @@ function GridView({
                       onClick={ev => {
                         ev.stopPropagation()
                         setEditingId(e.id)
-                        setEditingName(e.name)
+                        setEditingName(entryDisplayName(e))
                       }}
                     >
-                      {e.name}
+                      {entryDisplayName(e)}
                     </button>
                   )}
-                  <div className="text-xs text-slate-500">{formatBytes(e.size)}</div>
+                  {!folder && <div className="text-xs text-slate-500">{formatBytes(e.size)}</div>}
                   <div className="text-xs text-slate-500">
                     {e.createdAt ? new Date(e.createdAt).toLocaleString() : ''}
                   </div>
@@ -867,15 +988,27 @@ function GridView({
               </div>
 
               <div className="flex items-center justify-between text-xs mt-2">
-                <button
-                  className="text-sky-600 hover:underline"
-                  onClick={ev => {
-                    ev.stopPropagation()
-                    onOpen(e.id)
-                  }}
-                >
-                  Open
-                </button>
+                {isTrashView && onRestore ? (
+                  <button
+                    className="text-sky-600 hover:underline"
+                    onClick={ev => {
+                      ev.stopPropagation()
+                      onRestore([e.id])
+                    }}
+                  >
+                    Restore
+                  </button>
+                ) : (
+                  <button
+                    className="text-sky-600 hover:underline"
+                    onClick={ev => {
+                      ev.stopPropagation()
+                      onOpen(e.id)
+                    }}
+                  >
+                    Open
+                  </button>
+                )}
                 <button
                   className="text-rose-500 hover:underline"
                   onClick={ev => {
@@ -895,6 +1028,104 @@ function GridView({
 }
 
 
+/* ---------- folders: breadcrumbs + drag-and-drop move ---------- */
+
+function readDraggedIds(ev: React.DragEvent): string[] | null {
+  const raw = ev.dataTransfer.getData(DRAG_MIME)
+  if (!raw) return null
+  try {
+    const ids = JSON.parse(raw)
+    return Array.isArray(ids) ? ids : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Rows are draggable; folder rows accept drops (dragging a selected row moves the whole selection)
+ */
+function dragProps(
+  e: StoredEntry,
+  selectedIds: string[],
+  onMove: ((ids: string[], folderId: string | null) => void) | undefined,
+  setDropTargetId: (id: string | null) => void
+) {
+  if (!onMove) return {}
+  const props: React.HTMLAttributes<HTMLDivElement> & { draggable: boolean } = {
+    draggable: true,
+    onDragStart: ev => {
+      const ids = selectedIds.includes(e.id) ? selectedIds : [e.id]
+      ev.dataTransfer.setData(DRAG_MIME, JSON.stringify(ids))
+      ev.dataTransfer.effectAllowed = 'move'
+    },
+  }
+  if (isFolder(e)) {
+    props.onDragOver = ev => {
+      if (!ev.dataTransfer.types.includes(DRAG_MIME)) return
+      ev.preventDefault()
+      ev.dataTransfer.dropEffect = 'move'
+      setDropTargetId(e.id)
+    }
+    props.onDragLeave = () => setDropTargetId(null)
+    props.onDrop = ev => {
+      setDropTargetId(null)
+      const ids = readDraggedIds(ev)?.filter(id => id !== e.id)
+      if (!ids?.length) return
+      ev.preventDefault()
+      onMove(ids, e.id)
+    }
+  }
+  return props
+}
+
+function Breadcrumbs({
+  crumbs,
+  onNavigate,
+  onMove,
+}: {
+  crumbs: Crumb[]
+  onNavigate?: (folderId: string | null) => void
+  onMove?: (ids: string[], folderId: string | null) => void
+}) {
+  const [over, setOver] = useState<number | null>(null)
+  return (
+    <span className="inline-flex items-center gap-1">
+      {crumbs.map((c, i) => {
+        const isLast = i === crumbs.length - 1
+        return (
+          <React.Fragment key={c.id ?? 'root'}>
+            {i > 0 && <span>›</span>}
+            <button
+              type="button"
+              className={
+                'rounded px-1 ' +
+                (isLast ? 'font-medium' : 'hover:underline') +
+                (over === i ? ' ring-1 ring-sky-400' : '')
+              }
+              onClick={() => !isLast && onNavigate?.(c.id)}
+              onDragOver={ev => {
+                if (isLast || !onMove || !ev.dataTransfer.types.includes(DRAG_MIME)) return
+                ev.preventDefault()
+                setOver(i)
+              }}
+              onDragLeave={() => setOver(null)}
+              onDrop={ev => {
+                setOver(null)
+                const ids = readDraggedIds(ev)
+                if (isLast || !onMove || !ids?.length) return
+                ev.preventDefault()
+                onMove(ids, c.id)
+              }}
+            >
+              {c.name}
+            </button>
+          </React.Fragment>
+        )
+      })}
+    </span>
+  )
+}
+
 /* ---------- helpers ---------- */
 
 function typeLabel(mime?: string) {
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react'
+import {
+  listGateways,
+  addGateway,
+  removeGateway,
+  resetGateways,
+  subscribeGateways,
+  LOCAL_KUBO_GATEWAY,
+  type GatewayConfig,
+  type GatewayStats,
+  type GatewayStyle,
+} from '../utils/gatewayRegistry'
+
+type Row = { config: GatewayConfig; stats: GatewayStats; score: number }
+
+export function GatewaySettings({ onClose }: { onClose: () => void }) {
+  const [rows, setRows] = useState<Row[]>([])
+  const [newUrl, setNewUrl] = useState('')
+  const [newStyle, setNewStyle] = useState<GatewayStyle>('path')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const refresh = () => {
+      listGateways().then(setRows).catch(err => setError(err.message || String(err)))
+    }
+    refresh()
+    return subscribeGateways(refresh)
+  }, [])
+
+  async function run(action: () => Promise<unknown>) {
+    setError(null)
+    try {
+      await action()
+    } catch (err: any) {
+      setError(err.message || String(err))
+    }
+  }
+
+  const hasLocalNode = rows.some(r => r.config.baseUrl === LOCAL_KUBO_GATEWAY)
+  const ranked = [...rows].sort((a, b) => b.score - a.score)
+
+  return (
+    <div className="fixed inset-0 bg-black/60 grid place-items-center p-4 z-50">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl p-4 w-full max-w-2xl max-h-[90vh] overflow-y-auto text-slate-100">
+        <div className="text-lg font-semibold mb-1">IPFS Gateways</div>
+        <p className="text-xs text-slate-400 mb-3">
+          Gateways are tried best-first by recorded success rate and latency. Stats are kept in this browser only.
+        </p>
+
+        <div className="space-y-2">
+          {ranked.map(({ config, stats, score }) => {
+            const total = stats.successes + stats.failures
+            return (
+              <div
+                key={config.baseUrl}
+                className="flex items-center gap-3 rounded-xl border border-slate-800 bg-slate-950 px-3 py-2 text-sm"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="truncate font-mono text-xs">{config.baseUrl}</div>
+                  <div className="text-[11px] text-slate-400">
+                    {config.style} style
+                    {config.builtIn ? ' · built-in' : ''}
+                    {' · '}
+                    {total ? `${Math.round((stats.successes / total) * 100)}% of ${total}` : 'no requests yet'}
+                    {stats.avgLatencyMs != null ? ` · ~${stats.avgLatencyMs} ms` : ''}
+                    {stats.lastErrorType ? ` · last error ${stats.lastErrorType}` : ''}
+                  </div>
+                </div>
+                <div className="text-[11px] text-slate-400 w-12 text-right">{score.toFixed(2)}</div>
+                <button
+                  type="button"
+                  className="text-xs text-rose-500 hover:underline"
+                  onClick={() => run(() => removeGateway(config.baseUrl))}
+                >
+                  Remove
+                </button>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="mt-4 flex gap-2">
+          <input
+            type="text"
+            value={newUrl}
+            onChange={e => setNewUrl(e.target.value)}
+            placeholder="https://my-gateway.example"
+            className="flex-1 bg-slate-950 border border-slate-700 rounded-xl p-2 text-slate-200 text-sm"
+          />
+          <select
+            value={newStyle}
+            onChange={e => setNewStyle(e.target.value as GatewayStyle)}
+            className="bg-slate-950 border border-slate-700 rounded-xl px-2 text-slate-200 text-sm"
+          >
+            <option value="path">Path</option>
+            <option value="subdomain">Subdomain</option>
+          </select>
+          <button
+            type="button"
+            className="rounded-xl bg-indigo-500 px-4 py-2 text-sm hover:bg-indigo-400 disabled:opacity-50"
+            disabled={!newUrl.trim()}
+            onClick={() =>
+              run(async () => {
+                await addGateway(newUrl, newStyle)
+                setNewUrl('')
+              })
+            }
+          >
+            Add
+          </button>
+        </div>
+
+        {error && <div className="mt-2 text-red-400 text-sm">{error}</div>}
+
+        <div className="mt-4 flex gap-2 justify-between">
+          <div className="flex gap-2">
+            {!hasLocalNode && (
+              <button
+                type="button"
+                className="rounded-xl bg-slate-800 px-3 py-1.5 text-sm hover:bg-slate-700"
+                onClick={() => run(() => addGateway(LOCAL_KUBO_GATEWAY, 'path'))}
+              >
+                Add local Kubo node
+              </button>
+            )}
+            <button
+              type="button"
+              className="rounded-xl bg-slate-800 px-3 py-1.5 text-sm hover:bg-slate-700"
+              onClick={() => run(resetGateways)}
+            >
+              Reset to defaults
+            </button>
+          </div>
+          <button
+            type="button"
+            className="rounded-xl bg-indigo-500 px-3 py-1.5 text-sm hover:bg-indigo-400"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
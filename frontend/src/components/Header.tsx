@@ -5,9 +5,45 @@ type HeaderProps = {
   onConnect: () => void
   theme: 'dark' | 'light'
   onToggleTheme: () => void
+  // false = connected account has not published its sharing key yet
+  sharingKeyPublished?: boolean | null
+  onPublishSharingKey?: () => void
+  // The published sharing key is not the one this wallet derives now
+  sharingKeyOutdated?: boolean
+  // Some files still use the pre-EIP-712 key derivation
+  legacyKeyDetected?: boolean
+  onUpgradeKeys?: () => void
+  upgradingKeys?: boolean
+  // Derived encryption key cached for the session
+  sessionUnlocked?: boolean
+  onLockSession?: () => void
+  sessionIdleMinutes?: number
+  onChangeSessionIdleMinutes?: (minutes: number) => void
 }
 
-export function Header({ address, onConnect, theme, onToggleTheme }: HeaderProps) {
+const IDLE_OPTIONS = [
+  { minutes: 0, label: "Don't remember key" },
+  { minutes: 5, label: 'Lock after 5 min' },
+  { minutes: 15, label: 'Lock after 15 min' },
+  { minutes: 60, label: 'Lock after 1 h' },
+]
+
+export function Header({
+  address,
+  onConnect,
+  theme,
+  onToggleTheme,
+  sharingKeyPublished,
+  onPublishSharingKey,
+  sharingKeyOutdated = false,
+  legacyKeyDetected,
+  onUpgradeKeys,
+  upgradingKeys = false,
+  sessionUnlocked = false,
+  onLockSession,
+  sessionIdleMinutes,
+  onChangeSessionIdleMinutes,
+}: HeaderProps) {
   const isDark = theme === 'dark'
 
   // Show the *current* theme, not what you're switching to
@@ -41,8 +77,80 @@ export function Header({ address, onConnect, theme, onToggleTheme }: HeaderProps
         </div>
       </div>
 
-      {/* Right: theme toggle + wallet */}
+      {/* Right: sharing key + theme toggle + wallet */}
       <div className="flex items-center gap-2">
+        {address && sharingKeyPublished === false && onPublishSharingKey && (
+          <button
+            type="button"
+            onClick={onPublishSharingKey}
+            title="Publish your encryption key so others can share files with you"
+            className="rounded-full border border-amber-500/60 px-3 py-1 text-xs text-amber-500 hover:border-amber-400"
+          >
+            Enable sharing
+          </button>
+        )}
+
+        {address && sharingKeyPublished && sharingKeyOutdated && onPublishSharingKey && (
+          <button
+            type="button"
+            onClick={onPublishSharingKey}
+            title="Others still encrypt files for an older key of yours. Publish your current key."
+            className="rounded-full border border-amber-500/60 px-3 py-1 text-xs text-amber-500 hover:border-amber-400"
+          >
+            Update sharing key
+          </button>
+        )}
+
+        {address && legacyKeyDetected && onUpgradeKeys && (
+          <button
+            type="button"
+            onClick={onUpgradeKeys}
+            disabled={upgradingKeys}
+            title="Re-encrypt your file keys with the chain- and contract-bound key derivation"
+            className="rounded-full border border-amber-500/60 px-3 py-1 text-xs text-amber-500 hover:border-amber-400 disabled:opacity-50"
+          >
+            {upgradingKeys ? 'Upgrading keys…' : 'Upgrade keys'}
+          </button>
+        )}
+
+        {address && onChangeSessionIdleMinutes && sessionIdleMinutes !== undefined && (
+          <select
+            value={sessionIdleMinutes}
+            onChange={e => onChangeSessionIdleMinutes(Number(e.target.value))}
+            title="How long your derived encryption key stays unlocked while idle"
+            className={
+              'rounded-full border bg-transparent px-2 py-1 text-xs ' +
+              (isDark ? 'border-slate-700 text-slate-300' : 'border-slate-300 text-slate-700')
+            }
+          >
+            {IDLE_OPTIONS.some(o => o.minutes === sessionIdleMinutes) ? null : (
+              <option value={sessionIdleMinutes}>Lock after {sessionIdleMinutes} min</option>
+            )}
+            {IDLE_OPTIONS.map(o => (
+              <option key={o.minutes} value={o.minutes}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {address && sessionUnlocked && onLockSession && (
+          <button
+            type="button"
+            onClick={onLockSession}
+            title="Forget the derived encryption key; the next file opened asks for a signature"
+            className={
+              'rounded-full border px-3 py-1 text-xs flex items-center gap-1 ' +
+              (isDark
+                ? 'border-slate-700 text-slate-200 hover:border-slate-500'
+                : 'border-slate-300 text-slate-700 hover:border-slate-500')
+            }
+          >
+            <span>🔓</span>
+            <span>Lock</span>
+          </button>
+        )}
+
         <button
           type="button"
           onClick={onToggleTheme}
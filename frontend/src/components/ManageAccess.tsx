@@ -0,0 +1,157 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useWallet } from '../contexts/WalletContext'
+import {
+  listGrantsForFile,
+  revokeGrant,
+  extendGrant,
+  grantWithCurrentKey,
+  type AccessGrant,
+} from '../services/accessRegistry'
+
+// isAccessActive depends on block time, so re-check periodically while the panel is open
+const REFRESH_MS = 30_000
+
+export function ManageAccess({ ownerAddr, cid, refreshKey = 0 }: { ownerAddr: string; cid: string; refreshKey?: number }) {
+  const { provider, signer } = useWallet()
+  const [grants, setGrants] = useState<AccessGrant[] | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [extending, setExtending] = useState<string | null>(null)
+  const [newEnd, setNewEnd] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!provider) return
+    try {
+      setGrants(await listGrantsForFile(provider, ownerAddr, cid))
+    } catch (err: any) {
+      console.error('Loading grants failed:', err)
+      setError(err.message || 'Failed to load grants')
+    }
+  }, [provider, ownerAddr, cid])
+
+  useEffect(() => {
+    refresh()
+    const t = setInterval(refresh, REFRESH_MS)
+    return () => clearInterval(t)
+  }, [refresh, refreshKey])
+
+  async function run(grantee: string, action: () => Promise<unknown>) {
+    setBusy(grantee)
+    setError(null)
+    try {
+      await action()
+      await refresh()
+    } catch (err: any) {
+      console.error('Access update failed:', err)
+      setError(err.reason || err.message || 'Transaction failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  function startExtend(grant: AccessGrant) {
+    // A revoked grant is shared again from now; an active one keeps its start
+    const base = grant.revoked ? Math.floor(Date.now() / 1000) : Math.max(grant.end, Math.floor(Date.now() / 1000))
+    setExtending(grant.grantee)
+    setNewEnd(toLocalInput(base + 7 * 24 * 3600))
+  }
+
+  if (!grants) {
+    return <div className="text-xs text-slate-400">Loading grants…</div>
+  }
+
+  return (
+    <div className="space-y-2">
+      {grants.length === 0 && <div className="text-xs text-slate-400">Not shared with anyone yet.</div>}
+      {grants.map(g => (
+        <div key={g.grantee} className="rounded-xl border border-slate-800 bg-slate-950 px-3 py-2 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="font-mono text-xs truncate flex-1" title={g.grantee}>
+              {g.grantee}
+            </span>
+            <StatusBadge grant={g} />
+          </div>
+          <div className="mt-1 text-[11px] text-slate-400">
+            {formatTs(g.start)} → {formatTs(g.end)}
+          </div>
+
+          {extending === g.grantee ? (
+            <div className="mt-2 flex gap-2">
+              <input
+                type="datetime-local"
+                value={newEnd}
+                onChange={e => setNewEnd(e.target.value)}
+                className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200"
+              />
+              <button
+                type="button"
+                className="text-xs text-sky-500 hover:underline disabled:opacity-50"
+                disabled={busy === g.grantee || !newEnd}
+                onClick={() =>
+                  run(g.grantee, async () => {
+                    const end = Math.floor(new Date(newEnd).getTime() / 1000)
+                    if (g.revoked) {
+                      await grantWithCurrentKey(signer, ownerAddr, g.cid, g.grantee, Math.floor(Date.now() / 1000), end)
+                    } else {
+                      await extendGrant(signer, g, end)
+                    }
+                    setExtending(null)
+                  })
+                }
+              >
+                Save
+              </button>
+              <button type="button" className="text-xs text-slate-400 hover:underline" onClick={() => setExtending(null)}>
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <div className="mt-1 flex gap-3">
+              <button
+                type="button"
+                className="text-xs text-sky-500 hover:underline disabled:opacity-50"
+                disabled={!!busy || !signer}
+                onClick={() => startExtend(g)}
+              >
+                {g.revoked ? 'Share again' : 'Extend'}
+              </button>
+              {!g.revoked && (
+                <button
+                  type="button"
+                  className="text-xs text-rose-500 hover:underline disabled:opacity-50"
+                  disabled={!!busy || !signer}
+                  onClick={() => run(g.grantee, () => revokeGrant(signer, g.cid, g.grantee))}
+                >
+                  {busy === g.grantee ? 'Revoking…' : 'Revoke'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      {error && <div className="text-red-400 text-xs">{error}</div>}
+    </div>
+  )
+}
+
+function StatusBadge({ grant }: { grant: AccessGrant }) {
+  const now = Date.now() / 1000
+  const [label, cls] = grant.revoked
+    ? ['Revoked', 'bg-rose-500/15 text-rose-400']
+    : grant.active
+      ? ['Active', 'bg-emerald-500/15 text-emerald-400']
+      : grant.start > now
+        ? ['Scheduled', 'bg-amber-500/15 text-amber-400']
+        : ['Expired', 'bg-slate-700/50 text-slate-400']
+  return <span className={`rounded-full px-2 py-0.5 text-[11px] ${cls}`}>{label}</span>
+}
+
+function formatTs(ts: number) {
+  return new Date(ts * 1000).toLocaleString()
+}
+
+function toLocalInput(ts: number) {
+  const d = new Date(ts * 1000)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
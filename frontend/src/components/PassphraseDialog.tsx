@@ -0,0 +1,156 @@
+import React, { useState } from 'react'
+import type nacl from 'tweetnacl'
+import type { KeySource } from '../utils/keySource'
+import { createPassphraseKeyPair, unlockPassphraseKeyPair, MIN_PASSPHRASE_LENGTH } from '../services/passphraseKeys'
+
+type Props = {
+  account: string
+  mode: 'unlock' | 'setup'
+  source?: KeySource
+  onUnlocked: (keyPair: nacl.BoxKeyPair) => void
+  onCancel: () => void
+}
+
+/**
+ * Passphrase key prompt for wallets that don't sign deterministically
+ */
+export function PassphraseDialog({ account, mode, source, onUnlocked, onCancel }: Props) {
+  // In setup mode the user may already have a passphrase key from another device
+  const [useExisting, setUseExisting] = useState(false)
+  const [cid, setCid] = useState(source?.kind === 'passphrase' ? source.cid : '')
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [created, setCreated] = useState<{ cid: string; keyPair: nacl.BoxKeyPair } | null>(null)
+
+  const creating = mode === 'setup' && !useExisting
+
+  async function submit() {
+    setError(null)
+    if (creating && passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match')
+      return
+    }
+    if (!creating && !cid.trim()) {
+      setError('Enter the CID of your passphrase key')
+      return
+    }
+    setBusy(true)
+    try {
+      if (creating) {
+        setCreated(await createPassphraseKeyPair(account, passphrase))
+      } else {
+        onUnlocked(await unlockPassphraseKeyPair(account, passphrase, cid.trim()))
+      }
+    } catch (err: any) {
+      setError(err.message || 'Could not unlock key')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (created) {
+    return (
+      <div className="fixed inset-0 bg-black/60 grid place-items-center p-4 z-50">
+        <div className="bg-slate-900 border border-slate-700 rounded-2xl p-4 w-full max-w-md space-y-3 text-slate-100">
+          <div className="text-lg font-semibold">Passphrase key created</div>
+          <p className="text-sm text-slate-400">
+            Keep this CID with your passphrase. You need both to unlock your files on another device.
+          </p>
+          <p className="text-xs text-slate-500">
+            Continue publishes the new public key to the key directory (one transaction), so files shared with you are
+            encrypted to it.
+          </p>
+          <textarea readOnly className="w-full h-16 bg-slate-950 border border-slate-700 rounded-xl p-2 text-slate-200 text-xs font-mono" value={created.cid} />
+          <div className="flex gap-2 justify-end">
+            <button className="rounded-xl bg-slate-800 px-4 py-2 text-sm hover:bg-slate-700" onClick={() => navigator.clipboard.writeText(created.cid)}>
+              Copy
+            </button>
+            <button className="rounded-xl bg-indigo-500 px-4 py-2 text-sm hover:bg-indigo-400" onClick={() => onUnlocked(created.keyPair)}>
+              Continue
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 grid place-items-center p-4 z-50">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl p-4 w-full max-w-md space-y-3 text-slate-100">
+        <div className="text-lg font-semibold">{mode === 'setup' ? 'Set up an encryption passphrase' : 'Unlock encryption key'}</div>
+
+        {mode === 'setup' && (
+          <p className="text-sm text-slate-400">
+            Your wallet returned two different signatures for the same request (common for smart accounts, MPC and
+            some hardware wallets), so it can't be used to derive your encryption key. Protect a separate key with a
+            passphrase instead. It is stored encrypted on IPFS; without the passphrase your files can't be opened.
+          </p>
+        )}
+
+        {mode === 'setup' && (
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={useExisting} onChange={e => setUseExisting(e.target.checked)} />
+            I already set up a passphrase key on another device
+          </label>
+        )}
+
+        {!creating && (
+          <div>
+            <label className="block text-sm text-slate-300 mb-1">Passphrase key CID</label>
+            <input
+              type="text"
+              value={cid}
+              onChange={e => setCid(e.target.value)}
+              placeholder="bafy…"
+              className="w-full bg-slate-950 border border-slate-700 rounded-xl p-2 text-slate-200 text-sm font-mono"
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm text-slate-300 mb-1">Passphrase</label>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            autoFocus
+            className="w-full bg-slate-950 border border-slate-700 rounded-xl p-2 text-slate-200 text-sm"
+          />
+        </div>
+        {creating && (
+          <div>
+            <label className="block text-sm text-slate-300 mb-1">Confirm passphrase</label>
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={e => setConfirmPassphrase(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded-xl p-2 text-slate-200 text-sm"
+            />
+            <p className="mt-1 text-[11px] text-slate-500">At least {MIN_PASSPHRASE_LENGTH} characters.</p>
+          </div>
+        )}
+
+        {error && <div className="text-red-400 text-sm">{error}</div>}
+
+        <div className="flex gap-2 justify-end">
+          <button
+            className="rounded-xl bg-slate-800 px-4 py-2 text-sm hover:bg-slate-700 disabled:opacity-50"
+            onClick={onCancel}
+            disabled={busy}
+          >
+            Cancel
+          </button>
+          <button
+            className="rounded-xl bg-indigo-500 px-4 py-2 text-sm hover:bg-indigo-400 disabled:opacity-50"
+            onClick={submit}
+            disabled={busy || !passphrase}
+          >
+            {busy ? (creating ? 'Creating…' : 'Unlocking…') : creating ? 'Create key' : 'Unlock'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+import React, { useState } from 'react'
+import { useWallet } from '../contexts/WalletContext'
+import { createRecoveryKit, openRecoveryKit, importRecoveryKit } from '../services/recoveryKit'
+import { MIN_PASSPHRASE_LENGTH } from '../services/passphraseKeys'
+
+type Props = {
+  // Owned files to include in an exported kit
+  files: { cid: string; filename?: string }[]
+  onImported?: () => void
+  onClose: () => void
+}
+
+export function RecoveryKitModal({ files, onImported, onClose }: Props) {
+  const { account, signer } = useWallet()
+  const [mode, setMode] = useState<'export' | 'import'>('export')
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [kitFile, setKitFile] = useState<File | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  function switchMode(next: 'export' | 'import') {
+    setMode(next)
+    setPassphrase('')
+    setConfirmPassphrase('')
+    setMessage(null)
+    setError(null)
+  }
+
+  async function exportKit() {
+    if (!account || !signer) return
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match')
+      return
+    }
+    setBusy(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const { kit, skipped } = await createRecoveryKit({
+        signer,
+        account,
+        passphrase,
+        files,
+        onProgress: (done, total) => setProgress({ done, total }),
+      })
+      const blob = new Blob([JSON.stringify(kit, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `ddrive-recovery-${account.slice(0, 8).toLowerCase()}.json`
+      a.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+      setMessage(
+        `Recovery kit downloaded with ${files.length - skipped.length} file key(s).` +
+          (skipped.length ? ` Skipped ${skipped.length} unregistered or revoked file(s).` : '')
+      )
+    } catch (err: any) {
+      console.error('Recovery kit export failed:', err)
+      setError(err.message || 'Export failed')
+    } finally {
+      setBusy(false)
+      setProgress(null)
+    }
+  }
+
+  async function importKit() {
+    if (!account || !signer || !kitFile) return
+    setBusy(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const payload = await openRecoveryKit(await kitFile.text(), passphrase)
+      const ok = confirm(
+        `Restore ${payload.files.length} file(s) from ${payload.account} to ${account}?\n\n` +
+          'This needs one transaction per file.'
+      )
+      if (!ok) return
+      const result = await importRecoveryKit(payload, {
+        signer,
+        account,
+        onProgress: (done, total) => setProgress({ done, total }),
+      })
+      setMessage(
+        `Restored ${result.updated.length + result.registered.length} file(s).` +
+          (result.failed.length ? ` ${result.failed.length} failed (see console).` : '')
+      )
+      onImported?.()
+    } catch (err: any) {
+      console.error('Recovery kit import failed:', err)
+      setError(err.message || 'Import failed')
+    } finally {
+      setBusy(false)
+      setProgress(null)
+    }
+  }
+
+  const tabClass = (active: boolean) =>
+    'rounded-xl px-3 py-1.5 text-sm ' + (active ? 'bg-slate-700' : 'bg-slate-800 hover:bg-slate-700')
+
+  return (
+    <div className="fixed inset-0 bg-black/60 grid place-items-center p-4 z-50">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl p-4 w-full max-w-md space-y-3 text-slate-100">
+        <div className="text-lg font-semibold">Recovery kit</div>
+        <div className="flex gap-2">
+          <button type="button" className={tabClass(mode === 'export')} onClick={() => switchMode('export')} disabled={busy}>
+            Download
+          </button>
+          <button type="button" className={tabClass(mode === 'import')} onClick={() => switchMode('import')} disabled={busy}>
+            Restore
+          </button>
+        </div>
+
+        {mode === 'export' ? (
+          <p className="text-sm text-slate-400">
+            Saves the keys of your {files.length} file(s) in a file protected by a passphrase. Files shared with you are
+            not included; their owners have to share them again with a new wallet.
+            Anyone with the file and the passphrase can open your files; keep both safe.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-400">
+              Gives the connected wallet access to every file in a kit, re-encrypting each key to it on-chain.
+            </p>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={e => setKitFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-slate-300"
+            />
+          </>
+        )}
+
+        <div>
+          <label className="block text-sm text-slate-300 mb-1">Passphrase</label>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            className="w-full bg-slate-950 border border-slate-700 rounded-xl p-2 text-slate-200 text-sm"
+          />
+        </div>
+        {mode === 'export' && (
+          <div>
+            <label className="block text-sm text-slate-300 mb-1">Confirm passphrase</label>
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={e => setConfirmPassphrase(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded-xl p-2 text-slate-200 text-sm"
+            />
+            <p className="mt-1 text-[11px] text-slate-500">At least {MIN_PASSPHRASE_LENGTH} characters.</p>
+          </div>
+        )}
+
+        {progress && (
+          <div className="text-xs text-slate-400">
+            {progress.done} / {progress.total} files
+          </div>
+        )}
+        {message && <div className="text-xs text-emerald-400">{message}</div>}
+        {error && <div className="text-red-400 text-sm">{error}</div>}
+
+        <div className="flex gap-2 justify-end">
+          <button
+            className="rounded-xl bg-slate-800 px-4 py-2 text-sm hover:bg-slate-700 disabled:opacity-50"
+            onClick={onClose}
+            disabled={busy}
+          >
+            Close
+          </button>
+          {mode === 'export' ? (
+            <button
+              className="rounded-xl bg-indigo-500 px-4 py-2 text-sm hover:bg-indigo-400 disabled:opacity-50"
+              onClick={exportKit}
+              disabled={busy || !signer || !passphrase}
+            >
+              {busy ? 'Preparing…' : 'Download recovery kit'}
+            </button>
+          ) : (
+            <button
+              className="rounded-xl bg-indigo-500 px-4 py-2 text-sm hover:bg-indigo-400 disabled:opacity-50"
+              onClick={importKit}
+              disabled={busy || !signer || !passphrase || !kitFile}
+            >
+              {busy ? 'Restoring…' : 'Restore'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react'
+import { needsRegistration, type UploadState } from '../services/chunkedUpload'
+
+type Props = {
+  pending: UploadState[]
+  onResume: (state: UploadState, file: File) => void
+  onDiscard: (state: UploadState) => void
+  theme: 'dark' | 'light'
+}
+
+export function ResumeUploadsPanel({ pending, onResume, onDiscard, theme }: Props) {
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const [target, setTarget] = useState<UploadState | null>(null)
+  const isDark = theme === 'dark'
+
+  if (!pending.length) return null
+
+  const containerClass =
+    'rounded-2xl border px-4 py-3 text-sm ' +
+    (isDark
+      ? 'border-amber-700/60 bg-amber-950/30 text-slate-100'
+      : 'border-amber-200 bg-amber-50 text-slate-800')
+  const labelMuted = isDark ? 'text-slate-400' : 'text-slate-500'
+
+  function pickFileFor(state: UploadState) {
+    setTarget(state)
+    inputRef.current?.click()
+  }
+
+  return (
+    <div className={containerClass}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="font-medium">Resume interrupted uploads</div>
+        <div className={'text-[11px] ' + labelMuted}>Re-select the same file to continue</div>
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0]
+          if (file && target) onResume(target, file)
+          setTarget(null)
+          e.target.value = ''
+        }}
+      />
+
+      <div className="space-y-2">
+        {pending.map(p => {
+          const done = Object.keys(p.uploaded).length
+          const pct = p.totalChunks ? Math.round((done / p.totalChunks) * 100) : 0
+          // Everything is pinned; resuming only sends the registration transaction
+          const registering = needsRegistration(p)
+          return (
+            <div key={p.uploadId} className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="truncate">{p.filename}</div>
+                <div className={'text-[11px] ' + labelMuted}>
+                  {registering ? 'Uploaded · needs on-chain registration' : `${done}/${p.totalChunks} chunks`} ·{' '}
+                  {formatBytes(p.fileSize)}
+                  {p.updatedAt ? ` · last active ${new Date(p.updatedAt).toLocaleString()}` : ''}
+                </div>
+                <div className="h-1 bg-slate-800 rounded-full mt-1 overflow-hidden">
+                  <div className="h-full bg-amber-500" style={{ width: `${registering ? 100 : pct}%` }} />
+                </div>
+              </div>
+              <button
+                type="button"
+                className="rounded-full bg-indigo-500/90 hover:bg-indigo-500 text-xs text-white px-3 py-1"
+                onClick={() => pickFileFor(p)}
+              >
+                {registering ? 'Register' : 'Resume'}
+              </button>
+              <button
+                type="button"
+                className="rounded-full border border-rose-500/60 text-rose-500 text-xs px-3 py-1 hover:bg-rose-500/10"
+                onClick={() => onDiscard(p)}
+              >
+                Discard
+              </button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function formatBytes(n?: number) {
+  if (!n && n !== 0) return ''
+  if (n < 1024) return `${n} B`
+  if (n < 1024 ** 2) return `${(n / 1024).toFixed(1)} KB`
+  if (n < 1024 ** 3) return `${(n / 1024 ** 2).toFixed(1)} MB`
+  return `${(n / 1024 ** 3).toFixed(2)} GB`
+}
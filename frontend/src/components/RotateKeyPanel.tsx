@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useWallet } from '../contexts/WalletContext'
+import { UploadController } from '../services/chunkedUpload'
+import { rotateFileKey, getPendingRotation } from '../services/keyRotation'
+
+export function RotateKeyPanel({ ownerAddr, cid, onRotated }: { ownerAddr: string; cid: string; onRotated?: () => void }) {
+  const { signer } = useWallet()
+  const [pending, setPending] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [paused, setPaused] = useState(false)
+  const [pct, setPct] = useState(0)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const controllerRef = useRef<UploadController | null>(null)
+
+  useEffect(() => {
+    getPendingRotation(ownerAddr, cid).then(s => setPending(!!s))
+  }, [ownerAddr, cid, running])
+
+  async function rotate() {
+    if (!signer) return
+    const ok = confirm(
+      'Rotate this file\'s key?\n\n' +
+        'The file is downloaded, re-encrypted under a new key and uploaded again, the old copy is unpinned and active grants are re-issued. ' +
+        'Share links to this file stop working; create new ones afterwards. ' +
+        'This needs two signatures and a transaction per active grantee.'
+    )
+    if (!ok) return
+
+    const controller = new UploadController()
+    controllerRef.current = controller
+    setRunning(true)
+    setPaused(false)
+    setError(null)
+    setMessage(null)
+    try {
+      const result = await rotateFileKey(cid, {
+        ownerAddr,
+        signer,
+        controller,
+        onProgress: p => setPct(p),
+      })
+      setMessage(
+        `Key rotated. Re-granted ${result.regranted.length} grantee(s).` +
+          (result.skipped.length ? ` Skipped ${result.skipped.length} without a published key.` : '') +
+          (result.revokedLinks ? ` Revoked ${result.revokedLinks} share link(s).` : '') +
+          (result.linksNotRevoked
+            ? ` ${result.linksNotRevoked} share link(s) could not be revoked and may still open the old copy; revoke them under "Anyone with the link".`
+            : '') +
+          (result.oldContentUnpinned
+            ? ''
+            : result.skipped.length
+              ? ' The old copy stays pinned so they keep access; rotate again once they publish a key.'
+              : ' The old copy is still pinned: the proxy could not unpin it.')
+      )
+      onRotated?.()
+    } catch (err: any) {
+      if (err?.name === 'AbortError') {
+        setMessage('Key rotation cancelled')
+      } else {
+        console.error('Key rotation failed:', err)
+        setError(err.message || 'Key rotation failed')
+      }
+    } finally {
+      controllerRef.current = null
+      setRunning(false)
+    }
+  }
+
+  function togglePause() {
+    const c = controllerRef.current
+    if (!c) return
+    if (c.isPaused) c.resume()
+    else c.pause()
+    setPaused(c.isPaused)
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-400">
+        Revoking access does not take back a key someone already decrypted. Rotating re-encrypts the file under a
+        new key and unpins the old chunks, so the old key stops opening them once gateways drop their cached copies.
+      </p>
+      {running ? (
+        <div className="space-y-1">
+          <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+            <div className="h-full bg-indigo-500" style={{ width: `${pct}%` }} />
+          </div>
+          <div className="flex items-center gap-3 text-xs">
+            <span className="text-slate-400">{paused ? 'Paused' : `Re-encrypting… ${pct}%`}</span>
+            <button type="button" className="text-sky-500 hover:underline" onClick={togglePause}>
+              {paused ? 'Resume' : 'Pause'}
+            </button>
+            <button type="button" className="text-rose-500 hover:underline" onClick={() => controllerRef.current?.cancel()}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          className="rounded-xl bg-slate-800 px-3 py-1.5 text-sm hover:bg-slate-700 disabled:opacity-50"
+          onClick={rotate}
+          disabled={!signer}
+        >
+          {pending ? 'Resume key rotation' : 'Rotate key'}
+        </button>
+      )}
+      {message && <div className="text-xs text-emerald-400">{message}</div>}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  )
+}
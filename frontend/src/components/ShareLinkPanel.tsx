@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react'
+import { Contract, utils } from 'ethers'
+import { useWallet } from '../contexts/WalletContext'
+import CONTRACT_ABI from '../contracts/TimeBoundFileRegistry.abi.json'
+import { envelopeMetadataCid } from '../services/keyEnvelope'
+import { createShareLink, listShareLinks, revokeShareLink, type ShareLinkRecord } from '../services/shareLinks'
+
+const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || ''
+
+export function ShareLinkPanel({ ownerAddr, cid }: { ownerAddr: string; cid: string }) {
+  const { account, signer, decryptWithSignature } = useWallet()
+  const [links, setLinks] = useState<ShareLinkRecord[]>([])
+  const [newUrl, setNewUrl] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    listShareLinks(cid).then(setLinks)
+  }, [cid, newUrl])
+
+  async function create() {
+    if (!account || !signer) return
+    setBusy(true)
+    setError(null)
+    try {
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer)
+      const fileRecord = await contract.getFile(ownerAddr, cid)
+      if (!fileRecord.existsOut || fileRecord.revokedOut) {
+        throw new Error('File is not registered on-chain or has been revoked')
+      }
+      const encryptedKeyBytes = utils.arrayify(fileRecord.encryptedKeyOut)
+      const aesKeyBase64 = await decryptWithSignature(encryptedKeyBytes, account)
+      const { url } = await createShareLink({
+        aesKeyBase64,
+        metadataCid: envelopeMetadataCid(encryptedKeyBytes, cid),
+        fileCid: cid,
+        owner: ownerAddr,
+      })
+      setNewUrl(url)
+    } catch (err: any) {
+      console.error('Creating share link failed:', err)
+      setError(err.message || 'Could not create link')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function revoke(envelopeCid: string) {
+    if (!confirm('Revoke this link? Anyone holding it will no longer be able to open the file.')) return
+    setError(null)
+    try {
+      await revokeShareLink(envelopeCid)
+      setLinks(await listShareLinks(cid))
+    } catch (err: any) {
+      setError(err.message || 'Revoke failed')
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-400">
+        Anyone with the link can open the file without a wallet. Links are shown once; revoking stops new opens but
+        not copies already downloaded.
+      </p>
+      {newUrl && (
+        <div className="space-y-1">
+          <textarea readOnly className="w-full h-20 bg-slate-950 border border-slate-700 rounded-xl p-2 text-slate-200 text-xs" value={newUrl} />
+          <div className="flex gap-2 justify-end">
+            <button className="rounded-xl bg-slate-800 px-3 py-1.5 text-sm hover:bg-slate-700" onClick={() => navigator.clipboard.writeText(newUrl)}>
+              Copy
+            </button>
+          </div>
+        </div>
+      )}
+      <button
+        type="button"
+        className="rounded-xl bg-slate-800 px-3 py-1.5 text-sm hover:bg-slate-700 disabled:opacity-50"
+        onClick={create}
+        disabled={busy || !signer}
+      >
+        {busy ? 'Creating…' : 'Create link'}
+      </button>
+      {links.length > 0 && (
+        <ul className="space-y-1">
+          {links.map(l => (
+            <li key={l.envelopeCid} className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-slate-400">
+                Created {new Date(l.createdAt).toLocaleString()}
+                {l.revokedAt && <span className="ml-2 text-rose-400">revoked</span>}
+              </span>
+              {!l.revokedAt && (
+                <button type="button" className="text-rose-500 hover:underline" onClick={() => revoke(l.envelopeCid)}>
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  )
+}
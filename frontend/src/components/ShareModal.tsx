@@ -3,19 +3,27 @@ import type { StoredEntry } from '../lib.db'
 import { useWallet } from '../contexts/WalletContext'
 import { Contract, utils } from 'ethers'
 import CONTRACT_ABI from '../contracts/TimeBoundFileRegistry.abi.json'
+import { lookupEncryptionKey } from '../utils/keyDirectory'
+import { encryptForRecipient } from '../utils/encryption'
+import { ManageAccess } from './ManageAccess'
+import { RotateKeyPanel } from './RotateKeyPanel'
+import { ShareLinkPanel } from './ShareLinkPanel'
+import { encodeKeyEnvelope, envelopeMetadataCid } from '../services/keyEnvelope'
 
 const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || ''
 
 export function ShareModal({ entry, onClose }:{ entry: StoredEntry, onClose: ()=>void }){
-  const { account, signer, decryptWithSignature, deriveEncryptionKeypair } = useWallet()
+  const { account, signer, decryptWithSignature } = useWallet()
   const [granteeAddr, setGranteeAddr] = useState('')
   const [startTime, setStartTime] = useState('')
   const [endTime, setEndTime] = useState('')
   const [granting, setGranting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [grantsVersion, setGrantsVersion] = useState(0)
 
   const url = makeShareUrl(entry)
   const isChunkedFile = !!(entry.metadataCid && entry.ownerAddr)
+  const isOwner = !!(account && entry.ownerAddr && entry.ownerAddr.toLowerCase() === account.toLowerCase())
 
   async function handleGrantAccess() {
     if (!isChunkedFile) {
@@ -62,29 +70,26 @@ export function ShareModal({ entry, onClose }:{ entry: StoredEntry, onClose: ()=
     try {
       const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer)
 
-      // Get the grantee's encryption public key using signature-based derivation
-      // Note: For sharing, the grantee needs to sign first to derive their key
-      // This is a simplified approach - in production, you'd have a flow where grantee signs first
-      // For now, we'll show an error explaining this limitation
-      throw new Error(
-        'File sharing with signature-based encryption requires the grantee to sign a message first. ' +
-        'This feature will be enhanced in a future update. ' +
-        'Currently, files can only be decrypted by the owner who uploaded them.'
-      )
-      
-      // TODO: Implement proper grantee signature flow:
-      // 1. Request grantee to connect wallet and sign message
-      // 2. Derive grantee's encryption keypair from signature
-      // 3. Encrypt owner's AES key to grantee's public key
-      // 4. Store on-chain
-      
-      // Example future implementation:
-      // const granteeProvider = new ethers.providers.Web3Provider(window.ethereum)
-      // const granteeSigner = granteeProvider.getSigner(granteeAddr)
-      // const { publicKeyBase64: granteePublicKey } = await requestEncryptionKeypair(granteeSigner, granteeAddr)
+      if (entry.ownerAddr!.toLowerCase() !== account.toLowerCase()) {
+        throw new Error('Only the file owner can grant access')
+      }
+      if (granteeAddr.toLowerCase() === account.toLowerCase()) {
+        throw new Error('You already own this file')
+      }
+
+      // Grantee's X25519 key from the on-chain key directory
+      const granteePublicKey = await lookupEncryptionKey(CONTRACT_ADDRESS, signer, granteeAddr)
+      if (!granteePublicKey) {
+        throw new Error(
+          'This address has not enabled sharing yet. Ask them to connect their wallet and click "Enable sharing".'
+        )
+      }
 
       // Get owner's encrypted key from contract
       const fileRecord = await contract.getFile(entry.ownerAddr!, entry.metadataCid!)
+      if (!fileRecord.existsOut || fileRecord.revokedOut) {
+        throw new Error('File is not registered on-chain or has been revoked')
+      }
       const encryptedKeyBytes = utils.arrayify(fileRecord.encryptedKeyOut)
 
       // Decrypt owner's key using signature-based key derivation (NO deprecated MetaMask decrypt API)
@@ -95,20 +100,13 @@ export function ShareModal({ entry, onClose }:{ entry: StoredEntry, onClose: ()=
       }
 
       // Encrypt key for grantee using pure browser crypto
-      const { encryptForMetaMask } = await import('../utils/encryption')
-      const encryptedForGrantee = encryptForMetaMask(granteePublicKey, aesKeyBase64)
-      
-      // Defensive check before encoding
-      if (!encryptedForGrantee || typeof encryptedForGrantee !== 'object') {
-        throw new Error('Failed to encrypt key for grantee: encryption returned invalid result')
-      }
-      
-      const encryptedStr = JSON.stringify(encryptedForGrantee)
-      if (!encryptedStr || typeof encryptedStr !== 'string' || !encryptedStr.length) {
-        throw new Error('Failed to create encrypted key string for grantee')
-      }
-      
-      const encryptedBytes = new TextEncoder().encode(encryptedStr)
+      const encryptedForGrantee = encryptForRecipient(granteePublicKey, aesKeyBase64)
+      // Carry over the content pointer if the file's key has been rotated
+      const contentCid = envelopeMetadataCid(encryptedKeyBytes, entry.metadataCid!)
+      const encryptedBytes = encodeKeyEnvelope(
+        encryptedForGrantee,
+        contentCid !== entry.metadataCid ? contentCid : null
+      )
 
       // Grant access on-chain
       const tx = await contract.grantAccess(
@@ -122,7 +120,8 @@ export function ShareModal({ entry, onClose }:{ entry: StoredEntry, onClose: ()=
       await tx.wait(1)
 
       alert(`Access granted to ${granteeAddr}`)
-      onClose()
+      setGranteeAddr('')
+      setGrantsVersion(v => v + 1)
     } catch (err: any) {
       console.error('Grant access failed:', err)
       setError(err.message || 'Failed to grant access')
@@ -185,6 +184,28 @@ export function ShareModal({ entry, onClose }:{ entry: StoredEntry, onClose: ()=
                 {granting ? 'Granting...' : 'Grant Access'}
               </button>
             </div>
+            {isOwner && CONTRACT_ADDRESS && (
+              <div className="border-t border-slate-800 pt-3">
+                <div className="text-sm font-semibold mb-2">Manage access</div>
+                <ManageAccess ownerAddr={entry.ownerAddr!} cid={entry.metadataCid!} refreshKey={grantsVersion} />
+              </div>
+            )}
+            {isOwner && CONTRACT_ADDRESS && (
+              <div className="border-t border-slate-800 pt-3">
+                <div className="text-sm font-semibold mb-2">Anyone with the link</div>
+                <ShareLinkPanel ownerAddr={entry.ownerAddr!} cid={entry.metadataCid!} />
+              </div>
+            )}
+            {isOwner && CONTRACT_ADDRESS && (
+              <div className="border-t border-slate-800 pt-3">
+                <div className="text-sm font-semibold mb-2">Key rotation</div>
+                <RotateKeyPanel
+                  ownerAddr={entry.ownerAddr!}
+                  cid={entry.metadataCid!}
+                  onRotated={() => setGrantsVersion(v => v + 1)}
+                />
+              </div>
+            )}
           </div>
         ) : (
           <div>
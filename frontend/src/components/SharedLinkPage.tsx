@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { openShareLink } from '../services/shareLinks'
+import { fetchChunkedMetadata, chunkedDownloadBlob, chunkedDownloadFile, type FileMetadata } from '../services/chunkedDownload'
+import { importKeyFromBase64 } from '../services/cryptoService'
+import { pickSaveFileHandle } from '../services/downloadSinks'
+import { PREVIEW_LIMIT_BYTES, isPreviewable } from '../utils/preview'
+import { PreviewModal } from './PreviewModal'
+
+type Opened = { aesKeyBase64: string; metadataCid: string; owner: string; metadata: FileMetadata }
+
+/**
+ * /s/:envelopeCid - opens a public share link without a wallet
+ */
+export function SharedLinkPage() {
+  const { envelopeCid = '' } = useParams()
+  const [opened, setOpened] = useState<Opened | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [pct, setPct] = useState(0)
+  const [preview, setPreview] = useState<{ url: string; mime: string; name: string } | null>(null)
+
+  useEffect(() => {
+    const secret = new URLSearchParams(location.hash.slice(1)).get('k')
+    if (!secret) {
+      setError('This link is missing its key. Make sure you copied the whole link, including the part after #.')
+      return
+    }
+    let cancelled = false
+    ;(async () => {
+      try {
+        const link = await openShareLink(envelopeCid, secret)
+        const metadata = await fetchChunkedMetadata(link.metadataCid, await importKeyFromBase64(link.aesKeyBase64))
+        if (!cancelled) setOpened({ ...link, metadata })
+      } catch (err: any) {
+        console.error('Opening share link failed:', err)
+        if (!cancelled) setError(err.message || 'Could not open this link')
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [envelopeCid])
+
+  useEffect(() => () => {
+    if (preview?.url) URL.revokeObjectURL(preview.url)
+  }, [preview])
+
+  async function showPreview() {
+    if (!opened) return
+    setBusy(true)
+    try {
+      const { blob } = await chunkedDownloadBlob(opened.metadataCid, opened.aesKeyBase64, { onProgress: setPct })
+      setPreview({ url: URL.createObjectURL(blob), mime: opened.metadata.mimeType, name: opened.metadata.filename })
+    } catch (err: any) {
+      setError(err.message || 'Preview failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function download() {
+    if (!opened) return
+    try {
+      const fileHandle = await pickSaveFileHandle(opened.metadata.filename)
+      setBusy(true)
+      await chunkedDownloadFile(opened.metadataCid, opened.aesKeyBase64, { fileHandle, onProgress: setPct })
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') setError(err.message || 'Download failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const canPreview =
+    !!opened && isPreviewable(opened.metadata.mimeType) && opened.metadata.fileSize <= PREVIEW_LIMIT_BYTES
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100 grid place-items-center p-4">
+      <div className="w-full max-w-md rounded-2xl border border-slate-800 bg-slate-900 p-5">
+        <div className="text-[11px] font-semibold tracking-wide text-slate-400 mb-3">SHARED FILE</div>
+
+        {error && <div className="text-red-400 text-sm">{error}</div>}
+        {!error && !opened && <div className="text-sm text-slate-400">Opening link…</div>}
+
+        {opened && (
+          <>
+            <div className="text-sm font-medium break-all">{opened.metadata.filename}</div>
+            <div className="text-[11px] text-slate-400 mt-1">
+              {opened.metadata.mimeType || 'file'} · {formatBytes(opened.metadata.fileSize)}
+            </div>
+            <div className="text-[11px] text-slate-500 mt-1 font-mono break-all">Shared by {opened.owner}</div>
+
+            <div className="mt-4 flex gap-2">
+              {canPreview && (
+                <button
+                  type="button"
+                  className="rounded-xl bg-slate-800 px-4 py-2 text-sm hover:bg-slate-700 disabled:opacity-50"
+                  onClick={showPreview}
+                  disabled={busy}
+                >
+                  Preview
+                </button>
+              )}
+              <button
+                type="button"
+                className="rounded-xl bg-indigo-500 px-4 py-2 text-sm hover:bg-indigo-400 disabled:opacity-50"
+                onClick={download}
+                disabled={busy}
+              >
+                Download
+              </button>
+            </div>
+            {busy && <div className="mt-2 text-xs text-slate-400">Decrypting… {pct}%</div>}
+            <p className="mt-4 text-[11px] text-slate-500">
+              Decrypted in your browser. The key is in the link's #fragment and is never sent to a server.
+            </p>
+          </>
+        )}
+      </div>
+
+      {preview && (
+        <PreviewModal url={preview.url} mime={preview.mime} name={preview.name} onClose={() => setPreview(null)} />
+      )}
+    </div>
+  )
+}
+
+function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`
+  if (n < 1024 ** 2) return `${(n / 1024).toFixed(1)} KB`
+  if (n < 1024 ** 3) return `${(n / 1024 ** 2).toFixed(1)} MB`
+  return `${(n / 1024 ** 3).toFixed(2)} GB`
+}
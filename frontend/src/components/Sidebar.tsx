@@ -8,6 +8,12 @@ type SidebarProps = {
   storageUsedBytes: number
   storageLimitBytes?: number
   theme: 'dark' | 'light'
+  onOpenGatewaySettings?: () => void
+  onSyncFromChain?: () => void
+  syncing?: boolean
+  onOpenRecoveryKit?: () => void
+  // Item counts shown next to tabs (e.g. starred, trash)
+  counts?: Partial<Record<Tab, number>>
 }
 
 export function Sidebar({
@@ -16,6 +22,11 @@ export function Sidebar({
   storageUsedBytes,
   storageLimitBytes,
   theme,
+  onOpenGatewaySettings,
+  onSyncFromChain,
+  syncing = false,
+  onOpenRecoveryKit,
+  counts = {},
 }: SidebarProps) {
   const items: { label: string; icon: string; key: Tab }[] = [
     { label: 'My Drive', icon: '📁', key: 'drive' },
@@ -57,6 +68,9 @@ export function Sidebar({
           >
             <span className="w-5 text-center">{item.icon}</span>
             <span className="truncate">{item.label}</span>
+            {!!counts[item.key] && (
+              <span className="ml-auto text-[11px] text-slate-500">{counts[item.key]}</span>
+            )}
           </button>
         ))}
       </div>
@@ -77,7 +91,35 @@ export function Sidebar({
 
       <div className="mt-auto px-3 pt-4 text-xs text-slate-500">
         <div className="mb-1 text-slate-400">Backend</div>
-        <div>Mock (local)</div>
+        <div>IPFS (proxy)</div>
+        {onOpenGatewaySettings && (
+          <button
+            type="button"
+            className="mt-1 block text-sky-500 hover:underline"
+            onClick={onOpenGatewaySettings}
+          >
+            Gateway settings
+          </button>
+        )}
+        {onSyncFromChain && (
+          <button
+            type="button"
+            className="mt-1 block text-sky-500 hover:underline disabled:opacity-50"
+            onClick={onSyncFromChain}
+            disabled={syncing}
+          >
+            {syncing ? 'Syncing…' : 'Sync from chain'}
+          </button>
+        )}
+        {onOpenRecoveryKit && (
+          <button
+            type="button"
+            className="mt-1 block text-sky-500 hover:underline"
+            onClick={onOpenRecoveryKit}
+          >
+            Recovery kit
+          </button>
+        )}
       </div>
     </nav>
   )
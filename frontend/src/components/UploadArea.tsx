@@ -1,13 +1,17 @@
 import React, { useRef, useState } from 'react'
 
+// A file plus the directory it came from, relative to what was dropped/picked ('' = top level)
+export type UploadItem = { file: File; path: string }
+
 type Props = {
-  onFiles: (files: FileList) => void
+  onFiles: (items: UploadItem[]) => void
   theme: 'dark' | 'light'
 }
 
 export function UploadArea({ onFiles, theme }: Props) {
   const [isDragging, setIsDragging] = useState(false)
   const inputRef = useRef<HTMLInputElement | null>(null)
+  const dirInputRef = useRef<HTMLInputElement | null>(null)
   const isDark = theme === 'dark'
 
   const base =
@@ -25,10 +29,33 @@ export function UploadArea({ onFiles, theme }: Props) {
       ? 'bg-slate-900/80 border-slate-700 text-slate-200'
       : 'bg-slate-100 border-slate-300 text-slate-700')
 
+  function handleItems(items: UploadItem[]) {
+    setIsDragging(false)
+    if (items.length === 0) return
+    onFiles(items)
+  }
+
   function handleFiles(files: FileList | null) {
     if (!files || files.length === 0) return
-    onFiles(files)
-    setIsDragging(false)
+    // webkitdirectory inputs carry the path in webkitRelativePath ("dir/sub/file.txt")
+    handleItems(Array.from(files).map(file => ({ file, path: dirname(file.webkitRelativePath || '') })))
+  }
+
+  async function handleDrop(dt: DataTransfer) {
+    // Entries must be taken synchronously; the DataTransfer is emptied after the event
+    const entries = Array.from(dt.items || [])
+      .filter(i => i.kind === 'file')
+      .map(i => i.webkitGetAsEntry?.())
+      .filter((e): e is FileSystemEntry => !!e)
+    if (entries.length === 0) {
+      handleFiles(dt.files)
+      return
+    }
+    const items: UploadItem[] = []
+    for (const entry of entries) {
+      await walkEntry(entry, '', items)
+    }
+    handleItems(items)
   }
 
   return (
@@ -44,7 +71,10 @@ export function UploadArea({ onFiles, theme }: Props) {
       }}
       onDrop={e => {
         e.preventDefault()
-        handleFiles(e.dataTransfer.files)
+        handleDrop(e.dataTransfer).catch(err => {
+          console.error('Reading dropped items failed:', err)
+          setIsDragging(false)
+        })
       }}
       onClick={() => inputRef.current?.click()}
     >
@@ -53,14 +83,68 @@ export function UploadArea({ onFiles, theme }: Props) {
         type="file"
         multiple
         className="hidden"
-        onChange={e => handleFiles(e.target.files)}
+        onChange={e => {
+          handleFiles(e.target.files)
+          e.target.value = ''
+        }}
+      />
+      <input
+        ref={el => {
+          dirInputRef.current = el
+          // Not in React's typings; set it on the element directly
+          if (el) el.setAttribute('webkitdirectory', '')
+        }}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={e => {
+          handleFiles(e.target.files)
+          e.target.value = ''
+        }}
       />
       <div className="font-medium text-sm">
-        Drag &amp; Drop files here or click to select
+        Drag &amp; Drop files or folders here or click to select
       </div>
       <div className={isDark ? 'mt-1 text-xs text-slate-400' : 'mt-1 text-xs text-slate-500'}>
-        Files are encrypted on your device before being stored.
+        Files are encrypted on your device before being stored.{' '}
+        <button
+          type="button"
+          className="text-sky-500 hover:underline"
+          onClick={e => {
+            e.stopPropagation()
+            dirInputRef.current?.click()
+          }}
+        >
+          Upload a folder
+        </button>
       </div>
     </div>
   )
 }
+
+function dirname(relativePath: string) {
+  const idx = relativePath.lastIndexOf('/')
+  return idx === -1 ? '' : relativePath.slice(0, idx)
+}
+
+/**
+ * Collect files under a dropped entry, keeping their directory path
+ */
+async function walkEntry(entry: FileSystemEntry, path: string, out: UploadItem[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+    out.push({ file, path })
+    return
+  }
+  if (!entry.isDirectory) return
+  const dirPath = path ? `${path}/${entry.name}` : entry.name
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  // readEntries returns results in batches until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) break
+    for (const child of batch) {
+      await walkEntry(child, dirPath, out)
+    }
+  }
+}
@@ -5,6 +5,16 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from "react";
 import { ethers } from "ethers";
+import { lookupEncryptionKey, publishEncryptionKey as publishToDirectory } from "../utils/keyDirectory";
+import { migrateLegacyKeys as migrateKeys, type KeyMigrationResult } from "../services/keyMigration";
+import { sessionKeys, saveIdleTimeoutMinutes } from "../utils/sessionKeys";
+import { knownEncryptionPublicKey } from "../utils/keyDerivation";
+import { clearPinKeys } from "../services/pinAuth";
+import { setKeyUnlockHandler, type KeySource } from "../utils/keySource";
+import { PassphraseDialog } from "../components/PassphraseDialog";
+import type nacl from "tweetnacl";
+
+const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "";
 
 interface WalletContextType {
   account: string | null;
@@ -15,6 +25,19 @@ interface WalletContextType {
   getEncryptionPublicKey: (account: string) => Promise<string>; // Legacy - kept for compatibility
   deriveEncryptionKeypair: () => Promise<{ publicKeyBase64: string; keyPair: any }>;
   decryptWithSignature: (encryptedData: any, account: string) => Promise<string>;
+  // Whether the account's key is in the on-chain directory (null = unknown / no contract)
+  encryptionKeyPublished: boolean | null;
+  // The directory holds a different key than the one this wallet now derives (e.g. a v1 key)
+  encryptionKeyOutdated: boolean;
+  publishEncryptionKey: () => Promise<void>;
+  // A decryption only succeeded with the v1 (pre-EIP-712) key this session
+  legacyKeyDetected: boolean;
+  migrateLegacyKeys: (fileCids: string[], onProgress?: (done: number, total: number) => void) => Promise<KeyMigrationResult>;
+  // Derived keypair cached for this session (no signature needed to open files)
+  sessionUnlocked: boolean;
+  lockSession: () => void;
+  sessionIdleMinutes: number;
+  setSessionIdleMinutes: (minutes: number) => void;
   isConnected: boolean;
 }
 
@@ -24,9 +47,35 @@ export function WalletProvider({ children }: { children: ReactNode }) {
   const [account, setAccount] = useState<string | null>(null);
   const [provider, setProvider] = useState<ethers.providers.Web3Provider | null>(null);
   const [signer, setSigner] = useState<ethers.Signer | null>(null);
+  const [encryptionKeyPublished, setEncryptionKeyPublished] = useState<boolean | null>(null);
+  const [encryptionKeyOutdated, setEncryptionKeyOutdated] = useState(false);
+  const [legacyKeyDetected, setLegacyKeyDetected] = useState(false);
+  const [sessionUnlocked, setSessionUnlocked] = useState(sessionKeys.unlocked);
+  const [sessionIdleMinutes, setIdleMinutesState] = useState(sessionKeys.idleTimeout / 60000);
+
+  const [keyUnlockRequest, setKeyUnlockRequest] = useState<{
+    account: string;
+    mode: "unlock" | "setup";
+    source?: KeySource;
+    resolve: (keyPair: nacl.BoxKeyPair) => void;
+    reject: (err: Error) => void;
+  } | null>(null);
+
+  useEffect(() => sessionKeys.subscribe(setSessionUnlocked), []);
+
+  // Wallets without deterministic signatures unlock a passphrase keypair through this dialog
+  useEffect(() => {
+    setKeyUnlockHandler(
+      (request) => new Promise((resolve, reject) => setKeyUnlockRequest({ ...request, resolve, reject }))
+    );
+    return () => setKeyUnlockHandler(null);
+  }, []);
 
   // Stable callback for account changes
   const handleAccountsChanged = useCallback((accounts: string[] = []) => {
+    // Keys derived for the previous account must not outlive it
+    sessionKeys.clear();
+    clearPinKeys();
     if (!accounts || accounts.length === 0) {
       setAccount(null);
       setProvider(null);
@@ -64,6 +113,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     // Add listeners
     window.ethereum.on("accountsChanged", handleAccountsChanged);
     const onChainChanged = () => {
+      sessionKeys.clear();
       // Reload is typical but ensure listener removal too
       window.location.reload();
     };
@@ -83,6 +133,30 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     };
   }, [handleAccountsChanged]);
 
+  useEffect(() => {
+    setLegacyKeyDetected(false);
+    setEncryptionKeyPublished(null);
+    setEncryptionKeyOutdated(false);
+  }, [account]);
+
+  // Check whether others can share with this account, and with its current key
+  // (re-checked on unlock, once the derived public key is known without a prompt)
+  useEffect(() => {
+    if (!account || !provider || !CONTRACT_ADDRESS) return;
+    let cancelled = false;
+    lookupEncryptionKey(CONTRACT_ADDRESS, provider, account)
+      .then(async (key) => {
+        const current = key && signer ? await knownEncryptionPublicKey(signer, account) : null;
+        if (cancelled) return;
+        setEncryptionKeyPublished(!!key);
+        setEncryptionKeyOutdated(!!current && current !== key);
+      })
+      .catch((err) => console.warn("[WalletContext] Key directory lookup failed", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [account, provider, signer, sessionUnlocked]);
+
   async function connect(): Promise<string | null> {
     if (!window.ethereum) {
       alert("MetaMask is not installed. Please install MetaMask to continue.");
@@ -102,6 +176,8 @@ export function WalletProvider({ children }: { children: ReactNode }) {
   }
 
   function disconnect() {
+    sessionKeys.clear();
+    clearPinKeys();
     setAccount(null);
     setProvider(null);
     setSigner(null);
@@ -139,7 +215,58 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     
     // Use pure browser decryption with signature-based key derivation
     const { requestDecryptionFromMetaMask } = await import("../utils/decryption");
-    return await requestDecryptionFromMetaMask(encryptedData, signer, acct);
+    return await requestDecryptionFromMetaMask(encryptedData, signer, acct, () => setLegacyKeyDetected(true));
+  }
+
+  // Publish the signature-derived public key so other users can grant access to this account
+  async function publishEncryptionKey(): Promise<void> {
+    if (!signer || !account) {
+      throw new Error("Signer not available. Please connect your wallet.");
+    }
+    if (!CONTRACT_ADDRESS) {
+      throw new Error("Contract address not configured");
+    }
+    await publishToDirectory(CONTRACT_ADDRESS, signer, account);
+    setEncryptionKeyPublished(true);
+    setEncryptionKeyOutdated(false);
+  }
+
+  // A new passphrase key replaces the signature-derived key this wallet can no longer re-derive,
+  // so grantors must stop encrypting to the old directory entry
+  async function publishAfterSetup() {
+    if (!signer || !account || !CONTRACT_ADDRESS) return;
+    try {
+      await publishToDirectory(CONTRACT_ADDRESS, signer, account);
+      setEncryptionKeyPublished(true);
+      setEncryptionKeyOutdated(false);
+    } catch (err) {
+      console.warn("[WalletContext] Publishing the passphrase key failed", err);
+      setEncryptionKeyOutdated(true);
+    }
+  }
+
+  function lockSession() {
+    sessionKeys.clear();
+  }
+
+  function setSessionIdleMinutes(minutes: number) {
+    saveIdleTimeoutMinutes(minutes);
+    setIdleMinutesState(minutes);
+  }
+
+  // Re-encrypt owned file keys from the v1 to the v2 derivation
+  async function migrateLegacyKeys(
+    fileCids: string[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<KeyMigrationResult> {
+    if (!signer || !account) {
+      throw new Error("Signer not available. Please connect your wallet.");
+    }
+    const result = await migrateKeys(fileCids, { ownerAddr: account, signer, onProgress });
+    if (result.failed.length === 0) {
+      setLegacyKeyDetected(false);
+    }
+    return result;
   }
 
   return (
@@ -153,10 +280,41 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         getEncryptionPublicKey, // Legacy - kept for compatibility
         deriveEncryptionKeypair, // New signature-based method
         decryptWithSignature, // New signature-based decryption
+        encryptionKeyPublished,
+        encryptionKeyOutdated,
+        publishEncryptionKey,
+        legacyKeyDetected,
+        migrateLegacyKeys,
+        sessionUnlocked,
+        lockSession,
+        sessionIdleMinutes,
+        setSessionIdleMinutes,
         isConnected: !!account,
       }}
     >
       {children}
+      {keyUnlockRequest && (
+        <PassphraseDialog
+          account={keyUnlockRequest.account}
+          mode={keyUnlockRequest.mode}
+          source={keyUnlockRequest.source}
+          onUnlocked={(keyPair) => {
+            keyUnlockRequest.resolve(keyPair);
+            setKeyUnlockRequest(null);
+            if (keyUnlockRequest.mode === "setup") publishAfterSetup();
+          }}
+          onCancel={() => {
+            keyUnlockRequest.reject(
+              new Error(
+                keyUnlockRequest.mode === "setup"
+                  ? "Signature-based encryption is disabled for this wallet because its signatures are not deterministic. Set up a passphrase key to continue."
+                  : "Encryption key is locked"
+              )
+            );
+            setKeyUnlockRequest(null);
+          }}
+        />
+      )}
     </WalletContext.Provider>
   );
 }
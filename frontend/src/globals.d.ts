@@ -7,6 +7,11 @@ declare global {
     Buffer: typeof Buffer;
     process: typeof process;
     global: typeof globalThis;
+    // File System Access API (Chromium only, not in lib.dom yet)
+    showSaveFilePicker?: (options?: {
+      suggestedName?: string;
+      types?: { description?: string; accept: Record<string, string[]> }[];
+    }) => Promise<FileSystemFileHandle>;
   }
   
   const Buffer: typeof import('buffer').Buffer;
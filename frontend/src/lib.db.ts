@@ -21,6 +21,15 @@ export type StoredEntry = {
   metadataCid?: string | null // IPFS CID of metadata JSON (for chunked files)
   ownerAddr?: string | null // Owner's Ethereum address (for chunked files)
   onChainTx?: string | null // Transaction hash if registered on-chain
+  // Name/MIME are placeholders until the sealed metadata is opened with the file key
+  nameSealed?: boolean
+  // Folders are entries too; files and folders without parentId live at the root
+  kind?: 'file' | 'folder'
+  parentId?: string | null
+  // Library state, shown by the list, sidebar and details pane
+  starred?: boolean
+  trashedAt?: number | null // Set while the entry is in the trash
+  displayName?: string | null // User rename; `name` stays the file's own name
   // Note: encrypted file blob is stored separately under 'blob:<id>' (legacy files only)
   // For chunked files, blob is not stored locally - it's on IPFS
 }
@@ -101,3 +110,155 @@ export async function listEntries(): Promise<StoredEntry[]> {
   out.sort((a,b)=> b.createdAt - a.createdAt)
   return out
 }
+
+/**
+ * Name to show for an entry (the user's rename, if any)
+ */
+export function entryDisplayName(e: StoredEntry) {
+  return e.displayName || e.name
+}
+
+async function updateEntry(id: string, patch: Partial<StoredEntry>) {
+  const e = await getEntry(id)
+  if (!e) return undefined
+  const next = { ...e, ...patch }
+  await putEntry(next)
+  return next
+}
+
+export async function setStarred(id: string, starred: boolean) {
+  return updateEntry(id, { starred })
+}
+
+export async function setTrashed(id: string, trashed: boolean, at = Date.now()) {
+  return updateEntry(id, { trashedAt: trashed ? at : null })
+}
+
+/**
+ * Rename an entry for display; null (or the original name) clears the rename
+ */
+export async function setDisplayName(id: string, displayName: string | null) {
+  const e = await getEntry(id)
+  if (!e) return undefined
+  return updateEntry(id, { displayName: displayName && displayName !== e.name ? displayName : null })
+}
+
+const LEGACY_TRASH_KEY = 'ddrive.trashedIds'
+const LEGACY_STAR_KEY = 'ddrive.starredIds'
+
+/**
+ * One-time move of star/trash id lists from localStorage onto the entries
+ * The keys are removed afterwards; ids with no entry in this browser are dropped.
+ */
+export async function migrateLegacyLibraryState() {
+  const read = (key: string): string[] => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(key) || '[]')
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+  const trashed = read(LEGACY_TRASH_KEY)
+  const starred = read(LEGACY_STAR_KEY)
+  if (localStorage.getItem(LEGACY_TRASH_KEY) === null && localStorage.getItem(LEGACY_STAR_KEY) === null) return
+
+  for (const id of trashed) await setTrashed(id, true)
+  for (const id of starred) await setStarred(id, true)
+  localStorage.removeItem(LEGACY_TRASH_KEY)
+  localStorage.removeItem(LEGACY_STAR_KEY)
+  console.log('[LibraryDB] Migrated legacy trash/star state:', { trashed: trashed.length, starred: starred.length })
+}
+
+export const FOLDER_MIME = 'application/x-directory'
+
+export function isFolder(e: StoredEntry) {
+  return e.kind === 'folder'
+}
+
+/**
+ * Create a folder entry (local library only - folders have nothing on IPFS)
+ */
+export async function createFolder(name: string, parentId: string | null, ownerAddr?: string | null) {
+  const folder: StoredEntry = {
+    id: 'folder:' + crypto.randomUUID(),
+    kind: 'folder',
+    name,
+    size: 0,
+    mime: FOLDER_MIME,
+    createdAt: Date.now(),
+    parentId,
+    ownerAddr: ownerAddr ?? null,
+  }
+  await putEntry(folder)
+  return folder
+}
+
+/**
+ * Move entries into a folder (null = root); refuses to move a folder into its own subtree
+ * @returns ids actually moved
+ */
+export async function moveEntries(ids: string[], parentId: string | null) {
+  const all = await listEntries()
+  const byId = new Map(all.map(e => [e.id, e]))
+  const moved: string[] = []
+  for (const id of ids) {
+    const e = byId.get(id)
+    if (!e || (e.parentId ?? null) === parentId || id === parentId) continue
+    if (isFolder(e) && parentId && folderAncestors(all, parentId).some(a => a.id === id)) continue
+    await putEntry({ ...e, parentId })
+    moved.push(id)
+  }
+  return moved
+}
+
+/**
+ * Folder chain from the root down to (and including) folderId
+ */
+export function folderAncestors(entries: StoredEntry[], folderId: string | null): StoredEntry[] {
+  const byId = new Map(entries.map(e => [e.id, e]))
+  const chain: StoredEntry[] = []
+  let cur = folderId ? byId.get(folderId) : undefined
+  while (cur && chain.length < 256) {
+    chain.unshift(cur)
+    cur = cur.parentId ? byId.get(cur.parentId) : undefined
+  }
+  return chain
+}
+
+/**
+ * Ids of every entry below folderId (not including it)
+ */
+export function folderDescendants(entries: StoredEntry[], folderId: string): string[] {
+  const out: string[] = []
+  const queue = [folderId]
+  while (queue.length) {
+    const parent = queue.shift()!
+    for (const e of entries) {
+      if (e.parentId === parent) {
+        out.push(e.id)
+        if (isFolder(e)) queue.push(e.id)
+      }
+    }
+  }
+  return out
+}
+
+/**
+ * Find or create the folder chain `segments` under parentId; returns the deepest folder id
+ */
+export async function ensureFolderPath(parentId: string | null, segments: string[], ownerAddr?: string | null) {
+  const all = await listEntries()
+  let current = parentId
+  for (const name of segments) {
+    const existing = all.find(e => isFolder(e) && (e.parentId ?? null) === current && entryDisplayName(e) === name)
+    if (existing) {
+      current = existing.id
+      continue
+    }
+    const created = await createFolder(name, current, ownerAddr)
+    all.push(created)
+    current = created.id
+  }
+  return current
+}
@@ -20,12 +20,14 @@ import ReactDOM from 'react-dom/client'
 import { createBrowserRouter, RouterProvider } from 'react-router-dom'
 import { WalletProvider } from './contexts/WalletContext'
 import App from './App'
+import { SharedLinkPage } from './components/SharedLinkPage'
 import './styles.css'
 
 const router = createBrowserRouter([
   { path: '/', element: <App /> },
   { path: '/my-drive', element: <App /> },
   { path: '/shared', element: <App initialTab="shared" /> },
+  { path: '/s/:envelopeCid', element: <SharedLinkPage /> },
 ])
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
@@ -0,0 +1,154 @@
+/**
+ * Access grants on TimeBoundFileRegistry
+ * Grants are discovered from AccessGranted logs; their current window and revocation
+ * state always come from getAccess/isAccessActive, since logs only record history.
+ */
+
+import { Contract, BigNumber } from "ethers";
+import CONTRACT_ABI from "../contracts/TimeBoundFileRegistry.abi.json";
+import { lookupEncryptionKey } from "../utils/keyDirectory";
+import { encryptForRecipient } from "../utils/encryption";
+import { normalizeCiphertextInput } from "../utils/decryptionHelpers";
+import { decryptWithAccountKeys } from "../utils/decryption";
+import { encodeKeyEnvelope, envelopeMetadataCid } from "./keyEnvelope";
+
+const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "";
+// First block worth scanning for registry logs (deployment block); 0 scans the whole chain
+const DEPLOY_BLOCK = Number(import.meta.env.VITE_CONTRACT_DEPLOY_BLOCK || 0);
+
+export interface AccessGrant {
+  owner: string;
+  grantee: string;
+  cid: string;
+  start: number;
+  end: number;
+  revoked: boolean;
+  active: boolean;
+  // Grantee-encrypted AES key as stored on-chain (hex); reused to extend a grant while it is current
+  encryptedKeyForGrantee: string;
+}
+
+export function getRegistryContract(providerOrSigner: any, contractAddress: string = CONTRACT_ADDRESS): Contract {
+  if (!contractAddress) {
+    throw new Error("Contract address not configured");
+  }
+  return new Contract(contractAddress, CONTRACT_ABI, providerOrSigner);
+}
+
+export function registryDeployBlock(): number {
+  return Number.isFinite(DEPLOY_BLOCK) ? DEPLOY_BLOCK : 0;
+}
+
+/**
+ * Current on-chain state of one grant
+ */
+export async function readGrant(contract: Contract, owner: string, cid: string, grantee: string): Promise<AccessGrant | null> {
+  const [rec, active] = await Promise.all([
+    contract.getAccess(owner, cid, grantee),
+    contract.isAccessActive(owner, cid, grantee),
+  ]);
+  if (!rec.exists) {
+    return null;
+  }
+  return {
+    owner,
+    grantee,
+    cid,
+    start: BigNumber.from(rec.start).toNumber(),
+    end: BigNumber.from(rec.end).toNumber(),
+    revoked: rec.revoked,
+    active,
+    encryptedKeyForGrantee: rec.encryptedKeyForGrantee,
+  };
+}
+
+/**
+ * Every grantee a file has ever been shared with, with live status
+ * The indexed `cid` topic is keccak256(cid), i.e. the contract's cidHash.
+ */
+export async function listGrantsForFile(providerOrSigner: any, owner: string, cid: string): Promise<AccessGrant[]> {
+  const contract = getRegistryContract(providerOrSigner);
+  const logs = await contract.queryFilter(
+    contract.filters.AccessGranted(owner, null, cid),
+    registryDeployBlock()
+  );
+  const grantees = Array.from(new Set(logs.map(l => String(l.args?.grantee))));
+  console.log(`[Access] ${grantees.length} grantee(s) found in logs for`, cid);
+
+  const grants = await Promise.all(grantees.map(g => readGrant(contract, owner, cid, g)));
+  return grants
+    .filter((g): g is AccessGrant => g !== null)
+    .sort((a, b) => Number(b.active) - Number(a.active) || b.end - a.end);
+}
+
+export async function revokeGrant(signer: any, cid: string, grantee: string): Promise<string> {
+  const contract = getRegistryContract(signer);
+  const tx = await contract.revokeAccess(grantee, cid);
+  await tx.wait(1);
+  return tx.hash;
+}
+
+/**
+ * Grant access with the file's current key, encrypted afresh to the grantee's published key
+ * Used to share again after a revocation, and for grants whose stored key predates a key rotation.
+ */
+export async function grantWithCurrentKey(
+  signer: any,
+  owner: string,
+  cid: string,
+  grantee: string,
+  start: number,
+  end: number
+): Promise<string> {
+  if (end <= start) {
+    throw new Error("End time must be after the start time");
+  }
+  const contract = getRegistryContract(signer);
+  const record = await contract.getFile(owner, cid);
+  if (!record.existsOut || record.revokedOut) {
+    throw new Error("File is not registered on-chain or has been revoked");
+  }
+  const granteeKey = await lookupEncryptionKey(contract.address, signer, grantee);
+  if (!granteeKey) {
+    throw new Error("This address has not published an encryption key, so the file can't be shared with it");
+  }
+  const { plaintext: aesKeyBase64 } = await decryptWithAccountKeys(
+    JSON.parse(normalizeCiphertextInput(record.encryptedKeyOut)),
+    signer,
+    owner
+  );
+  const contentCid = envelopeMetadataCid(record.encryptedKeyOut, cid);
+  const envelope = encodeKeyEnvelope(
+    encryptForRecipient(granteeKey, aesKeyBase64),
+    contentCid !== cid ? contentCid : null
+  );
+  const tx = await contract.grantAccess(grantee, cid, envelope, start, end);
+  await tx.wait(1);
+  return tx.hash;
+}
+
+/**
+ * Move a grant's end time
+ * Reuses the already-encrypted key, so no wallet decryption is needed, unless the file's key was
+ * rotated since the grant was issued. Revoked grants are not reinstated here: share again with
+ * grantWithCurrentKey.
+ */
+export async function extendGrant(signer: any, grant: AccessGrant, newEnd: number): Promise<string> {
+  if (grant.revoked) {
+    throw new Error("This grant was revoked; share the file again instead");
+  }
+  if (newEnd <= grant.start) {
+    throw new Error("New end time must be after the grant start");
+  }
+  const contract = getRegistryContract(signer);
+  const record = await contract.getFile(grant.owner, grant.cid);
+  const stale =
+    envelopeMetadataCid(grant.encryptedKeyForGrantee, grant.cid) !== envelopeMetadataCid(record.encryptedKeyOut, grant.cid);
+  if (stale) {
+    console.log("[Access] Key rotated since", grant.grantee, "was granted; re-encrypting the current key");
+    return grantWithCurrentKey(signer, grant.owner, grant.cid, grant.grantee, grant.start, newEnd);
+  }
+  const tx = await contract.grantAccess(grant.grantee, grant.cid, grant.encryptedKeyForGrantee, grant.start, newEnd);
+  await tx.wait(1);
+  return tx.hash;
+}
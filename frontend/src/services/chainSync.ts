@@ -0,0 +1,141 @@
+/**
+ * Rebuild library entries from TimeBoundFileRegistry events
+ * Used for "Shared with me" and to restore My Drive on a new device or after site data is cleared.
+ * The registry indexes `cid` as a string topic, which only stores its hash; the CID itself
+ * is recovered from the calldata of the transaction that emitted the event.
+ */
+
+import { utils, BigNumber, type Contract } from "ethers";
+import { getEntry, putEntry, type StoredEntry } from "../lib.db";
+import { fetchFromIPFSGateway } from "../utils/ipfsGateway";
+import { validateStoredMetadata, describeStoredMetadata } from "./metadataSchema";
+import { getRegistryContract, registryDeployBlock, readGrant } from "./accessRegistry";
+import { envelopeMetadataCid } from "./keyEnvelope";
+
+/**
+ * CID string for a registry event, decoded from the emitting transaction's input
+ */
+async function recoverCid(contract: Contract, log: { transactionHash: string; args?: any }): Promise<string | null> {
+  const tx = await contract.provider.getTransaction(log.transactionHash);
+  if (!tx) return null;
+  let cid: string;
+  try {
+    const parsed = contract.interface.parseTransaction({ data: tx.data, value: tx.value });
+    // uploadFile names its argument metadataCid; every other registry call uses cid
+    cid = parsed.args.cid ?? parsed.args.metadataCid;
+  } catch {
+    // Emitted through another contract (e.g. a multisig); calldata is not ours to decode
+    console.warn("[ChainSync] Cannot decode CID from tx", log.transactionHash);
+    return null;
+  }
+  // Indexed string topics hold keccak256(cid); make sure we decoded the right call
+  const expected = log.args?.cidHash ?? log.args?.cid?.hash;
+  if (expected && utils.keccak256(utils.toUtf8Bytes(cid)) !== expected) {
+    console.warn("[ChainSync] CID hash mismatch for tx", log.transactionHash);
+    return null;
+  }
+  return cid;
+}
+
+/**
+ * Build a library entry from the plaintext part of a file's metadata.
+ * Sealed (v2) metadata only reveals the size; name and MIME are filled in on first open.
+ */
+async function entryFromMetadata(
+  metadataCid: string,
+  ownerAddr: string,
+  createdAt: number,
+  contentCid: string = metadataCid
+): Promise<StoredEntry> {
+  const { blob } = await fetchFromIPFSGateway(contentCid);
+  const info = describeStoredMetadata(validateStoredMetadata(JSON.parse(await blob.text())));
+  return {
+    id: metadataCid,
+    name: info.filename ?? `Encrypted file ${metadataCid.slice(0, 10)}…`,
+    size: info.fileSize,
+    mime: info.mimeType || "application/octet-stream",
+    createdAt,
+    metadataCid,
+    ownerAddr,
+    nameSealed: info.sealed,
+  };
+}
+
+/**
+ * Files shared with `account` whose grant is currently active, from AccessGranted logs
+ */
+export async function discoverSharedFiles(provider: any, account: string): Promise<StoredEntry[]> {
+  const contract = getRegistryContract(provider);
+  const logs = await contract.queryFilter(contract.filters.AccessGranted(null, account), registryDeployBlock());
+  console.log(`[ChainSync] ${logs.length} AccessGranted event(s) for`, account);
+
+  // Latest grant per (owner, cid); older logs for the same pair are superseded
+  const seen = new Set<string>();
+  const entries: StoredEntry[] = [];
+  for (const log of [...logs].reverse()) {
+    const owner = String(log.args?.owner);
+    const key = `${owner.toLowerCase()}:${log.args?.cidHash}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    try {
+      const cid = await recoverCid(contract, log);
+      if (!cid) continue;
+      const grant = await readGrant(contract, owner, cid, account);
+      if (!grant || !grant.active) continue;
+      const createdAt = (log.args?.timestamp ? BigNumber.from(log.args.timestamp).toNumber() : grant.start) * 1000;
+      const contentCid = envelopeMetadataCid(grant.encryptedKeyForGrantee, cid);
+      entries.push(await entryFromMetadata(cid, owner, createdAt, contentCid));
+    } catch (err) {
+      console.warn("[ChainSync] Skipping shared file from tx", log.transactionHash, err);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Save discovered entries to the local library.
+ * Entries already known locally keep their revealed name/MIME (and anything else stored).
+ */
+export async function mergeDiscoveredEntries(discovered: StoredEntry[]): Promise<StoredEntry[]> {
+  const merged: StoredEntry[] = [];
+  for (const d of discovered) {
+    const existing = await getEntry(d.id);
+    const entry = existing && !existing.nameSealed ? existing : { ...existing, ...d };
+    await putEntry(entry);
+    merged.push(entry);
+  }
+  return merged;
+}
+
+/**
+ * The account's registered, non-revoked files, from FileUploaded/FileRevoked events.
+ * getFile is the source of truth for each file; events only tell us which CIDs to ask about.
+ */
+export async function discoverOwnedFiles(provider: any, account: string): Promise<StoredEntry[]> {
+  const contract = getRegistryContract(provider);
+  const fromBlock = registryDeployBlock();
+  const [uploads, revokes] = await Promise.all([
+    contract.queryFilter(contract.filters.FileUploaded(account), fromBlock),
+    contract.queryFilter(contract.filters.FileRevoked(account), fromBlock),
+  ]);
+  console.log(`[ChainSync] ${uploads.length} upload(s), ${revokes.length} revocation(s) for`, account);
+
+  const revoked = new Set(revokes.map(l => String(l.args?.cidHash)));
+  const entries: StoredEntry[] = [];
+  for (const log of uploads) {
+    if (revoked.has(String(log.args?.cidHash))) continue;
+    try {
+      const cid = await recoverCid(contract, log);
+      if (!cid) continue;
+      const rec = await contract.getFile(account, cid);
+      if (!rec.existsOut || rec.revokedOut) continue;
+      const createdAt = BigNumber.from(log.args?.timestamp ?? rec.timestampOut).toNumber() * 1000;
+      const contentCid = envelopeMetadataCid(rec.encryptedKeyOut, cid);
+      entries.push({ ...(await entryFromMetadata(cid, account, createdAt, contentCid)), onChainTx: log.transactionHash });
+    } catch (err) {
+      console.warn("[ChainSync] Skipping uploaded file from tx", log.transactionHash, err);
+    }
+  }
+  return entries;
+}
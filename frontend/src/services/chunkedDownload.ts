@@ -3,8 +3,21 @@
  * Handles downloading chunks from IPFS, decrypting, and reassembling files
  */
 
-import { importKeyFromBase64, decryptChunk } from "./cryptoService";
+import { importKeyFromBase64 } from "./cryptoService";
+import { getCryptoWorkerPool, type CryptoWorkerPool } from "./cryptoWorkerPool";
 import { fetchFromIPFSGateway } from "../utils/ipfsGateway";
+import {
+  type ChunkSink,
+  createMemorySink,
+  createFileSystemSink,
+  createServiceWorkerSink,
+  isServiceWorkerStreamingSupported,
+  pickSaveFileHandle,
+} from "./downloadSinks";
+import { merkleRoot, verifyChunkHash } from "./integrity";
+import { parseMetadata, type FileMetadata } from "./metadataSchema";
+
+export type { FileMetadata, ChunkMetadata } from "./metadataSchema";
 
 /**
  * Validate CID format to prevent injection attacks
@@ -16,123 +29,213 @@ function validateCID(cid: string): boolean {
   return /^[bBQm][a-zA-Z0-9]+$/.test(cid);
 }
 
-interface DownloadOptions {
+export interface DownloadOptions {
   onProgress?: (percent: number) => void;
+  // Stream to a file picked with showSaveFilePicker (default: true where supported)
   useFileSystemHandle?: boolean;
-}
-
-interface ChunkMetadata {
-  index: number;
-  cid: string;
-  size: number;
-}
-
-interface FileMetadata {
-  type: string;
-  filename: string;
-  mimeType: string;
-  fileSize: number;
-  chunkSize: number;
-  totalChunks: number;
-  chunks: ChunkMetadata[];
-  uploader: string;
-  uploadedAt: number;
+  // Pre-picked save target (pick it inside the click handler to keep the user gesture)
+  fileHandle?: FileSystemFileHandle | null;
+  // Chunks fetched/decrypted ahead of the writer (peak memory ~ concurrency x chunkSize)
+  concurrency?: number;
+  // Gateways raced per chunk request (1 = sequential fallback)
+  raceGateways?: number;
+  signal?: AbortSignal;
+  // Worker pool for chunk decryption (default: shared pool, see setCryptoWorkerPoolSize)
+  cryptoPool?: CryptoWorkerPool;
 }
 
 /**
- * Download and decrypt chunked file
- */
-/**
- * Download and decrypt chunked file
- * 
- * SECURITY: aesKeyBase64 must come from a user-driven eth_decrypt call.
- * Never pass a key that was persisted to storage. Keys should be in-memory only.
+ * Fetch the dcs-chunked-file metadata JSON and resolve it to the current schema version.
+ * Sealed descriptive fields are decrypted with the file key.
  */
-export async function chunkedDownloadFile(
-  metadataCid: string,
-  aesKeyBase64: string,
-  opts: DownloadOptions = {}
-): Promise<{ success: boolean; filename: string }> {
-  const { onProgress } = opts;
-
-  // Validate inputs
+export async function fetchChunkedMetadata(metadataCid: string, aesKey: CryptoKey): Promise<FileMetadata> {
   if (!metadataCid || !validateCID(metadataCid)) {
     throw new Error("Invalid metadata CID format");
   }
-  if (!aesKeyBase64 || typeof aesKeyBase64 !== "string") {
-    throw new Error("Invalid AES key: must be a base64 string");
-  }
 
-  // 1. Fetch metadata JSON using robust gateway fetcher
+  // Fetch metadata JSON using robust gateway fetcher
   const { blob: metadataBlob, url: metadataUrl } = await fetchFromIPFSGateway(metadataCid);
   console.log('[Download] Fetched metadata from:', metadataUrl);
   const metadataText = await metadataBlob.text();
-  let metadata: FileMetadata;
+  let raw: unknown;
   try {
-    metadata = JSON.parse(metadataText);
+    raw = JSON.parse(metadataText);
   } catch (err) {
     throw new Error("Invalid metadata JSON format");
   }
+  const metadata = await parseMetadata(raw, aesKey);
 
-  // Validate metadata structure
-  if (metadata.type !== "dcs-chunked-file") {
-    throw new Error("Invalid metadata type");
-  }
-  if (!metadata.chunks || !Array.isArray(metadata.chunks) || metadata.chunks.length === 0) {
-    throw new Error("Invalid metadata: missing or empty chunks array");
-  }
-  if (!metadata.filename || typeof metadata.filename !== "string") {
-    throw new Error("Invalid metadata: missing filename");
+  // The chunk hashes must commit to the recorded Merkle root
+  if (metadata.integrity) {
+    const hashes = metadata.chunks.map(c => c.sha256!);
+    if ((await merkleRoot(hashes)) !== metadata.integrity.merkleRoot.toLowerCase()) {
+      throw new Error("Invalid metadata: chunk hashes do not match Merkle root");
+    }
   }
+  return metadata;
+}
 
-  // 2. Import AES key
-  const aesKey = await importKeyFromBase64(aesKeyBase64);
+/**
+ * Download, decrypt and write every chunk to the sink in order.
+ * Up to `concurrency` chunks are fetched ahead of the writer; a chunk is only
+ * started once a slot frees up, so memory stays at about concurrency x chunkSize.
+ */
+async function streamChunksToSink(
+  metadata: FileMetadata,
+  aesKey: CryptoKey,
+  sink: ChunkSink,
+  opts: DownloadOptions = {}
+): Promise<void> {
+  const { onProgress, concurrency = 3, raceGateways = 2, cryptoPool = getCryptoWorkerPool() } = opts;
+
+  // Internal controller so a failed chunk stops the other in-flight fetches
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  opts.signal?.addEventListener("abort", onAbort, { once: true });
 
-  // 3. Download and decrypt chunks
-  const decryptedChunks: ArrayBuffer[] = [];
   const totalChunks = metadata.chunks.length;
+  const inFlight = new Map<number, Promise<ArrayBuffer>>();
+  let nextToFetch = 0;
 
-  for (let i = 0; i < totalChunks; i++) {
+  async function fetchAndDecrypt(i: number): Promise<ArrayBuffer> {
     const chunkMeta = metadata.chunks[i];
-    if (!chunkMeta) {
-      throw new Error(`Missing chunk metadata at index ${i}`);
-    }
-    if (chunkMeta.index !== i) {
-      throw new Error(`Chunk index mismatch: expected ${i}, got ${chunkMeta.index}`);
-    }
-    if (!chunkMeta.cid || !validateCID(chunkMeta.cid)) {
-      throw new Error(`Invalid chunk CID at index ${i}: ${chunkMeta.cid}`);
-    }
-
     // Fetch encrypted chunk using robust gateway fetcher
     console.log(`[Download] Fetching chunk ${i + 1}/${totalChunks} (CID: ${chunkMeta.cid})`);
-    const { blob: encryptedBlob, url: chunkUrl } = await fetchFromIPFSGateway(chunkMeta.cid);
+    const expectedHash = chunkMeta.sha256;
+    const { blob: encryptedBlob, url: chunkUrl } = await fetchFromIPFSGateway(chunkMeta.cid, '', 15000, {
+      race: raceGateways,
+      signal: controller.signal,
+      // A corrupt response is rejected here and retried against the next gateway
+      verify: expectedHash
+        ? async (blob) => verifyChunkHash(await blob.arrayBuffer(), expectedHash)
+        : undefined,
+    });
     console.log(`[Download] Fetched chunk ${i + 1} from:`, chunkUrl);
     const encryptedArrayBuffer = await encryptedBlob.arrayBuffer();
+    return cryptoPool.decryptChunk(aesKey, encryptedArrayBuffer, i);
+  }
 
-    // Decrypt chunk
-    const decrypted = await decryptChunk(aesKey, encryptedArrayBuffer, i);
-    decryptedChunks.push(decrypted);
+  function fillWindow() {
+    while (nextToFetch < totalChunks && inFlight.size < Math.max(1, concurrency)) {
+      const i = nextToFetch++;
+      const p = fetchAndDecrypt(i);
+      // Failures surface when the writer awaits this chunk; avoid unhandled rejections meanwhile
+      p.catch(() => {});
+      inFlight.set(i, p);
+    }
+  }
 
-    // Report progress
-    if (onProgress) {
-      const percent = Math.round(((i + 1) / totalChunks) * 100);
-      onProgress(percent);
+  try {
+    // Validate the whole chunk list before fetching anything
+    for (let i = 0; i < totalChunks; i++) {
+      const chunkMeta = metadata.chunks[i];
+      if (!chunkMeta) {
+        throw new Error(`Missing chunk metadata at index ${i}`);
+      }
+      if (chunkMeta.index !== i) {
+        throw new Error(`Chunk index mismatch: expected ${i}, got ${chunkMeta.index}`);
+      }
+      if (!chunkMeta.cid || !validateCID(chunkMeta.cid)) {
+        throw new Error(`Invalid chunk CID at index ${i}: ${chunkMeta.cid}`);
+      }
     }
+
+    for (let i = 0; i < totalChunks; i++) {
+      fillWindow();
+      const decrypted = await inFlight.get(i)!;
+      inFlight.delete(i);
+
+      // Write in order; the sink applies its own backpressure
+      await sink.write(decrypted);
+
+      // Report progress
+      if (onProgress) {
+        const percent = Math.round(((i + 1) / totalChunks) * 100);
+        onProgress(percent);
+      }
+    }
+    await sink.close();
+  } catch (err) {
+    controller.abort();
+    await sink.abort(err).catch(() => {});
+    throw err;
+  } finally {
+    opts.signal?.removeEventListener("abort", onAbort);
   }
+}
 
-  // 4. Reassemble file
-  const totalSize = decryptedChunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
-  const combined = new Uint8Array(totalSize);
-  let offset = 0;
-  for (const chunk of decryptedChunks) {
-    combined.set(new Uint8Array(chunk), offset);
-    offset += chunk.byteLength;
+async function importFileKey(aesKeyBase64: string): Promise<CryptoKey> {
+  if (!aesKeyBase64 || typeof aesKeyBase64 !== "string") {
+    throw new Error("Invalid AES key: must be a base64 string");
   }
+  return importKeyFromBase64(aesKeyBase64);
+}
+
+/**
+ * Download and decrypt chunked file into an in-memory Blob (for previews)
+ * 
+ * SECURITY: aesKeyBase64 must come from a user-driven eth_decrypt call.
+ * Never pass a key that was persisted to storage. Keys should be in-memory only.
+ */
+export async function chunkedDownloadBlob(
+  metadataCid: string,
+  aesKeyBase64: string,
+  opts: DownloadOptions = {}
+): Promise<{ blob: Blob; metadata: FileMetadata }> {
+  const aesKey = await importFileKey(aesKeyBase64);
+  const metadata = await fetchChunkedMetadata(metadataCid, aesKey);
+  const sink = createMemorySink(metadata.mimeType);
+  await streamChunksToSink(metadata, aesKey, sink, opts);
+  return { blob: sink.toBlob(), metadata };
+}
 
-  // 5. Create download
-  const blob = new Blob([combined.buffer], { type: metadata.mimeType });
-  const url = URL.createObjectURL(blob);
+/**
+ * Download and decrypt chunked file, streaming it to disk
+ * 
+ * Prefers the File System Access API, then a Service Worker streamed download,
+ * and only assembles the file in memory when neither is available.
+ * 
+ * SECURITY: aesKeyBase64 must come from a user-driven eth_decrypt call.
+ * Never pass a key that was persisted to storage. Keys should be in-memory only.
+ */
+export async function chunkedDownloadFile(
+  metadataCid: string,
+  aesKeyBase64: string,
+  opts: DownloadOptions = {}
+): Promise<{ success: boolean; filename: string; metadata: FileMetadata }> {
+  const { useFileSystemHandle = true } = opts;
+  const aesKey = await importFileKey(aesKeyBase64);
+  const metadata = await fetchChunkedMetadata(metadataCid, aesKey);
+
+  let handle = opts.fileHandle ?? null;
+  if (!handle && useFileSystemHandle) {
+    handle = await pickSaveFileHandle(metadata.filename);
+  }
+
+  if (handle) {
+    console.log('[Download] Streaming to file picked with showSaveFilePicker');
+    await streamChunksToSink(metadata, aesKey, await createFileSystemSink(handle), opts);
+    return { success: true, filename: metadata.filename, metadata };
+  }
+
+  if (isServiceWorkerStreamingSupported()) {
+    let swSink: ChunkSink | null = null;
+    try {
+      swSink = await createServiceWorkerSink(metadata.filename, metadata.mimeType, metadata.fileSize);
+    } catch (err) {
+      console.warn('[Download] Service Worker streaming unavailable, using in-memory download:', err);
+    }
+    if (swSink) {
+      console.log('[Download] Streaming through download Service Worker');
+      await streamChunksToSink(metadata, aesKey, swSink, opts);
+      return { success: true, filename: metadata.filename, metadata };
+    }
+  }
+
+  // Last resort: assemble in memory and trigger an anchor download
+  const memorySink = createMemorySink(metadata.mimeType);
+  await streamChunksToSink(metadata, aesKey, memorySink, opts);
+  const url = URL.createObjectURL(memorySink.toBlob());
   const a = document.createElement("a");
   a.href = url;
   a.download = metadata.filename;
@@ -141,6 +244,5 @@ export async function chunkedDownloadFile(
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 
-  return { success: true, filename: metadata.filename };
+  return { success: true, filename: metadata.filename, metadata };
 }
-
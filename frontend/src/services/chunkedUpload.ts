@@ -3,12 +3,17 @@
  * Handles chunked encryption, upload to proxy, metadata creation, and on-chain registration
  */
 
-import { generateAESKey, exportKeyToBase64, importKeyFromBase64, encryptChunk } from "./cryptoService";
-import { get, set, del } from "idb-keyval";
-import { Contract, BigNumber } from "ethers";
+import { generateAESKey, exportKeyToBase64, importKeyFromBase64 } from "./cryptoService";
+import { getCryptoWorkerPool, type CryptoWorkerPool } from "./cryptoWorkerPool";
+import { buildStoredMetadata, type ChunkMetadata } from "./metadataSchema";
+import { get, set, del, keys } from "idb-keyval";
+import { Contract, BigNumber, type Signer } from "ethers";
 import CONTRACT_ABI from "../contracts/TimeBoundFileRegistry.abi.json";
 import { encryptForRecipient } from "../utils/encryption";
 import { requestEncryptionKeypair } from "../utils/keyDerivation";
+import { decryptWithAccountKeys } from "../utils/decryption";
+import { sha256Hex, merkleRoot } from "./integrity";
+import { pinAuthHeaders, type PinAuth } from "./pinAuth";
 
 const PROXY_URL = import.meta.env.VITE_PROXY_URL || "";
 const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "";
@@ -23,7 +28,7 @@ function defaultChunkSize(): number {
  * Generate HMAC signature for upload authentication
  * Only used if UPLOAD_SECRET is configured
  */
-async function generateHmacHeaders(): Promise<Record<string, string>> {
+export async function generateHmacHeaders(): Promise<Record<string, string>> {
   if (!UPLOAD_SECRET) {
     // In development, backend allows requests without HMAC if secret not set
     return {};
@@ -60,37 +65,157 @@ async function generateHmacHeaders(): Promise<Record<string, string>> {
   };
 }
 
-// Generate unique upload session ID
-function generateUploadId(ownerAddr: string): string {
-  return `upload_${ownerAddr}_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+const SESSION_PREFIX = "upload_";
+
+function abortError(): DOMException {
+  return new DOMException("Upload cancelled", "AbortError");
+}
+
+/**
+ * Sleep that rejects early if the signal is aborted
+ */
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const id = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(id);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Pause/resume/cancel handle for a running chunkedUploadFile call.
+ * 
+ * pause() lets in-flight chunks finish and stops the worker pool from claiming new ones;
+ * resume() restarts the pool from the first missing chunk. cancel() aborts in-flight
+ * requests and discards the session record.
+ */
+export class UploadController {
+  private readonly abortController = new AbortController();
+  private paused = false;
+  private resumeWaiters: Array<() => void> = [];
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(w => w());
+  }
+
+  cancel() {
+    this.abortController.abort();
+    // Wake a drained pool so it observes the abort
+    this.resume();
+  }
+
+  /** Resolves once resume() or cancel() is called */
+  waitForResume(): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+    return new Promise(resolve => this.resumeWaiters.push(resolve));
+  }
+}
+
+/**
+ * Fingerprint a file so the same bytes map to the same upload session across reloads.
+ * Uses name, size, lastModified and a SHA-256 of the first chunk (cheap even for huge files).
+ */
+export async function fileFingerprint(file: File, chunkSize: number = defaultChunkSize()): Promise<string> {
+  const head = await file.slice(0, Math.min(chunkSize, file.size)).arrayBuffer();
+  const headHash = await sha256Hex(head);
+  return sha256Hex(`${file.name}|${file.size}|${file.lastModified}|${headHash}`);
+}
+
+/**
+ * Stable upload session ID derived from owner + file fingerprint.
+ * An interrupted upload of the same file by the same owner resolves to the same key.
+ */
+export async function getUploadSessionKey(
+  file: File,
+  ownerAddr: string,
+  chunkSize: number = defaultChunkSize()
+): Promise<string> {
+  const fingerprint = await fileFingerprint(file, chunkSize);
+  return `${SESSION_PREFIX}${ownerAddr.toLowerCase()}_${fingerprint}`;
+}
+
+/**
+ * Pinned but not yet registered on-chain (the registration transaction failed)
+ */
+export function needsRegistration(state: UploadState): boolean {
+  return !!state.metadataCid && !state.onChainTx;
+}
+
+/**
+ * List interrupted upload sessions: unfinished chunk uploads and uploads awaiting registration
+ */
+export async function listPendingUploads(ownerAddr?: string): Promise<UploadState[]> {
+  const out: UploadState[] = [];
+  for (const k of await keys()) {
+    if (typeof k !== "string" || !k.startsWith(SESSION_PREFIX)) continue;
+    const state = await get<UploadState>(k);
+    if (!state || (state.metadataCid && !needsRegistration(state))) continue;
+    if (ownerAddr && state.ownerAddr?.toLowerCase() !== ownerAddr.toLowerCase()) continue;
+    out.push(state);
+  }
+  // most recently touched first
+  out.sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
+  return out;
+}
+
+/**
+ * Forget an interrupted upload session (already-pinned chunks are left as-is)
+ */
+export async function discardPendingUpload(uploadId: string): Promise<void> {
+  await del(uploadId);
 }
 
 /**
  * Upload chunk to proxy
  */
-async function uploadChunkWithRetries(
+export async function uploadChunkWithRetries(
   blob: Blob,
-  opts: { proxyUrl: string; maxRetries?: number }
+  opts: { proxyUrl: string; maxRetries?: number; signal?: AbortSignal; auth?: PinAuth }
 ): Promise<string> {
-  const { proxyUrl, maxRetries = 3 } = opts;
+  const { proxyUrl, maxRetries = 3, signal, auth } = opts;
   if (!proxyUrl) {
     throw new Error("Proxy URL required");
   }
 
   let lastError: Error | null = null;
   for (let attempt = 0; attempt < maxRetries; attempt++) {
+    if (signal?.aborted) throw abortError();
     try {
       const formData = new FormData();
       formData.append("file", blob, "chunk.bin");
 
       // Generate HMAC headers if secret is configured
       const hmacHeaders = await generateHmacHeaders();
+      const pinHeaders = await pinAuthHeaders(auth);
 
       // Note: Don't set Content-Type header - browser will set it automatically with boundary for FormData
       const response = await fetch(`${proxyUrl}/upload`, {
         method: "POST",
         body: formData,
-        headers: hmacHeaders, // Custom headers (x-upload-*) are preserved
+        headers: { ...hmacHeaders, ...pinHeaders }, // Custom headers (x-upload-*, x-pin-*) are preserved
+        signal,
       });
 
       if (!response.ok) {
@@ -126,6 +251,10 @@ async function uploadChunkWithRetries(
       return result.cid;
     } catch (err) {
       lastError = err as Error;
+      // Cancelled by the caller - never retry
+      if (signal?.aborted || (err as Error)?.name === "AbortError") {
+        throw abortError();
+      }
       // Don't retry on certain errors (e.g., authentication, bad request)
       if (err instanceof Error) {
         if (err.message.includes("Unauthorized") || 
@@ -138,7 +267,7 @@ async function uploadChunkWithRetries(
       if (attempt < maxRetries - 1) {
         const delay = 1000 * Math.pow(2, attempt);
         console.log(`Upload attempt ${attempt + 1} failed, retrying in ${delay}ms...`, err);
-        await new Promise((r) => setTimeout(r, delay));
+        await abortableDelay(delay, signal);
       }
     }
   }
@@ -148,9 +277,12 @@ async function uploadChunkWithRetries(
 /**
  * Upload metadata JSON to proxy
  */
-async function uploadMetadata(
+export async function uploadMetadata(
   metadata: any,
-  proxyUrl: string
+  proxyUrl: string,
+  signal?: AbortSignal,
+  // Records the pin for this account so it can unpin it later
+  auth?: PinAuth
 ): Promise<string> {
   const blob = new Blob([JSON.stringify(metadata)], {
     type: "application/json",
@@ -160,12 +292,14 @@ async function uploadMetadata(
 
   // Generate HMAC headers if secret is configured
   const hmacHeaders = await generateHmacHeaders();
+  const pinHeaders = await pinAuthHeaders(auth);
 
   // Note: Don't set Content-Type header - browser will set it automatically with boundary for FormData
   const response = await fetch(`${proxyUrl}/metadata`, {
     method: "POST",
     body: formData,
-    headers: hmacHeaders, // Custom headers (x-upload-*) are preserved
+    headers: { ...hmacHeaders, ...pinHeaders }, // Custom headers (x-upload-*, x-pin-*) are preserved
+    signal,
   });
 
   if (!response.ok) {
@@ -201,6 +335,44 @@ async function uploadMetadata(
   return result.cid;
 }
 
+// Must match unpinRequestMessage in server/index.js
+async function unpinRequestMessage(account: string, cids: string[], issuedAt: number): Promise<string> {
+  const digest = await sha256Hex(cids.join("\n"));
+  return (
+    "Decentralized Drive unpin\n\n" +
+    "Stop pinning encrypted data you uploaded. This does not approve a transaction.\n\n" +
+    `Account: ${account}\nCIDs: ${cids.length} (sha256 ${digest})\nIssued: ${issuedAt}`
+  );
+}
+
+/**
+ * Ask the proxy to unpin CIDs of an owned file (its metadata and chunks, or content replaced by a key rotation)
+ * The account signs the CID list; the proxy refuses CIDs it did not pin for that account
+ * (see pinAuth.ts), so content uploaded without upload authorization stays pinned.
+ * Best effort: the proxy only unpins where its pinning service supports it.
+ */
+export async function unpinFromProxy(
+  request: { cids: string[] },
+  opts: { signer: Signer; account: string; proxyUrl: string }
+): Promise<{ unpinned: string[]; failed: string[]; rejected: string[]; supported: boolean }> {
+  const account = opts.account.toLowerCase();
+  const cids = [...new Set(request.cids)].sort();
+  const issuedAt = Date.now();
+  const signature = await opts.signer.signMessage(await unpinRequestMessage(account, cids, issuedAt));
+
+  const hmacHeaders = await generateHmacHeaders();
+  const response = await fetch(`${opts.proxyUrl}/unpin`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...hmacHeaders },
+    body: JSON.stringify({ account, cids, issuedAt, signature }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.detail || body?.error || `Unpin failed: ${response.statusText}`);
+  }
+  return response.json();
+}
+
 interface UploadOptions {
   ownerAddr: string;
   signer?: any;
@@ -211,20 +383,166 @@ interface UploadOptions {
   onProgress?: (percent: number, uploadedBytes: number, totalBytes: number) => void;
   autoRegister?: boolean;
   maxRetries?: number;
+  // Seal filename/mimeType/fileSize/uploader with the file key (metadata version 2). Default: true
+  encryptMetadata?: boolean;
+  // Aborting cancels the upload and discards its session record
+  signal?: AbortSignal;
+  // Optional pause/resume handle; its signal is used when `signal` is not given
+  controller?: UploadController;
+  // Worker pool for chunk encryption (default: shared pool, see setCryptoWorkerPoolSize)
+  cryptoPool?: CryptoWorkerPool;
 }
 
-interface UploadState {
+export interface UploadState {
   uploadId: string;
+  ownerAddr?: string;
   filename: string;
   mimeType: string;
   fileSize: number;
+  lastModified?: number;
   chunkSize: number;
   totalChunks: number;
-  uploaded: Record<number, { cid: string; size: number }>;
+  // sha256 = hex SHA-256 of the packed ciphertext (missing for sessions started before hashing)
+  uploaded: Record<number, { cid: string; size: number; sha256?: string }>;
   encryptedAesForOwner: string | null;
+  // Set once the metadata is pinned; kept until registration succeeds
   metadataCid: string | null;
   registeredAt?: number;
   onChainTx?: string;
+  updatedAt?: number;
+}
+
+/**
+ * Drop a pinned upload's session, unless it still has to be registered on-chain: then it stays in
+ * listPendingUploads as "needs registration" instead of the pinned file silently going missing
+ */
+async function finishSession(state: UploadState, sessionKey: string, registered: boolean, contractAddress: string) {
+  if (!registered && contractAddress && state.encryptedAesForOwner) {
+    console.warn('[Upload] Not registered on-chain yet; keeping the session so it can be registered later:', state.metadataCid);
+    return;
+  }
+  await del(sessionKey);
+}
+
+/**
+ * Register a pinned upload's metadata CID and owner key on the registry
+ * On failure the session keeps its metadataCid, so a retry resumes right here.
+ */
+async function registerOnChain(
+  state: UploadState,
+  sessionKey: string,
+  signer: any,
+  contractAddress: string
+): Promise<any> {
+  const metadataCid = state.metadataCid!;
+  try {
+    // CRITICAL: Defensive check before encoding - this prevents the slice error
+    const encryptedStr = state.encryptedAesForOwner;
+    if (!encryptedStr || typeof encryptedStr !== 'string' || !encryptedStr.length) {
+      console.error('[Upload] Encrypted string validation failed before on-chain registration:', {
+        encryptedStr: encryptedStr,
+        type: typeof encryptedStr,
+        length: encryptedStr?.length,
+        hasValue: !!encryptedStr,
+      });
+      throw new Error(
+        "Failed to create encrypted AES key string for on-chain registration (value missing or invalid). " +
+        "The encrypted key was not properly generated during upload. Please re-upload the file."
+      );
+    }
+
+    console.log('[Upload] Starting on-chain registration...', {
+      contractAddress,
+      metadataCid,
+      encryptedKeyLength: encryptedStr.length,
+      encryptedKeyPrefix: encryptedStr.substring(0, 50) + '...',
+    });
+    
+    // Use contract ABI
+    const contract = new Contract(
+      contractAddress,
+      CONTRACT_ABI,
+      signer
+    );
+
+    // A previous attempt may have timed out after the transaction was actually mined
+    const existingRecord = await contract.getFile(state.ownerAddr, metadataCid);
+    if (existingRecord.existsOut) {
+      console.log('[Upload] Already registered on-chain:', metadataCid);
+      const [event] = await contract
+        .queryFilter(contract.filters.FileUploaded(state.ownerAddr, metadataCid))
+        .catch(() => []);
+      const txReceipt = event ? await event.getTransactionReceipt() : null;
+      state.registeredAt = Math.floor(Date.now() / 1000);
+      state.onChainTx = txReceipt?.transactionHash;
+      await set(sessionKey, state);
+      return txReceipt;
+    }
+
+    // Safe to encode now - we've validated encryptedStr is a non-empty string
+    const encBytes = new TextEncoder().encode(encryptedStr);
+    console.log('[Upload] Encrypted key bytes length:', encBytes.length);
+    
+    // Estimate gas first
+    let gasEstimate;
+    try {
+      console.log('[Upload] Estimating gas...');
+      gasEstimate = await contract.estimateGas.uploadFile(metadataCid, encBytes);
+      console.log('[Upload] Gas estimate:', gasEstimate.toString());
+    } catch (gasErr: any) {
+      console.warn("[Upload] Gas estimation failed:", gasErr);
+      // Continue without gas estimate
+    }
+
+    // Send transaction with error handling
+    const txOptions: any = {};
+    if (gasEstimate) {
+      // Add 20% buffer to gas estimate
+      txOptions.gasLimit = gasEstimate.mul(120).div(100);
+      console.log('[Upload] Using gas limit:', txOptions.gasLimit.toString());
+    }
+    
+    console.log('[Upload] Sending uploadFile transaction...');
+    const tx = await contract.uploadFile(metadataCid, encBytes, txOptions);
+    console.log('[Upload] Transaction sent:', tx.hash);
+    
+    // Wait for confirmation with timeout
+    const timeout = 120000; // 2 minutes
+    const txPromise = tx.wait(1);
+    const timeoutPromise = new Promise((_, reject) => 
+      setTimeout(() => reject(new Error('Transaction timeout')), timeout)
+    );
+    
+    console.log('[Upload] Waiting for transaction confirmation...');
+    const txReceipt = await Promise.race([txPromise, timeoutPromise]) as any;
+    console.log('[Upload] Transaction confirmed:', txReceipt.transactionHash);
+
+    state.registeredAt = Math.floor(Date.now() / 1000);
+    state.onChainTx = txReceipt.transactionHash;
+    await set(sessionKey, state);
+    console.log('[Upload] On-chain registration successful!');
+    return txReceipt;
+  } catch (err: any) {
+    console.error("[Upload] On-chain registration failed:", err);
+    console.error("[Upload] Error details:", {
+      code: err.code,
+      message: err.message,
+      data: err.data,
+      reason: err.reason
+    });
+    
+    // The pinned session stays listed as awaiting registration; resuming it retries from here
+    if (err.code === 4001) {
+      throw new Error("User rejected transaction");
+    }
+    if (err.message?.includes('timeout')) {
+      throw new Error("Transaction timeout - please check network");
+    }
+    
+    // Provide more detailed error message
+    const errorMsg = err.reason || err.message || String(err);
+    throw new Error(`On-chain registration failed: ${errorMsg}. Please check: 1) Contract address is correct, 2) You're on the correct network, 3) You have enough gas.`);
+  }
 }
 
 /**
@@ -234,6 +552,7 @@ export async function chunkedUploadFile(
   file: File,
   opts: UploadOptions
 ): Promise<{ metadataCid: string; metadata: any; sessionKey: string; txReceipt?: any }> {
+  // metadata is null when a session resumed straight into registration
   const {
     ownerAddr: providedOwnerAddr,
     signer = null,
@@ -244,7 +563,15 @@ export async function chunkedUploadFile(
     onProgress = null,
     autoRegister = false,
     maxRetries = 3,
+    controller = null,
+    encryptMetadata = true,
+    cryptoPool = getCryptoWorkerPool(),
   } = opts;
+  const signal = opts.signal ?? controller?.signal;
+
+  if (signal?.aborted) {
+    throw abortError();
+  }
 
   if (!proxyUrl) {
     throw new Error("VITE_PROXY_URL must be set");
@@ -275,16 +602,20 @@ export async function chunkedUploadFile(
     throw new Error("autoRegister requires signer and contractAddress");
   }
 
-  const sessionKey = generateUploadId(ownerAddr);
+  const pinAuth: PinAuth | undefined = signer ? { account: ownerAddr, signer } : undefined;
+  const sessionKey = await getUploadSessionKey(file, ownerAddr, chunkSize);
   const totalSize = file.size;
   const totalChunks = Math.ceil(totalSize / chunkSize);
 
   // Load or create session state
-  let state: UploadState = (await get(sessionKey)) || {
+  const existing: UploadState | undefined = await get(sessionKey);
+  let state: UploadState = existing && !existing.onChainTx ? existing : {
     uploadId: sessionKey,
+    ownerAddr,
     filename: file.name,
     mimeType: file.type || "application/octet-stream",
     fileSize: totalSize,
+    lastModified: file.lastModified,
     chunkSize,
     totalChunks,
     uploaded: {},
@@ -292,22 +623,45 @@ export async function chunkedUploadFile(
     metadataCid: null,
   };
 
+  // Chunks encrypted under a key we never persisted cannot be reused
+  if (!state.encryptedAesForOwner && Object.keys(state.uploaded).length > 0) {
+    console.warn("[Upload] Session has chunks but no stored key, restarting from chunk 0");
+    state.uploaded = {};
+  }
+  state.updatedAt = Date.now();
+
+  // Chunks and metadata were pinned last time; only the on-chain registration is missing
+  if (state.metadataCid) {
+    const metadataCid = state.metadataCid;
+    console.log('[Upload] Resuming at on-chain registration:', metadataCid);
+    const registering = !!(autoRegister && signer && contractAddress && state.encryptedAesForOwner);
+    const txReceipt = registering ? await registerOnChain(state, sessionKey, signer, contractAddress) : null;
+    await finishSession(state, sessionKey, registering, contractAddress);
+    return { metadataCid, metadata: null, sessionKey, txReceipt };
+  }
+
   // Prepare AES key
   let aesCryptoKey: CryptoKey | null = null;
   let aesKeyBase64: string | null = null;
 
   // Check if resuming (encrypted key exists)
   if (state.encryptedAesForOwner) {
-    if (!window.ethereum) {
-      throw new Error("MetaMask required to decrypt AES key for resume");
+    if (!signer) {
+      throw new Error("Signer required to decrypt AES key for resume. Please connect your wallet.");
     }
     try {
-      const decryptedBase64 = await window.ethereum.request({
-        method: "eth_decrypt",
-        params: [state.encryptedAesForOwner, ownerAddr],
-      });
-      aesKeyBase64 = decryptedBase64 as string;
+      // Same signature-derived keypair that encrypted the key on the first attempt
+      // (falls back to the v1 key for sessions started before typed-data derivation)
+      const { keyPair } = await requestEncryptionKeypair(signer, ownerAddr);
+      ({ plaintext: aesKeyBase64 } = await decryptWithAccountKeys(
+        JSON.parse(state.encryptedAesForOwner), signer, ownerAddr, keyPair
+      ));
       aesCryptoKey = await importKeyFromBase64(aesKeyBase64);
+      console.log('[Upload] Resuming session:', {
+        sessionKey,
+        uploadedChunks: Object.keys(state.uploaded).length,
+        totalChunks,
+      });
     } catch (err) {
       throw new Error(`Failed to decrypt AES key: ${(err as Error).message}`);
     }
@@ -331,6 +685,8 @@ export async function chunkedUploadFile(
     } catch (err: any) {
       throw new Error(`Failed to export AES key to base64: ${err?.message || String(err)}. This is required for encryption.`);
     }
+    // Encrypt with a non-extractable copy; that is what gets cloned into the crypto workers
+    aesCryptoKey = await importKeyFromBase64(aesKeyBase64);
 
     // Get owner's encryption keypair using signature-based derivation
     // CRITICAL: This encrypted key is required for on-chain registration
@@ -474,11 +830,15 @@ export async function chunkedUploadFile(
       throw new Error("AES key not available");
     }
 
-    // Encrypt chunk
-    const { packed } = await encryptChunk(aesCryptoKey, arrBuf, i);
+    // Encrypt chunk (off the main thread) and hash the exact bytes that will be pinned
+    const packed = await cryptoPool.encryptChunk(aesCryptoKey, arrBuf, i);
+    const sha256 = await sha256Hex(await packed.arrayBuffer());
 
     // Upload chunk
-    const cid = await uploadChunkWithRetries(packed, { proxyUrl, maxRetries });
+    const cid = await uploadChunkWithRetries(packed, { proxyUrl, maxRetries, signal, auth: pinAuth });
+    if (signal?.aborted) {
+      throw abortError();
+    }
 
     // Update state atomically - check again before writing to prevent race
     const currentState = await get(sessionKey);
@@ -488,7 +848,8 @@ export async function chunkedUploadFile(
       return;
     }
 
-    state.uploaded[i] = { cid, size: end - start };
+    state.uploaded[i] = { cid, size: end - start, sha256 };
+    state.updatedAt = Date.now();
     uploadedBytes += end - start;
     await set(sessionKey, state);
     results[i] = cid;
@@ -499,9 +860,19 @@ export async function chunkedUploadFile(
     }
   }
 
+  // Report already-uploaded bytes when resuming
+  if (onProgress && uploadedBytes > 0) {
+    onProgress(Math.round((uploadedBytes / totalSize) * 100), uploadedBytes, totalSize);
+  }
+
   // Worker pool with atomic index allocation
   async function worker() {
     while (true) {
+      // Drain: stop claiming new chunks once paused or cancelled
+      if (controller?.isPaused || signal?.aborted) {
+        return;
+      }
+
       // Atomically allocate next index (synchronous operation)
       // This prevents two workers from getting the same index
       let i: number | null = null;
@@ -529,35 +900,79 @@ export async function chunkedUploadFile(
     }
   }
 
-  const workers = Array(concurrency)
-    .fill(0)
-    .map(() => worker());
-  await Promise.all(workers);
+  try {
+    while (true) {
+      nextIndex = 0;
+      const workers = Array(concurrency)
+        .fill(0)
+        .map(() => worker());
+      await Promise.all(workers);
+
+      if (signal?.aborted) {
+        throw abortError();
+      }
+      if (Object.keys(state.uploaded).length >= totalChunks) {
+        break;
+      }
+      // Pool drained because of pause - wait, then restart from the first missing chunk
+      if (controller?.isPaused) {
+        console.log('[Upload] Paused after', Object.keys(state.uploaded).length, 'of', totalChunks, 'chunks');
+        await controller.waitForResume();
+        continue;
+      }
+      throw new Error("Upload stopped before all chunks were uploaded");
+    }
+  } catch (err: any) {
+    if (signal?.aborted || err?.name === "AbortError") {
+      // Cancel means the user does not want this upload back in the resume list
+      await del(sessionKey);
+      throw abortError();
+    }
+    throw err;
+  }
 
   // Build metadata
-  const chunks = [];
+  const chunks: ChunkMetadata[] = [];
   for (let i = 0; i < totalChunks; i++) {
     chunks.push({
       index: i,
       cid: results[i],
       size: state.uploaded[i].size,
+      sha256: state.uploaded[i].sha256,
     });
   }
 
-  const metadata = {
-    type: "dcs-chunked-file",
-    filename: state.filename,
-    mimeType: state.mimeType,
-    fileSize: state.fileSize,
-    chunkSize: state.chunkSize,
-    totalChunks,
-    chunks,
-    uploader: ownerAddr,
-    uploadedAt: Math.floor(Date.now() / 1000),
-  };
+  // Merkle root over ciphertext hashes; skipped if a resumed session has unhashed chunks
+  const chunkHashes = chunks.map(c => c.sha256);
+  const integrity = chunkHashes.length > 0 && chunkHashes.every((h): h is string => !!h)
+    ? { algorithm: "sha256" as const, merkleRoot: await merkleRoot(chunkHashes) }
+    : undefined;
+
+  // Sealed (current version) metadata keeps only the chunk layout public
+  const metadata = await buildStoredMetadata(
+    { chunkSize: state.chunkSize, totalChunks, chunks, integrity },
+    {
+      filename: state.filename,
+      mimeType: state.mimeType,
+      fileSize: state.fileSize,
+      uploader: ownerAddr,
+      uploadedAt: Math.floor(Date.now() / 1000),
+    },
+    aesCryptoKey!,
+    { seal: encryptMetadata }
+  );
 
   // Upload metadata
-  const metadataCid = await uploadMetadata(metadata, proxyUrl);
+  let metadataCid: string;
+  try {
+    metadataCid = await uploadMetadata(metadata, proxyUrl, signal, pinAuth);
+  } catch (err: any) {
+    if (signal?.aborted || err?.name === "AbortError") {
+      await del(sessionKey);
+      throw abortError();
+    }
+    throw err;
+  }
   state.metadataCid = metadataCid;
   await set(sessionKey, state);
 
@@ -565,101 +980,9 @@ export async function chunkedUploadFile(
   let txReceipt = null;
   console.log('[Upload] Auto-register check:', { autoRegister, hasSigner: !!signer, hasContract: !!contractAddress, hasEncryptedKey: !!state.encryptedAesForOwner });
   
-  if (autoRegister && signer && contractAddress && state.encryptedAesForOwner) {
-    try {
-      // CRITICAL: Defensive check before encoding - this prevents the slice error
-      const encryptedStr = state.encryptedAesForOwner;
-      if (!encryptedStr || typeof encryptedStr !== 'string' || !encryptedStr.length) {
-        console.error('[Upload] Encrypted string validation failed before on-chain registration:', {
-          encryptedStr: encryptedStr,
-          type: typeof encryptedStr,
-          length: encryptedStr?.length,
-          hasValue: !!encryptedStr,
-        });
-        throw new Error(
-          "Failed to create encrypted AES key string for on-chain registration (value missing or invalid). " +
-          "The encrypted key was not properly generated during upload. Please re-upload the file."
-        );
-      }
-
-      console.log('[Upload] Starting on-chain registration...', {
-        contractAddress,
-        metadataCid,
-        encryptedKeyLength: encryptedStr.length,
-        encryptedKeyPrefix: encryptedStr.substring(0, 50) + '...',
-      });
-      
-      // Use contract ABI
-      const contract = new Contract(
-        contractAddress,
-        CONTRACT_ABI,
-        signer
-      );
-
-      // Safe to encode now - we've validated encryptedStr is a non-empty string
-      const encBytes = new TextEncoder().encode(encryptedStr);
-      console.log('[Upload] Encrypted key bytes length:', encBytes.length);
-      
-      // Estimate gas first
-      let gasEstimate;
-      try {
-        console.log('[Upload] Estimating gas...');
-        gasEstimate = await contract.estimateGas.uploadFile(metadataCid, encBytes);
-        console.log('[Upload] Gas estimate:', gasEstimate.toString());
-      } catch (gasErr: any) {
-        console.warn("[Upload] Gas estimation failed:", gasErr);
-        // Continue without gas estimate
-      }
-
-      // Send transaction with error handling
-      const txOptions: any = {};
-      if (gasEstimate) {
-        // Add 20% buffer to gas estimate
-        txOptions.gasLimit = gasEstimate.mul(120).div(100);
-        console.log('[Upload] Using gas limit:', txOptions.gasLimit.toString());
-      }
-      
-      console.log('[Upload] Sending uploadFile transaction...');
-      const tx = await contract.uploadFile(metadataCid, encBytes, txOptions);
-      console.log('[Upload] Transaction sent:', tx.hash);
-      
-      // Wait for confirmation with timeout
-      const timeout = 120000; // 2 minutes
-      const txPromise = tx.wait(1);
-      const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Transaction timeout')), timeout)
-      );
-      
-      console.log('[Upload] Waiting for transaction confirmation...');
-      txReceipt = await Promise.race([txPromise, timeoutPromise]) as any;
-      console.log('[Upload] Transaction confirmed:', txReceipt.transactionHash);
-
-      state.registeredAt = Math.floor(Date.now() / 1000);
-      state.onChainTx = txReceipt.transactionHash;
-      await set(sessionKey, state);
-      console.log('[Upload] On-chain registration successful!');
-    } catch (err: any) {
-      console.error("[Upload] On-chain registration failed:", err);
-      console.error("[Upload] Error details:", {
-        code: err.code,
-        message: err.message,
-        data: err.data,
-        reason: err.reason
-      });
-      
-      // Don't throw - allow upload to complete even if on-chain registration fails
-      // User can manually register later
-      if (err.code === 4001) {
-        throw new Error("User rejected transaction");
-      }
-      if (err.message?.includes('timeout')) {
-        throw new Error("Transaction timeout - please check network");
-      }
-      
-      // Provide more detailed error message
-      const errorMsg = err.reason || err.message || String(err);
-      throw new Error(`On-chain registration failed: ${errorMsg}. Please check: 1) Contract address is correct, 2) You're on the correct network, 3) You have enough gas.`);
-    }
+  const registering = !!(autoRegister && signer && contractAddress && state.encryptedAesForOwner);
+  if (registering) {
+    txReceipt = await registerOnChain(state, sessionKey, signer, contractAddress);
   } else {
     console.warn('[Upload] On-chain registration skipped:', {
       autoRegister,
@@ -669,6 +992,8 @@ export async function chunkedUploadFile(
     });
   }
 
+  await finishSession(state, sessionKey, registering, contractAddress);
+
   // Clear in-memory keys
   aesCryptoKey = null;
   aesKeyBase64 = null;
@@ -0,0 +1,140 @@
+/**
+ * Encrypted local full-text index for text-like files
+ *
+ * At upload time the plaintext of small text files is split into words, and the word set is
+ * sealed with an AES-GCM key derived from the account's X25519 key (HKDF) and kept in IndexedDB.
+ * Search opens the index while the session key is unlocked, so file contents can be matched
+ * without downloading and decrypting every file again. Nothing leaves the browser.
+ */
+
+import { get, set, del, keys } from "idb-keyval";
+import { sealJson, openSealedJson } from "./cryptoService";
+import { requestEncryptionKeypair, deriveKeyBytesFromSecretKey, HKDF_INFO } from "../utils/keyDerivation";
+import { sessionKeys } from "../utils/sessionKeys";
+import { tokenize } from "../utils/search";
+
+const INDEX_PREFIX = "contentindex:";
+const ENABLED_STORAGE_KEY = "ddrive.contentIndex";
+
+// Only the first part of large text files is indexed
+const MAX_INDEXED_BYTES = 2 * 1024 * 1024;
+const MAX_TERMS = 20000;
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 48;
+
+const TEXT_MIME_TYPES = new Set([
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/x-sh",
+  "application/x-yaml",
+  "application/sql",
+]);
+const TEXT_EXTENSIONS = new Set([
+  "txt", "md", "markdown", "csv", "tsv", "json", "xml", "html", "htm", "yaml", "yml", "toml", "ini",
+  "log", "js", "ts", "tsx", "jsx", "py", "rs", "go", "java", "c", "h", "cpp", "sol", "sh", "sql", "tex",
+]);
+
+interface StoredContentIndex {
+  account: string;
+  sealed: { iv: string; ciphertext: string };
+  createdAt: number;
+}
+
+/** Content indexing is opt-in: off until turned on in settings */
+export function isContentIndexEnabled(): boolean {
+  try {
+    return globalThis.localStorage?.getItem(ENABLED_STORAGE_KEY) === "on";
+  } catch {
+    return false;
+  }
+}
+
+export function setContentIndexEnabled(enabled: boolean) {
+  try {
+    globalThis.localStorage?.setItem(ENABLED_STORAGE_KEY, enabled ? "on" : "off");
+  } catch {}
+}
+
+export function isIndexable(file: { name: string; type?: string }): boolean {
+  const mime = file.type || "";
+  if (mime.startsWith("text/") || TEXT_MIME_TYPES.has(mime)) return true;
+  const dot = file.name.lastIndexOf(".");
+  return dot > 0 && TEXT_EXTENSIONS.has(file.name.slice(dot + 1).toLowerCase());
+}
+
+// Binds a sealed index to its entry so records can't be swapped between files
+function indexAad(id: string): string {
+  return `dcs-content-index:${id}`;
+}
+
+async function indexKey(secretKey: Uint8Array): Promise<CryptoKey> {
+  const raw = await deriveKeyBytesFromSecretKey(secretKey, HKDF_INFO.contentIndexKey);
+  return crypto.subtle.importKey("raw", raw as BufferSource, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+// Opened indexes for the current account; dropped when the session locks
+let cache: { account: string; terms: Map<string, Set<string>> } | null = null;
+sessionKeys.subscribe(unlocked => {
+  if (!unlocked) cache = null;
+});
+
+/**
+ * Index a file's text and store the sealed word set under the entry id
+ */
+export async function indexFileContent(
+  id: string,
+  file: File,
+  opts: { signer: any; account: string }
+): Promise<number> {
+  const text = await file.slice(0, MAX_INDEXED_BYTES).text();
+  const terms = new Set<string>();
+  for (const word of tokenize(text)) {
+    if (word.length < MIN_TERM_LENGTH || word.length > MAX_TERM_LENGTH) continue;
+    terms.add(word);
+    if (terms.size >= MAX_TERMS) break;
+  }
+
+  const { keyPair } = await requestEncryptionKeypair(opts.signer, opts.account);
+  const record: StoredContentIndex = {
+    account: opts.account.toLowerCase(),
+    sealed: await sealJson(await indexKey(keyPair.secretKey), { terms: [...terms] }, indexAad(id)),
+    createdAt: Date.now(),
+  };
+  await set(INDEX_PREFIX + id, record);
+  if (cache?.account === record.account) cache.terms.set(id, terms);
+  console.log("[ContentIndex] Indexed", id, { terms: terms.size });
+  return terms.size;
+}
+
+/**
+ * Open every index stored for the account
+ * Uses the session's keypair; call it only while unlocked to avoid a signature prompt.
+ */
+export async function loadContentIndex(account: string, signer: any): Promise<Map<string, Set<string>>> {
+  const owner = account.toLowerCase();
+  if (cache?.account === owner) return cache.terms;
+
+  const { keyPair } = await requestEncryptionKeypair(signer, account);
+  const key = await indexKey(keyPair.secretKey);
+  const terms = new Map<string, Set<string>>();
+  for (const k of await keys()) {
+    if (typeof k !== "string" || !k.startsWith(INDEX_PREFIX)) continue;
+    const record = await get<StoredContentIndex>(k);
+    if (!record || record.account !== owner) continue;
+    const id = k.slice(INDEX_PREFIX.length);
+    try {
+      const opened = await openSealedJson<{ terms: string[] }>(key, record.sealed, indexAad(id));
+      terms.set(id, new Set(opened.terms));
+    } catch (err) {
+      console.warn("[ContentIndex] Could not open index for", id, err);
+    }
+  }
+  cache = { account: owner, terms };
+  return terms;
+}
+
+export async function removeContentIndex(id: string): Promise<void> {
+  await del(INDEX_PREFIX + id);
+  cache?.terms.delete(id);
+}
@@ -113,6 +113,74 @@ export async function decryptChunk(
   );
 }
 
+/**
+ * Derive a non-extractable AES-GCM key from a passphrase with PBKDF2-SHA256
+ */
+export async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase.normalize("NFKC")),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Seal a JSON value with AES-GCM under the file key
+ * AAD binds the ciphertext to its purpose so it can't be swapped with a chunk
+ */
+export async function sealJson(
+  key: CryptoKey,
+  value: unknown,
+  aad: string
+): Promise<{ iv: string; ciphertext: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(aad) },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return {
+    iv: arrayBufferToBase64(iv.buffer),
+    ciphertext: arrayBufferToBase64(ciphertext),
+  };
+}
+
+/**
+ * Open a value sealed with sealJson
+ */
+export async function openSealedJson<T = unknown>(
+  key: CryptoKey,
+  sealed: { iv: string; ciphertext: string },
+  aad: string
+): Promise<T> {
+  if (!sealed || typeof sealed.iv !== "string" || typeof sealed.ciphertext !== "string") {
+    throw new Error("Invalid sealed payload");
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: new Uint8Array(base64ToArrayBuffer(sealed.iv)),
+      additionalData: new TextEncoder().encode(aad),
+    },
+    key,
+    base64ToArrayBuffer(sealed.ciphertext)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
 /**
  * Helper: ArrayBuffer to base64
  */
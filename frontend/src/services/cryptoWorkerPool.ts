@@ -0,0 +1,220 @@
+/**
+ * Crypto worker pool
+ * Dispatches chunk encryption/decryption to a fixed number of Web Workers so large
+ * uploads and downloads don't block rendering. Falls back to the main thread when
+ * workers are unavailable.
+ */
+
+import { encryptChunk, decryptChunk } from "./cryptoService";
+
+export interface CryptoTask {
+  id: number;
+  op: "encrypt" | "decrypt";
+  key: CryptoKey;
+  data: ArrayBuffer;
+  index: number;
+}
+
+export interface CryptoTaskResult {
+  id: number;
+  result?: ArrayBuffer;
+  error?: string;
+  errorName?: string;
+}
+
+interface PendingTask {
+  task: CryptoTask;
+  resolve: (result: ArrayBuffer) => void;
+  reject: (err: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  busy: PendingTask | null;
+  // Set after the first result; until then the worker may still fail to load
+  ready: boolean;
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  // Leave a core for the UI thread
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+export class CryptoWorkerPool {
+  private size: number;
+  private workers: PoolWorker[] = [];
+  private queue: PendingTask[] = [];
+  private nextId = 1;
+  private disabled = typeof Worker === "undefined";
+
+  constructor(size: number = defaultPoolSize()) {
+    this.size = Math.max(1, Math.floor(size));
+  }
+
+  get poolSize(): number {
+    return this.size;
+  }
+
+  /**
+   * Change the number of workers. Idle workers above the new size are stopped right away,
+   * busy ones once their current task finishes.
+   */
+  resize(size: number) {
+    this.size = Math.max(1, Math.floor(size));
+    this.trim();
+    this.dispatch();
+  }
+
+  /**
+   * Encrypt a chunk; `data` is transferred to the worker and unusable afterwards
+   * @returns packed iv + ciphertext, same format as cryptoService.encryptChunk
+   */
+  async encryptChunk(key: CryptoKey, data: ArrayBuffer, chunkIndex: number): Promise<Blob> {
+    if (this.disabled) {
+      return (await encryptChunk(key, data, chunkIndex)).packed;
+    }
+    return new Blob([await this.run("encrypt", key, data, chunkIndex)]);
+  }
+
+  /**
+   * Decrypt a packed chunk; `data` is transferred to the worker and unusable afterwards
+   */
+  async decryptChunk(key: CryptoKey, data: ArrayBuffer, chunkIndex: number): Promise<ArrayBuffer> {
+    if (this.disabled) {
+      return decryptChunk(key, data, chunkIndex);
+    }
+    return this.run("decrypt", key, data, chunkIndex);
+  }
+
+  terminate() {
+    for (const w of this.workers) {
+      w.worker.terminate();
+      w.busy?.reject(new Error("Crypto worker pool terminated"));
+    }
+    this.workers = [];
+    for (const pending of this.queue.splice(0)) {
+      pending.reject(new Error("Crypto worker pool terminated"));
+    }
+  }
+
+  private run(op: CryptoTask["op"], key: CryptoKey, data: ArrayBuffer, index: number): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ task: { id: this.nextId++, op, key, data, index }, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private spawn(): PoolWorker | null {
+    try {
+      const worker = new Worker(new URL("../workers/crypto.worker.ts", import.meta.url), { type: "module" });
+      const entry: PoolWorker = { worker, busy: null, ready: false };
+      worker.onmessage = (event: MessageEvent<CryptoTaskResult>) => this.onResult(entry, event.data);
+      worker.onerror = (event) => this.onWorkerError(entry, event);
+      this.workers.push(entry);
+      return entry;
+    } catch (err) {
+      console.warn("[CryptoPool] Web Workers unavailable, using main thread:", err);
+      this.disabled = true;
+      return null;
+    }
+  }
+
+  private dispatch() {
+    if (this.disabled) {
+      this.drainOnMainThread();
+      return;
+    }
+    while (this.queue.length > 0) {
+      let idle = this.workers.find(w => !w.busy);
+      if (!idle && this.workers.length < this.size) {
+        idle = this.spawn() || undefined;
+        if (this.disabled) {
+          this.drainOnMainThread();
+          return;
+        }
+      }
+      if (!idle) return;
+      const pending = this.queue.shift()!;
+      idle.busy = pending;
+      if (idle.ready) {
+        idle.worker.postMessage(pending.task, [pending.task.data]);
+      } else {
+        // Send a copy so the task can still run on the main thread if the worker never loads
+        idle.worker.postMessage({ ...pending.task, data: pending.task.data.slice(0) });
+      }
+    }
+  }
+
+  private drainOnMainThread() {
+    for (const { task, resolve, reject } of this.queue.splice(0)) {
+      const work = task.op === "encrypt"
+        ? encryptChunk(task.key, task.data, task.index).then(r => r.packed.arrayBuffer())
+        : decryptChunk(task.key, task.data, task.index);
+      work.then(resolve, reject);
+    }
+  }
+
+  private onResult(entry: PoolWorker, msg: CryptoTaskResult) {
+    const pending = entry.busy;
+    entry.busy = null;
+    entry.ready = true;
+    if (pending && pending.task.id === msg.id) {
+      if (msg.result) {
+        pending.resolve(msg.result);
+      } else {
+        // Keep the error name so callers can still tell e.g. OperationError (bad key/AAD) apart
+        const err = new Error(msg.error || "Crypto worker task failed");
+        if (msg.errorName) err.name = msg.errorName;
+        pending.reject(err);
+      }
+    }
+    this.trim();
+    this.dispatch();
+  }
+
+  private onWorkerError(entry: PoolWorker, event: ErrorEvent) {
+    if (!entry.ready) {
+      // The worker script failed to load (CSP, 404, no module workers); a new one would too
+      console.warn("[CryptoPool] Worker failed to start, using main thread:", event.message);
+      this.disabled = true;
+      for (const w of this.workers.filter(w => !w.ready)) {
+        w.worker.terminate();
+        if (w.busy) this.queue.unshift(w.busy);
+      }
+      this.workers = this.workers.filter(w => w.ready);
+      this.drainOnMainThread();
+      return;
+    }
+    console.error("[CryptoPool] Worker crashed:", event.message);
+    entry.worker.terminate();
+    this.workers = this.workers.filter(w => w !== entry);
+    entry.busy?.reject(new Error(`Crypto worker failed: ${event.message || "unknown error"}`));
+    this.dispatch();
+  }
+
+  private trim() {
+    while (this.workers.length > this.size) {
+      const idle = this.workers.find(w => !w.busy);
+      if (!idle) return;
+      idle.worker.terminate();
+      this.workers = this.workers.filter(w => w !== idle);
+    }
+  }
+}
+
+let sharedPool: CryptoWorkerPool | null = null;
+
+/**
+ * Pool shared by uploads and downloads unless an option overrides it
+ */
+export function getCryptoWorkerPool(): CryptoWorkerPool {
+  if (!sharedPool) {
+    sharedPool = new CryptoWorkerPool();
+  }
+  return sharedPool;
+}
+
+export function setCryptoWorkerPoolSize(size: number) {
+  getCryptoWorkerPool().resize(size);
+}
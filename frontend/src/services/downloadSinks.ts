@@ -0,0 +1,163 @@
+/**
+ * Download sinks for chunked downloads
+ * A sink receives decrypted chunks in order and persists them without
+ * holding the whole file in memory (except the in-memory sink used for previews).
+ */
+
+export interface ChunkSink {
+  write(chunk: ArrayBuffer): Promise<void>;
+  close(): Promise<void>;
+  abort(reason?: any): Promise<void>;
+}
+
+const SW_URL = "/download-sw.js";
+const SW_STREAM_PREFIX = "/__dcs-stream/";
+
+/**
+ * Ask the user where to save the file (File System Access API).
+ * Returns null when the API is unavailable; rethrows AbortError if the user cancels.
+ */
+export async function pickSaveFileHandle(suggestedName: string): Promise<FileSystemFileHandle | null> {
+  if (typeof window === "undefined" || typeof window.showSaveFilePicker !== "function") {
+    return null;
+  }
+  try {
+    return await window.showSaveFilePicker({ suggestedName });
+  } catch (err: any) {
+    if (err?.name === "AbortError") throw err;
+    // SecurityError: picker needs a user gesture that may have been consumed by earlier prompts
+    console.warn("[Download] showSaveFilePicker unavailable here, falling back:", err);
+    return null;
+  }
+}
+
+/**
+ * Stream chunks straight to disk through a FileSystemWritableFileStream
+ */
+export async function createFileSystemSink(handle: FileSystemFileHandle): Promise<ChunkSink> {
+  const writable = await handle.createWritable();
+  return {
+    write: (chunk) => writable.write(chunk),
+    close: () => writable.close(),
+    abort: (reason) => writable.abort(reason),
+  };
+}
+
+/**
+ * Collect chunks into a Blob (bounded only by file size - use for previews of small files)
+ */
+export function createMemorySink(mimeType: string): ChunkSink & { toBlob(): Blob } {
+  const parts: ArrayBuffer[] = [];
+  let blob: Blob | null = null;
+  return {
+    async write(chunk) {
+      parts.push(chunk);
+    },
+    async close() {
+      // Blob keeps its own copy of the parts, so the buffers can be released
+      blob = new Blob(parts, { type: mimeType });
+      parts.length = 0;
+    },
+    async abort() {
+      parts.length = 0;
+    },
+    toBlob() {
+      if (!blob) throw new Error("Memory sink not closed");
+      return blob;
+    },
+  };
+}
+
+export function isServiceWorkerStreamingSupported(): boolean {
+  return typeof navigator !== "undefined" && "serviceWorker" in navigator && typeof ReadableStream !== "undefined";
+}
+
+/**
+ * Stream chunks to a browser download via the download Service Worker.
+ *
+ * The page registers a stream with the worker over a MessageChannel, then navigates a hidden
+ * iframe to the stream URL. The worker answers that request with a ReadableStream and asks the
+ * page for the next chunk only when the browser pulls, so at most one chunk is buffered.
+ */
+export async function createServiceWorkerSink(
+  filename: string,
+  mimeType: string,
+  size?: number
+): Promise<ChunkSink> {
+  if (!isServiceWorkerStreamingSupported()) {
+    throw new Error("Service Worker streaming is not supported in this browser");
+  }
+
+  await navigator.serviceWorker.register(SW_URL, { scope: "/" });
+  const registration = await navigator.serviceWorker.ready;
+  const worker = registration.active;
+  if (!worker) {
+    throw new Error("Download Service Worker is not active");
+  }
+
+  const id = crypto.getRandomValues(new Uint32Array(2)).join("");
+  const channel = new MessageChannel();
+  const port = channel.port1;
+
+  // Resolvers waiting for the worker to pull the next chunk
+  let pullWaiter: (() => void) | null = null;
+  let pendingPulls = 0;
+  let cancelled = false;
+  port.onmessage = (event) => {
+    if (event.data?.type === "pull") {
+      if (pullWaiter) {
+        const w = pullWaiter;
+        pullWaiter = null;
+        w();
+      } else {
+        pendingPulls++;
+      }
+    } else if (event.data?.type === "cancel") {
+      // User cancelled the download in the browser UI
+      cancelled = true;
+      pullWaiter?.();
+    }
+  };
+
+  function waitForPull(): Promise<void> {
+    if (pendingPulls > 0) {
+      pendingPulls--;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => (pullWaiter = resolve));
+  }
+
+  worker.postMessage(
+    { type: "register", id, filename, mimeType, size },
+    [channel.port2]
+  );
+
+  const iframe = document.createElement("iframe");
+  iframe.hidden = true;
+  iframe.src = `${SW_STREAM_PREFIX}${id}`;
+  document.body.appendChild(iframe);
+
+  function cleanup() {
+    port.close();
+    // Give the browser time to hand the stream to the download manager
+    setTimeout(() => iframe.remove(), 60_000);
+  }
+
+  return {
+    async write(chunk) {
+      await waitForPull();
+      if (cancelled) {
+        throw new DOMException("Download cancelled", "AbortError");
+      }
+      port.postMessage({ type: "chunk", chunk }, [chunk]);
+    },
+    async close() {
+      port.postMessage({ type: "end" });
+      cleanup();
+    },
+    async abort(reason) {
+      port.postMessage({ type: "abort", reason: String(reason?.message || reason || "aborted") });
+      cleanup();
+    },
+  };
+}
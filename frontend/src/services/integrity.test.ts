@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { merkleRoot, sha256Hex, verifyChunkHash } from "./integrity";
+
+function chunk(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+async function parent(left: string, right: string): Promise<string> {
+  const pair = new Uint8Array(64);
+  pair.set(Buffer.from(left, "hex"), 0);
+  pair.set(Buffer.from(right, "hex"), 32);
+  return sha256Hex(pair);
+}
+
+describe("sha256Hex", () => {
+  it("matches the known digest of a string", async () => {
+    expect(await sha256Hex("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+});
+
+describe("merkleRoot", () => {
+  it("is the leaf itself for a single chunk", async () => {
+    const leaf = await sha256Hex("only");
+    expect(await merkleRoot([leaf])).toBe(leaf);
+  });
+
+  it("hashes the concatenated leaves of a pair", async () => {
+    const [a, b] = await Promise.all([sha256Hex("a"), sha256Hex("b")]);
+    expect(await merkleRoot([a, b])).toBe(await parent(a, b));
+  });
+
+  it("promotes an odd last node unchanged", async () => {
+    const [a, b, c] = await Promise.all([sha256Hex("a"), sha256Hex("b"), sha256Hex("c")]);
+    expect(await merkleRoot([a, b, c])).toBe(await parent(await parent(a, b), c));
+  });
+
+  it("depends on chunk order", async () => {
+    const [a, b] = await Promise.all([sha256Hex("a"), sha256Hex("b")]);
+    expect(await merkleRoot([b, a])).not.toBe(await merkleRoot([a, b]));
+  });
+
+  it("ignores the case of hex leaves", async () => {
+    const [a, b] = await Promise.all([sha256Hex("a"), sha256Hex("b")]);
+    expect(await merkleRoot([a.toUpperCase(), b])).toBe(await merkleRoot([a, b]));
+  });
+
+  it("refuses zero chunks and malformed leaves", async () => {
+    await expect(merkleRoot([])).rejects.toThrow("zero chunks");
+    await expect(merkleRoot(["zz", "00"])).rejects.toThrow("Invalid hex string");
+  });
+});
+
+describe("verifyChunkHash", () => {
+  it("accepts the chunk the hash was recorded for", async () => {
+    const expected = await sha256Hex(chunk("ciphertext"));
+    expect(await verifyChunkHash(chunk("ciphertext"), expected.toUpperCase())).toBe(true);
+  });
+
+  it("rejects a tampered chunk", async () => {
+    const expected = await sha256Hex(chunk("ciphertext"));
+    expect(await verifyChunkHash(chunk("Ciphertext"), expected)).toBe(false);
+  });
+});
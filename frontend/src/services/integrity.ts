@@ -0,0 +1,60 @@
+/**
+ * Content integrity helpers for chunked files
+ * Per-chunk SHA-256 over the packed ciphertext, and a Merkle root over all chunk hashes
+ */
+
+export async function sha256Hex(data: BufferSource | string): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const hash = await crypto.subtle.digest("SHA-256", bytes);
+  return bytesToHex(new Uint8Array(hash));
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  if (!/^[0-9a-f]*$/i.test(hex) || hex.length % 2 !== 0) {
+    throw new Error(`Invalid hex string: ${hex.slice(0, 16)}...`);
+  }
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return out;
+}
+
+/**
+ * Merkle root over hex SHA-256 leaves (in chunk order).
+ * Parent = SHA-256(left || right); an odd node at the end of a level is promoted unchanged.
+ */
+export async function merkleRoot(leavesHex: string[]): Promise<string> {
+  if (leavesHex.length === 0) {
+    throw new Error("Cannot compute Merkle root of zero chunks");
+  }
+  let level = leavesHex.map(h => h.toLowerCase());
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        next.push(level[i]);
+        continue;
+      }
+      const pair = new Uint8Array(64);
+      pair.set(hexToBytes(level[i]), 0);
+      pair.set(hexToBytes(level[i + 1]), 32);
+      next.push(await sha256Hex(pair));
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/**
+ * Check a fetched chunk against its expected ciphertext hash
+ */
+export async function verifyChunkHash(data: ArrayBuffer, expectedHex: string): Promise<boolean> {
+  return (await sha256Hex(data)) === expectedHex.toLowerCase();
+}
@@ -0,0 +1,28 @@
+/**
+ * Encrypted key envelopes stored on-chain (FileRecord.encryptedKey, AccessRecord.encryptedKeyForGrantee)
+ * An envelope is the x25519-xsalsa20-poly1305 JSON from encryptForRecipient. After a key rotation it
+ * also carries `metadataCid`: the file keeps its original CID as on-chain identity, while its
+ * content now lives under a new metadata CID encrypted with the new key.
+ */
+
+import { normalizeCiphertextInput } from "../utils/decryptionHelpers";
+
+export function encodeKeyEnvelope(encrypted: object, metadataCid?: string | null): Uint8Array {
+  const envelope = metadataCid ? { ...encrypted, metadataCid } : encrypted;
+  return new TextEncoder().encode(JSON.stringify(envelope));
+}
+
+/**
+ * Metadata CID the envelope's key belongs to, or `fallback` for envelopes written before rotation existed
+ */
+export function envelopeMetadataCid(encryptedKey: any, fallback: string): string {
+  try {
+    const parsed = JSON.parse(normalizeCiphertextInput(encryptedKey));
+    if (parsed && typeof parsed.metadataCid === "string" && parsed.metadataCid) {
+      return parsed.metadataCid;
+    }
+  } catch {
+    // Not JSON - leave it to the decryption path to report
+  }
+  return fallback;
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Wallet } from "ethers";
+import { encodeBase64 } from "tweetnacl-util";
+import type nacl from "tweetnacl";
+import { encryptForRecipient, decryptForRecipient } from "../utils/encryption";
+import { normalizeCiphertextInput } from "../utils/decryptionHelpers";
+import {
+  KEY_DERIVATION_MESSAGE,
+  buildKeyDerivationTypedData,
+  deriveKeyPairFromSignature,
+  deriveLegacyKeyPairFromSignature,
+} from "../utils/keyDerivation";
+import { encodeKeyEnvelope } from "./keyEnvelope";
+import { migrateLegacyKeys } from "./keyMigration";
+
+const CONTRACT = "0x00000000000000000000000000000000000000c1";
+
+// Registry stand-in: file records by CID, plus the calls the migration makes
+const chain = vi.hoisted(() => ({
+  files: new Map<string, { existsOut: boolean; revokedOut: boolean; encryptedKeyOut: Uint8Array }>(),
+  updates: [] as string[],
+  published: [] as Uint8Array[],
+  directoryKey: null as string | null,
+  rejectUpdates: false,
+}));
+
+vi.mock("ethers", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("ethers")>();
+  const tx = (hash: string) => ({ hash, wait: async () => ({}) });
+  const registry = {
+    getFile: async (_owner: string, cid: string) => {
+      const record = chain.files.get(cid);
+      if (!record) throw new Error("not found");
+      return record;
+    },
+    updateEncryptedKey: async (cid: string, encryptedKey: Uint8Array) => {
+      if (chain.rejectUpdates) throw Object.assign(new Error("User rejected the request"), { code: 4001 });
+      chain.files.set(cid, { ...chain.files.get(cid)!, encryptedKeyOut: encryptedKey });
+      chain.updates.push(cid);
+      return tx(`0xupdate-${cid}`);
+    },
+    publishEncryptionKey: async (key: Uint8Array) => {
+      chain.published.push(key);
+      return tx("0xpublish");
+    },
+  };
+  return {
+    ...actual,
+    Contract: vi.fn(function () {
+      return registry;
+    }),
+  };
+});
+
+vi.mock("../utils/keyDirectory", () => ({
+  lookupEncryptionKey: async () => chain.directoryKey,
+}));
+
+// The wallet signs for real; only the caching/prompting wrappers are replaced
+const wallet = Wallet.createRandom();
+const keys = vi.hoisted(() => ({ v2: null as nacl.BoxKeyPair | null, v1: null as nacl.BoxKeyPair | null }));
+
+vi.mock("../utils/keyDerivation", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../utils/keyDerivation")>();
+  return {
+    ...actual,
+    requestEncryptionKeypair: async () => ({ publicKeyBase64: encodeBase64(keys.v2!.publicKey), keyPair: keys.v2! }),
+    requestLegacyKeypair: async () => keys.v1!,
+  };
+});
+
+async function signV2(chainId = 1) {
+  const { domain, types, value } = buildKeyDerivationTypedData(chainId, CONTRACT, wallet.address);
+  return wallet._signTypedData(domain, types, value);
+}
+
+function registerFile(cid: string, recipient: nacl.BoxKeyPair, aesKey: string, opts: { pointer?: string; revoked?: boolean } = {}) {
+  const envelope = encryptForRecipient(encodeBase64(recipient.publicKey), aesKey);
+  chain.files.set(cid, {
+    existsOut: true,
+    revokedOut: !!opts.revoked,
+    encryptedKeyOut: encodeKeyEnvelope(envelope, opts.pointer),
+  });
+}
+
+function openOwnerKey(cid: string, keyPair: nacl.BoxKeyPair) {
+  const envelope = JSON.parse(normalizeCiphertextInput(chain.files.get(cid)!.encryptedKeyOut));
+  return { aesKey: decryptForRecipient(envelope, keyPair.secretKey), pointer: envelope.metadataCid };
+}
+
+const migrate = (cids: string[]) =>
+  migrateLegacyKeys(cids, { ownerAddr: wallet.address, signer: wallet, contractAddress: CONTRACT });
+
+beforeEach(async () => {
+  chain.files.clear();
+  chain.updates.length = 0;
+  chain.published.length = 0;
+  chain.directoryKey = null;
+  chain.rejectUpdates = false;
+  keys.v2 = await deriveKeyPairFromSignature(await signV2());
+  keys.v1 = await deriveLegacyKeyPairFromSignature(await wallet.signMessage(KEY_DERIVATION_MESSAGE));
+});
+
+describe("key derivation", () => {
+  it("gives the same v2 keypair for the same signature and a different one than v1", async () => {
+    const again = await deriveKeyPairFromSignature(await signV2());
+    expect(again.publicKey).toEqual(keys.v2!.publicKey);
+    expect(keys.v2!.publicKey).not.toEqual(keys.v1!.publicKey);
+  });
+
+  it("binds the v2 key to the chain in the signed domain", async () => {
+    const otherChain = await deriveKeyPairFromSignature(await signV2(5));
+    expect(otherChain.publicKey).not.toEqual(keys.v2!.publicKey);
+  });
+});
+
+describe("migrateLegacyKeys", () => {
+  it("re-encrypts v1 owner keys to the v2 key and keeps the rotation pointer", async () => {
+    registerFile("QmLegacy", keys.v1!, "legacy-aes-key", { pointer: "QmRotatedMetadata" });
+    registerFile("QmCurrent", keys.v2!, "current-aes-key");
+
+    const result = await migrate(["QmLegacy", "QmCurrent"]);
+
+    expect(result).toEqual({ migrated: ["QmLegacy"], alreadyCurrent: ["QmCurrent"], failed: [] });
+    expect(chain.updates).toEqual(["QmLegacy"]);
+    expect(openOwnerKey("QmLegacy", keys.v2!)).toEqual({ aesKey: "legacy-aes-key", pointer: "QmRotatedMetadata" });
+    expect(() => openOwnerKey("QmLegacy", keys.v1!)).toThrow();
+  });
+
+  it("reports files it cannot migrate and carries on", async () => {
+    registerFile("QmRevoked", keys.v1!, "aes", { revoked: true });
+    registerFile("QmLegacy", keys.v1!, "aes");
+
+    const result = await migrate(["QmRevoked", "QmMissing", "QmLegacy"]);
+
+    expect(result.migrated).toEqual(["QmLegacy"]);
+    expect(result.failed.map(f => f.cid)).toEqual(["QmRevoked", "QmMissing"]);
+  });
+
+  it("stops when the wallet rejects a transaction", async () => {
+    registerFile("QmLegacy", keys.v1!, "aes");
+    chain.rejectUpdates = true;
+    await expect(migrate(["QmLegacy"])).rejects.toMatchObject({ code: 4001 });
+  });
+
+  it("replaces a v1 directory key but leaves a current or missing one alone", async () => {
+    chain.directoryKey = encodeBase64(keys.v1!.publicKey);
+    await migrate([]);
+    expect(chain.published).toEqual([keys.v2!.publicKey]);
+
+    chain.published.length = 0;
+    chain.directoryKey = encodeBase64(keys.v2!.publicKey);
+    await migrate([]);
+    chain.directoryKey = null;
+    await migrate([]);
+    expect(chain.published).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Migration from v1 (personal_sign) to v2 (EIP-712) key derivation
+ * Owner keys still encrypted to the v1 public key are re-encrypted to the v2 key and written
+ * back with updateEncryptedKey (keeping any rotation pointer), and the key directory entry is
+ * replaced so new grants are encrypted to the v2 key. Grants received under the v1 key keep
+ * opening through the legacy fallback in utils/decryption.ts until the owner re-issues them.
+ */
+
+import { Contract } from "ethers";
+import { decodeBase64 } from "tweetnacl-util";
+import CONTRACT_ABI from "../contracts/TimeBoundFileRegistry.abi.json";
+import { encryptForRecipient, decryptForRecipient } from "../utils/encryption";
+import { normalizeCiphertextInput } from "../utils/decryptionHelpers";
+import { requestEncryptionKeypair, requestLegacyKeypair } from "../utils/keyDerivation";
+import { lookupEncryptionKey } from "../utils/keyDirectory";
+import { encodeKeyEnvelope } from "./keyEnvelope";
+
+const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "";
+
+export interface KeyMigrationResult {
+  migrated: string[];
+  alreadyCurrent: string[];
+  failed: { cid: string; reason: string }[];
+}
+
+/**
+ * Re-encrypt the owner's v1-encrypted file keys to the v2 key
+ * Needs two signatures (v2 and v1) plus one transaction per migrated file, and one more
+ * to replace a v1 key in the directory.
+ *
+ * @param fileCids - on-chain file CIDs owned by `ownerAddr`
+ */
+export async function migrateLegacyKeys(
+  fileCids: string[],
+  opts: {
+    ownerAddr: string;
+    signer: any;
+    contractAddress?: string;
+    onProgress?: (done: number, total: number) => void;
+  }
+): Promise<KeyMigrationResult> {
+  const { ownerAddr, signer, contractAddress = CONTRACT_ADDRESS, onProgress } = opts;
+  if (!contractAddress) {
+    throw new Error("Contract address not configured");
+  }
+
+  const contract = new Contract(contractAddress, CONTRACT_ABI, signer);
+  const { publicKeyBase64, keyPair } = await requestEncryptionKeypair(signer, ownerAddr);
+  const legacy = await requestLegacyKeypair(signer, ownerAddr);
+  const result: KeyMigrationResult = { migrated: [], alreadyCurrent: [], failed: [] };
+
+  for (let i = 0; i < fileCids.length; i++) {
+    const cid = fileCids[i];
+    try {
+      const record = await contract.getFile(ownerAddr, cid);
+      if (!record.existsOut || record.revokedOut) {
+        throw new Error("File is not registered on-chain or has been revoked");
+      }
+      const envelope = JSON.parse(normalizeCiphertextInput(record.encryptedKeyOut));
+      try {
+        decryptForRecipient(envelope, keyPair.secretKey);
+        result.alreadyCurrent.push(cid);
+        continue;
+      } catch {
+        // Not the v2 key - fall through to the legacy key
+      }
+
+      const aesKeyBase64 = decryptForRecipient(envelope, legacy.secretKey);
+      const pointer = typeof envelope.metadataCid === "string" ? envelope.metadataCid : null;
+      const tx = await contract.updateEncryptedKey(
+        cid,
+        encodeKeyEnvelope(encryptForRecipient(publicKeyBase64, aesKeyBase64), pointer)
+      );
+      await tx.wait(1);
+      result.migrated.push(cid);
+      console.log("[KeyMigration] Migrated file key:", cid, tx.hash);
+    } catch (err: any) {
+      if (err?.code === 4001 || err?.code === "ACTION_REJECTED") throw err;
+      console.warn("[KeyMigration] Could not migrate", cid, err);
+      result.failed.push({ cid, reason: err?.message || String(err) });
+    } finally {
+      onProgress?.(i + 1, fileCids.length);
+    }
+  }
+
+  // Replace a v1 directory entry; accounts that never enabled sharing are left alone
+  const published = await lookupEncryptionKey(contractAddress, signer, ownerAddr);
+  if (published && published !== publicKeyBase64) {
+    const tx = await contract.publishEncryptionKey(decodeBase64(publicKeyBase64));
+    await tx.wait(1);
+    console.log("[KeyMigration] Replaced directory key:", tx.hash);
+  }
+  return result;
+}
@@ -0,0 +1,232 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import nacl from "tweetnacl";
+import { encodeBase64 } from "tweetnacl-util";
+import { encryptForRecipient } from "../utils/encryption";
+import type { AccessGrant } from "./accessRegistry";
+import type { CryptoWorkerPool } from "./cryptoWorkerPool";
+import { getRotationSessionKey, rotateFileKey, type RotationState } from "./keyRotation";
+
+const OWNER = "0x00000000000000000000000000000000000000a1";
+const CONTRACT = "0x00000000000000000000000000000000000000c1";
+const FILE_CID = "QmOriginalMetadata";
+
+// Everything the rotation does to the outside world, in order
+const world = vi.hoisted(() => ({
+  log: [] as string[],
+  db: new Map<string, unknown>(),
+  ownerKeys: null as unknown as import("tweetnacl").BoxKeyPair,
+  record: null as unknown as { existsOut: boolean; revokedOut: boolean; encryptedKeyOut: Uint8Array },
+  grants: [] as import("./accessRegistry").AccessGrant[],
+  directory: new Map<string, string>(),
+  failGrantFor: null as string | null,
+  unpinResult: null as unknown as { unpinned: string[]; failed: string[]; rejected: string[]; supported: boolean },
+}));
+
+vi.mock("idb-keyval", () => ({
+  get: async (key: string) => world.db.get(key),
+  set: async (key: string, value: unknown) => void world.db.set(key, structuredClone(value)),
+  del: async (key: string) => void world.db.delete(key),
+}));
+
+vi.mock("ethers", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("ethers")>();
+  const tx = (hash: string) => ({ hash, wait: async () => ({}) });
+  const registry = {
+    getFile: async () => world.record,
+    updateEncryptedKey: async () => {
+      world.log.push("updateEncryptedKey");
+      return tx("0xkeyupdate");
+    },
+    grantAccess: async (grantee: string) => {
+      if (grantee === world.failGrantFor) throw new Error("grant reverted");
+      world.log.push(`grantAccess ${grantee}`);
+      return tx(`0xgrant-${grantee}`);
+    },
+  };
+  return {
+    ...actual,
+    Contract: vi.fn(function () {
+      return registry;
+    }),
+  };
+});
+
+vi.mock("../utils/keyDerivation", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../utils/keyDerivation")>()),
+  requestEncryptionKeypair: async () => ({
+    publicKeyBase64: encodeBase64(world.ownerKeys.publicKey),
+    keyPair: world.ownerKeys,
+  }),
+}));
+
+vi.mock("../utils/keyDirectory", () => ({
+  lookupEncryptionKey: async (_contract: string, _signer: unknown, account: string) => world.directory.get(account) ?? null,
+}));
+
+vi.mock("../utils/ipfsGateway", () => ({
+  fetchFromIPFSGateway: async (cid: string) => {
+    world.log.push(`fetch ${cid}`);
+    const metadata = {
+      type: "dcs-chunked-file",
+      version: 1,
+      chunkSize: 1024,
+      totalChunks: 2,
+      chunks: [
+        { index: 0, cid: "QmOldChunk0", size: 1024 },
+        { index: 1, cid: "QmOldChunk1", size: 10 },
+      ],
+      filename: "notes.txt",
+      mimeType: "text/plain",
+      fileSize: 1034,
+      uploader: "0x00000000000000000000000000000000000000a1",
+      uploadedAt: 1700000000000,
+    };
+    return { blob: new Blob([JSON.stringify(metadata)]), url: `https://gateway.test/ipfs/${cid}` };
+  },
+}));
+
+vi.mock("./accessRegistry", () => ({
+  listGrantsForFile: async () => world.grants,
+}));
+
+vi.mock("./shareLinks", () => ({
+  listShareLinks: async () => [{ envelopeCid: "QmShareLink", fileCid: "QmOriginalMetadata", revokeToken: "t" }],
+  revokeShareLink: async (envelopeCid: string) => void world.log.push(`revokeShareLink ${envelopeCid}`),
+}));
+
+vi.mock("./chunkedUpload", () => ({
+  uploadChunkWithRetries: vi.fn(),
+  uploadMetadata: vi.fn(),
+  unpinFromProxy: async ({ cids }: { cids: string[] }) => {
+    world.log.push(`unpin ${[...cids].sort().join(",")}`);
+    return world.unpinResult;
+  },
+}));
+
+const ALICE = "0x00000000000000000000000000000000000000b1";
+const BOB = "0x00000000000000000000000000000000000000b2";
+const sessionKey = getRotationSessionKey(OWNER, FILE_CID);
+const now = () => Math.floor(Date.now() / 1000);
+
+function grant(grantee: string, overrides: Partial<AccessGrant> = {}): AccessGrant {
+  return {
+    owner: OWNER,
+    grantee,
+    cid: FILE_CID,
+    start: now() - 60,
+    end: now() + 3600,
+    revoked: false,
+    active: true,
+    encryptedKeyForGrantee: "0x",
+    ...overrides,
+  };
+}
+
+// A session whose new content is already pinned, so the test starts at the on-chain key update
+function pendingRotation(): RotationState {
+  const newKey = encodeBase64(nacl.randomBytes(32));
+  return {
+    ownerAddr: OWNER,
+    fileCid: FILE_CID,
+    fromMetadataCid: FILE_CID,
+    encryptedNewKeyForOwner: JSON.stringify(encryptForRecipient(encodeBase64(world.ownerKeys.publicKey), newKey)),
+    totalChunks: 2,
+    uploaded: {},
+    newMetadataCid: "QmNewMetadata",
+    regranted: [],
+    updatedAt: Date.now(),
+  };
+}
+
+const rotate = () =>
+  rotateFileKey(FILE_CID, {
+    ownerAddr: OWNER,
+    signer: {},
+    contractAddress: CONTRACT,
+    proxyUrl: "https://proxy.test",
+    cryptoPool: {} as CryptoWorkerPool,
+  });
+
+beforeEach(() => {
+  world.log.length = 0;
+  world.db.clear();
+  world.directory.clear();
+  world.failGrantFor = null;
+  world.ownerKeys = nacl.box.keyPair();
+  const oldKey = encryptForRecipient(encodeBase64(world.ownerKeys.publicKey), encodeBase64(nacl.randomBytes(32)));
+  world.record = { existsOut: true, revokedOut: false, encryptedKeyOut: new TextEncoder().encode(JSON.stringify(oldKey)) };
+  world.grants = [];
+  world.unpinResult = { unpinned: ["QmOriginalMetadata", "QmOldChunk0", "QmOldChunk1"], failed: [], rejected: [], supported: true };
+  world.db.set(sessionKey, pendingRotation());
+});
+
+describe("rotateFileKey ordering", () => {
+  it("updates the key, revokes links and re-grants before unpinning the old content", async () => {
+    world.grants = [grant(ALICE), grant(BOB)];
+    world.directory.set(ALICE, encodeBase64(nacl.box.keyPair().publicKey));
+    world.directory.set(BOB, encodeBase64(nacl.box.keyPair().publicKey));
+
+    const result = await rotate();
+
+    expect(world.log).toEqual([
+      "updateEncryptedKey",
+      "revokeShareLink QmShareLink",
+      `grantAccess ${ALICE}`,
+      `grantAccess ${BOB}`,
+      `fetch ${FILE_CID}`,
+      "unpin QmOldChunk0,QmOldChunk1,QmOriginalMetadata",
+    ]);
+    expect(result).toMatchObject({ oldContentUnpinned: true, regranted: [ALICE, BOB], skipped: [], revokedLinks: 1 });
+    expect(world.db.has(sessionKey)).toBe(false);
+  });
+
+  it("keeps the old content pinned when a grantee could not be re-granted", async () => {
+    world.grants = [grant(ALICE), grant(BOB)];
+    world.directory.set(ALICE, encodeBase64(nacl.box.keyPair().publicKey));
+
+    const result = await rotate();
+
+    expect(world.log.some(entry => entry.startsWith("unpin"))).toBe(false);
+    expect(result.oldContentUnpinned).toBe(false);
+    expect(result.regranted).toEqual([ALICE]);
+    expect(result.skipped).toEqual([{ grantee: BOB, reason: "No published encryption key" }]);
+  });
+
+  it("does not re-issue revoked or expired grants", async () => {
+    world.grants = [grant(ALICE, { revoked: true }), grant(BOB, { end: now() - 1 })];
+
+    const result = await rotate();
+
+    expect(world.log.filter(entry => entry.startsWith("grantAccess"))).toEqual([]);
+    expect(result.oldContentUnpinned).toBe(true);
+  });
+
+  it("leaves everything pinned when a re-grant fails, and resumes without granting twice", async () => {
+    world.grants = [grant(ALICE), grant(BOB)];
+    world.directory.set(ALICE, encodeBase64(nacl.box.keyPair().publicKey));
+    world.directory.set(BOB, encodeBase64(nacl.box.keyPair().publicKey));
+    world.failGrantFor = BOB;
+
+    await expect(rotate()).rejects.toThrow("grant reverted");
+    expect(world.log.some(entry => entry.startsWith("unpin"))).toBe(false);
+    expect((world.db.get(sessionKey) as RotationState).regranted).toEqual([ALICE]);
+
+    world.log.length = 0;
+    world.failGrantFor = null;
+    const result = await rotate();
+
+    expect(world.log.filter(entry => entry.startsWith("grantAccess") || entry.startsWith("updateEncryptedKey"))).toEqual([
+      `grantAccess ${BOB}`,
+    ]);
+    expect(result.oldContentUnpinned).toBe(true);
+  });
+
+  it("reports content the proxy did not pin for this account as still pinned", async () => {
+    world.unpinResult = { unpinned: ["QmOldChunk0"], failed: [], rejected: ["QmOriginalMetadata", "QmOldChunk1"], supported: true };
+
+    const result = await rotate();
+
+    expect(result.oldContentUnpinned).toBe(false);
+    expect(world.db.has(sessionKey)).toBe(false);
+  });
+});
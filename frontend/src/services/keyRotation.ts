@@ -0,0 +1,387 @@
+/**
+ * Key rotation for chunked files
+ * Re-encrypts every chunk under a fresh AES key, pins the new chunk set and metadata,
+ * points the owner's FileRecord at it via updateEncryptedKey, revokes the file's share links
+ * (they carry the old key) and re-issues grants to grantees whose access has not been
+ * revoked or expired.
+ *
+ * The file keeps its original metadata CID as on-chain identity; the key envelopes carry
+ * the CID of the re-encrypted content (see keyEnvelope.ts). Once every live grant has been
+ * re-issued, the old metadata and chunks are unpinned through the proxy so the old key stops
+ * opening anything; copies other IPFS nodes cached or pinned themselves are out of reach.
+ * If a grantee could not be re-granted, the old content stays pinned so they keep access.
+ *
+ * Like chunkedUploadFile, progress is persisted in IndexedDB after every chunk and step,
+ * so an interrupted rotation resumes where it stopped.
+ */
+
+import { get, set, del } from "idb-keyval";
+import { Contract } from "ethers";
+import CONTRACT_ABI from "../contracts/TimeBoundFileRegistry.abi.json";
+import { generateExtractableAESKey, exportKeyToBase64, importKeyFromBase64 } from "./cryptoService";
+import { encryptForRecipient } from "../utils/encryption";
+import { decryptWithAccountKeys } from "../utils/decryption";
+import { normalizeCiphertextInput } from "../utils/decryptionHelpers";
+import { requestEncryptionKeypair } from "../utils/keyDerivation";
+import { lookupEncryptionKey } from "../utils/keyDirectory";
+import { fetchFromIPFSGateway } from "../utils/ipfsGateway";
+import { fetchChunkedMetadata } from "./chunkedDownload";
+import { uploadChunkWithRetries, uploadMetadata, unpinFromProxy, type UploadController } from "./chunkedUpload";
+import { buildStoredMetadata, validateStoredMetadata, type ChunkMetadata } from "./metadataSchema";
+import { merkleRoot, sha256Hex, verifyChunkHash } from "./integrity";
+import { getCryptoWorkerPool, type CryptoWorkerPool } from "./cryptoWorkerPool";
+import { listGrantsForFile } from "./accessRegistry";
+import { encodeKeyEnvelope, envelopeMetadataCid } from "./keyEnvelope";
+import { listShareLinks, revokeShareLink } from "./shareLinks";
+import type { PinAuth } from "./pinAuth";
+
+const PROXY_URL = import.meta.env.VITE_PROXY_URL || "";
+const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "";
+const ROTATION_PREFIX = "rotate_";
+
+export interface RotationState {
+  ownerAddr: string;
+  // On-chain identity of the file (original metadata CID)
+  fileCid: string;
+  // Metadata CID being re-encrypted
+  fromMetadataCid: string;
+  // New AES key, encrypted to the owner (x25519 JSON) so the session can resume after reload
+  encryptedNewKeyForOwner: string;
+  totalChunks: number;
+  uploaded: Record<number, { cid: string; size: number; sha256: string }>;
+  newMetadataCid?: string;
+  keyUpdatedTx?: string;
+  // The content this rotation replaced has been unpinned
+  oldContentUnpinned?: boolean;
+  regranted: string[];
+  updatedAt: number;
+}
+
+export interface RotateKeyOptions {
+  ownerAddr: string;
+  signer: any;
+  contractAddress?: string;
+  proxyUrl?: string;
+  concurrency?: number;
+  maxRetries?: number;
+  onProgress?: (percent: number, doneBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+  // Optional pause/resume handle; its signal is used when `signal` is not given
+  controller?: UploadController;
+  cryptoPool?: CryptoWorkerPool;
+}
+
+export interface RotateKeyResult {
+  metadataCid: string;
+  keyUpdatedTx: string;
+  // False when grantees were skipped (they still need the old content), no proxy is configured
+  // or the proxy could not unpin it
+  oldContentUnpinned: boolean;
+  // Share links created in this browser, revoked because they hold the old key
+  revokedLinks: number;
+  // Share links the proxy could not revoke; the owner has to retry from the share panel
+  linksNotRevoked: number;
+  regranted: string[];
+  // Active grantees that could not be re-granted (e.g. no published encryption key)
+  skipped: { grantee: string; reason: string }[];
+}
+
+function abortError(): DOMException {
+  return new DOMException("Key rotation cancelled", "AbortError");
+}
+
+export function getRotationSessionKey(ownerAddr: string, fileCid: string): string {
+  return `${ROTATION_PREFIX}${ownerAddr.toLowerCase()}_${fileCid}`;
+}
+
+export async function getPendingRotation(ownerAddr: string, fileCid: string): Promise<RotationState | undefined> {
+  return get<RotationState>(getRotationSessionKey(ownerAddr, fileCid));
+}
+
+export async function discardPendingRotation(ownerAddr: string, fileCid: string): Promise<void> {
+  await del(getRotationSessionKey(ownerAddr, fileCid));
+}
+
+/**
+ * Rotate the AES key of a registered file (owner only)
+ * Resumes a pending rotation of the same file automatically.
+ */
+export async function rotateFileKey(fileCid: string, opts: RotateKeyOptions): Promise<RotateKeyResult> {
+  const {
+    ownerAddr,
+    signer,
+    contractAddress = CONTRACT_ADDRESS,
+    proxyUrl = PROXY_URL,
+    concurrency = 2,
+    maxRetries = 3,
+    onProgress,
+    controller,
+    cryptoPool = getCryptoWorkerPool(),
+  } = opts;
+  const signal = opts.signal ?? controller?.signal;
+
+  if (!signer || !ownerAddr) {
+    throw new Error("Signer required to rotate keys. Please connect your wallet.");
+  }
+  if (!contractAddress) {
+    throw new Error("Contract address not configured");
+  }
+
+  const contract = new Contract(contractAddress, CONTRACT_ABI, signer);
+  const record = await contract.getFile(ownerAddr, fileCid);
+  if (!record.existsOut) {
+    throw new Error("File is not registered on-chain");
+  }
+  if (record.revokedOut) {
+    throw new Error("File has been revoked");
+  }
+
+  // One signature unlocks both the current key and a resumed session's new key
+  const { publicKeyBase64, keyPair } = await requestEncryptionKeypair(signer, ownerAddr);
+  const openForOwner = async (encrypted: any) =>
+    (await decryptWithAccountKeys(JSON.parse(normalizeCiphertextInput(encrypted)), signer, ownerAddr, keyPair)).plaintext;
+
+  const currentCid = envelopeMetadataCid(record.encryptedKeyOut, fileCid);
+  const sessionKey = getRotationSessionKey(ownerAddr, fileCid);
+  let state = await get<RotationState>(sessionKey);
+
+  // A session is only valid for the content it started from, or past its key update
+  if (state && !state.keyUpdatedTx && state.fromMetadataCid !== currentCid) {
+    console.warn("[Rotate] Discarding stale rotation session for", fileCid);
+    state = undefined;
+  }
+
+  let newKeyBase64: string;
+  if (state) {
+    newKeyBase64 = await openForOwner(state.encryptedNewKeyForOwner);
+    console.log("[Rotate] Resuming rotation:", {
+      fileCid,
+      reencryptedChunks: Object.keys(state.uploaded).length,
+      totalChunks: state.totalChunks,
+    });
+  } else {
+    newKeyBase64 = await exportKeyToBase64(await generateExtractableAESKey());
+    state = {
+      ownerAddr,
+      fileCid,
+      fromMetadataCid: currentCid,
+      encryptedNewKeyForOwner: JSON.stringify(encryptForRecipient(publicKeyBase64, newKeyBase64)),
+      totalChunks: 0,
+      uploaded: {},
+      regranted: [],
+      updatedAt: Date.now(),
+    };
+  }
+  const session = state;
+  const save = async () => {
+    session.updatedAt = Date.now();
+    await set(sessionKey, session);
+  };
+  const newKey = await importKeyFromBase64(newKeyBase64);
+
+  try {
+    if (!session.newMetadataCid) {
+      const oldKey = await importKeyFromBase64(await openForOwner(record.encryptedKeyOut));
+      session.newMetadataCid = await reencryptContent(session, oldKey, newKey, {
+        proxyUrl, concurrency, maxRetries, onProgress, signal, controller, cryptoPool, save,
+        auth: { account: ownerAddr, signer },
+      });
+      await save();
+    }
+
+    if (!session.keyUpdatedTx) {
+      if (signal?.aborted) throw abortError();
+      const envelope = encodeKeyEnvelope(JSON.parse(session.encryptedNewKeyForOwner), session.newMetadataCid);
+      const tx = await contract.updateEncryptedKey(fileCid, envelope);
+      await tx.wait(1);
+      session.keyUpdatedTx = tx.hash;
+      await save();
+      console.log("[Rotate] Owner key updated on-chain:", tx.hash);
+    }
+  } catch (err: any) {
+    if (signal?.aborted || err?.name === "AbortError") {
+      // Nothing points at the new content yet, so cancelling can drop the session
+      await del(sessionKey);
+      throw abortError();
+    }
+    throw err;
+  }
+
+  // Links are revoked only after the key update, so a cancelled rotation leaves them working
+  let revokedLinks = 0;
+  let linksNotRevoked = 0;
+  for (const link of await listShareLinks(fileCid)) {
+    if (link.revokedAt) continue;
+    try {
+      await revokeShareLink(link.envelopeCid, proxyUrl);
+      revokedLinks++;
+    } catch (err) {
+      console.warn("[Rotate] Could not revoke share link", link.envelopeCid, err);
+      linksNotRevoked++;
+    }
+  }
+
+  // Re-issue grants that are still live (active or scheduled); revoked/expired ones keep the old key
+  const now = Math.floor(Date.now() / 1000);
+  const grants = (await listGrantsForFile(signer, ownerAddr, fileCid))
+    .filter(g => !g.revoked && g.end > now);
+  const skipped: RotateKeyResult["skipped"] = [];
+  for (const grant of grants) {
+    if (session.regranted.includes(grant.grantee.toLowerCase())) continue;
+    const granteeKey = await lookupEncryptionKey(contractAddress, signer, grant.grantee);
+    if (!granteeKey) {
+      skipped.push({ grantee: grant.grantee, reason: "No published encryption key" });
+      continue;
+    }
+    const envelope = encodeKeyEnvelope(encryptForRecipient(granteeKey, newKeyBase64), session.newMetadataCid);
+    const tx = await contract.grantAccess(grant.grantee, fileCid, envelope, grant.start, grant.end);
+    await tx.wait(1);
+    session.regranted.push(grant.grantee.toLowerCase());
+    await save();
+    console.log("[Rotate] Re-granted", grant.grantee);
+  }
+
+  // Unpin last: a grantee still holding the old key (skipped above) would lose the file
+  if (skipped.length) {
+    console.warn("[Rotate] Keeping old content pinned for", skipped.length, "grantee(s) not re-granted");
+  } else if (!session.oldContentUnpinned && proxyUrl) {
+    session.oldContentUnpinned = await unpinOldContent(session, signer, proxyUrl);
+    await save();
+  }
+
+  await del(sessionKey);
+  return {
+    metadataCid: session.newMetadataCid!,
+    keyUpdatedTx: session.keyUpdatedTx!,
+    oldContentUnpinned: !!session.oldContentUnpinned,
+    revokedLinks,
+    linksNotRevoked,
+    regranted: session.regranted,
+    skipped,
+  };
+}
+
+/**
+ * Unpin the metadata and chunks the rotation replaced
+ * Failed unpins are thrown so the session stays pending and a resumed rotation retries.
+ * @returns false if some of it stays pinned (no unpin support, or not pinned by this account)
+ */
+async function unpinOldContent(session: RotationState, signer: any, proxyUrl: string): Promise<boolean> {
+  const cids = new Set([session.fromMetadataCid]);
+  const { blob } = await fetchFromIPFSGateway(session.fromMetadataCid);
+  validateStoredMetadata(JSON.parse(await blob.text())).chunks.forEach(c => cids.add(c.cid));
+
+  const result = await unpinFromProxy(
+    { cids: [...cids] },
+    { signer, account: session.ownerAddr, proxyUrl }
+  );
+  if (result.failed.length) {
+    throw new Error(`Could not unpin ${result.failed.length} of ${cids.size} old CIDs`);
+  }
+  if (!result.supported) {
+    console.warn("[Rotate] Proxy pinning service does not support unpinning; old content stays pinned");
+    return false;
+  }
+  if (result.rejected.length) {
+    console.warn("[Rotate] Proxy did not pin", result.rejected.length, "old CIDs for this account; they stay pinned");
+  }
+  console.log("[Rotate] Unpinned old content:", result.unpinned.length, "CIDs");
+  return result.rejected.length === 0;
+}
+
+/**
+ * Download, decrypt, re-encrypt and pin every chunk, then pin the new metadata
+ * @returns the new metadata CID
+ */
+async function reencryptContent(
+  session: RotationState,
+  oldKey: CryptoKey,
+  newKey: CryptoKey,
+  opts: {
+    proxyUrl: string;
+    concurrency: number;
+    maxRetries: number;
+    onProgress?: RotateKeyOptions["onProgress"];
+    signal?: AbortSignal;
+    controller?: UploadController;
+    cryptoPool: CryptoWorkerPool;
+    save: () => Promise<void>;
+    auth: PinAuth;
+  }
+): Promise<string> {
+  const { proxyUrl, concurrency, maxRetries, onProgress, signal, controller, cryptoPool, save, auth } = opts;
+  const metadata = await fetchChunkedMetadata(session.fromMetadataCid, oldKey);
+  session.totalChunks = metadata.chunks.length;
+
+  const totalBytes = metadata.chunks.reduce((sum, c) => sum + c.size, 0);
+  let doneBytes = Object.keys(session.uploaded).reduce((sum, i) => sum + session.uploaded[Number(i)].size, 0);
+  const report = () => onProgress?.(Math.round((doneBytes / Math.max(1, totalBytes)) * 100), doneBytes, totalBytes);
+  report();
+
+  async function processChunk(chunk: ChunkMetadata) {
+    const expectedHash = chunk.sha256;
+    const { blob } = await fetchFromIPFSGateway(chunk.cid, "", 15000, {
+      race: 2,
+      signal,
+      verify: expectedHash ? async (b) => verifyChunkHash(await b.arrayBuffer(), expectedHash) : undefined,
+    });
+    const plaintext = await cryptoPool.decryptChunk(oldKey, await blob.arrayBuffer(), chunk.index);
+    const packed = await cryptoPool.encryptChunk(newKey, plaintext, chunk.index);
+    const sha256 = await sha256Hex(await packed.arrayBuffer());
+    const cid = await uploadChunkWithRetries(packed, { proxyUrl, maxRetries, signal, auth });
+    if (signal?.aborted) throw abortError();
+
+    session.uploaded[chunk.index] = { cid, size: chunk.size, sha256 };
+    await save();
+    doneBytes += chunk.size;
+    report();
+  }
+
+  // Same drain-on-pause pool as chunkedUploadFile
+  let next = 0;
+  async function worker() {
+    while (!controller?.isPaused && !signal?.aborted) {
+      while (next < metadata.chunks.length && session.uploaded[next]) next++;
+      if (next >= metadata.chunks.length) return;
+      await processChunk(metadata.chunks[next++]);
+    }
+  }
+  while (true) {
+    next = 0;
+    await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+    if (signal?.aborted) throw abortError();
+    if (Object.keys(session.uploaded).length >= metadata.chunks.length) break;
+    if (controller?.isPaused) {
+      console.log("[Rotate] Paused after", Object.keys(session.uploaded).length, "of", metadata.chunks.length, "chunks");
+      await controller.waitForResume();
+      continue;
+    }
+    throw new Error("Key rotation stopped before all chunks were re-encrypted");
+  }
+
+  const chunks: ChunkMetadata[] = metadata.chunks.map(c => ({
+    index: c.index,
+    ...session.uploaded[c.index],
+  }));
+  const stored = await buildStoredMetadata(
+    {
+      chunkSize: metadata.chunkSize,
+      totalChunks: chunks.length,
+      chunks,
+      integrity: chunks.length
+        ? { algorithm: "sha256", merkleRoot: await merkleRoot(chunks.map(c => c.sha256!)) }
+        : undefined,
+    },
+    {
+      filename: metadata.filename,
+      mimeType: metadata.mimeType,
+      fileSize: metadata.fileSize,
+      uploader: metadata.uploader,
+      uploadedAt: metadata.uploadedAt,
+    },
+    newKey
+  );
+  const newCid = await uploadMetadata(stored, proxyUrl, signal, auth);
+  console.log("[Rotate] New metadata pinned:", newCid);
+  return newCid;
+}
@@ -0,0 +1,456 @@
+/**
+ * Library manifest: the account's drive layout (names, folders, stars, trash) synced across devices
+ *
+ * Each device keeps a local copy in IndexedDB with a timestamp per field; devices merge copies
+ * last-writer-wins per field. The manifest is encrypted to the account's X25519 key and pinned
+ * via the proxy /metadata route. The latest CID is published as a signed pointer on the proxy:
+ * an ed25519 key derived from the X25519 secret signs each pointer, and a one-time wallet
+ * signature (the delegation) binds that key to the account, so publishing needs no wallet prompt.
+ */
+
+import nacl from "tweetnacl";
+import { encodeBase64, decodeBase64 } from "tweetnacl-util";
+import { Contract, utils as ethersUtils, type providers } from "ethers";
+import { get, set } from "idb-keyval";
+import { encryptForRecipient, decryptForRecipient } from "../utils/encryption";
+import { requestEncryptionKeypair, deriveKeyBytesFromSecretKey, HKDF_INFO } from "../utils/keyDerivation";
+import { fetchFromIPFSGateway } from "../utils/ipfsGateway";
+import { uploadMetadata, generateHmacHeaders } from "./chunkedUpload";
+import { getEntry, putEntry, removeEntry, entryDisplayName, FOLDER_MIME, type StoredEntry } from "../lib.db";
+
+const PROXY_URL = import.meta.env.VITE_PROXY_URL || "";
+const STATE_PREFIX = "manifest:";
+
+export const LIBRARY_MANIFEST_TYPE = "dcs-library-manifest";
+export const LIBRARY_MANIFEST_VERSION = 1;
+
+/** Per-entry fields that sync; each carries its own timestamp */
+export interface ManifestValues {
+  name: string;
+  parentId: string | null;
+  starred: boolean;
+  trashed: boolean;
+  // Deleted permanently; kept as a tombstone so other devices drop the entry too
+  deleted: boolean;
+}
+
+export type ManifestField = keyof ManifestValues;
+
+const MANIFEST_FIELDS: ManifestField[] = ["name", "parentId", "starred", "trashed", "deleted"];
+
+type Stamped<T> = { value: T; updatedAt: number };
+
+export type ManifestEntry = {
+  kind: "file" | "folder";
+  createdAt: number;
+} & { [F in ManifestField]?: Stamped<ManifestValues[F]> };
+
+export interface LibraryManifest {
+  type: typeof LIBRARY_MANIFEST_TYPE;
+  version: typeof LIBRARY_MANIFEST_VERSION;
+  account: string;
+  updatedAt: number;
+  // Keyed by entry id (metadata CID for files, folder:<uuid> for folders)
+  entries: Record<string, ManifestEntry>;
+}
+
+/** A local edit to record in the manifest */
+export interface LibraryChange {
+  id: string;
+  kind?: "file" | "folder";
+  createdAt?: number;
+  fields: Partial<ManifestValues>;
+}
+
+/** What gets pinned: the manifest JSON encrypted to the account's own public key */
+interface EncryptedManifestRecord {
+  type: typeof LIBRARY_MANIFEST_TYPE;
+  version: typeof LIBRARY_MANIFEST_VERSION;
+  account: string;
+  encrypted: { version: string; ephemPublicKey: string; nonce: string; ciphertext: string };
+  createdAt: number;
+}
+
+/** Signed pointer to the latest manifest CID, stored by the proxy */
+export interface ManifestPointer {
+  account: string;
+  cid: string;
+  seq: number;
+  updatedAt: number;
+  // ed25519 public key that signed this pointer (base64)
+  signingKey: string;
+  // Wallet signature over delegationMessage(account, signingKey)
+  delegation: string;
+  // ed25519 signature over pointerMessage(pointer) (base64)
+  signature: string;
+}
+
+interface ManifestState {
+  manifest: LibraryManifest;
+  // Pointer this copy was last merged with or published as
+  syncedCid: string | null;
+  seq: number;
+  // Bumped on every local change; the copy is dirty until a push covers the latest revision
+  revision: number;
+  pushedRevision: number;
+  delegation?: { signingKey: string; signature: string };
+}
+
+/** Message the wallet signs once to let a manifest signing key publish pointers */
+export function delegationMessage(account: string, signingKey: string): string {
+  return (
+    "Decentralized Drive library sync\n\n" +
+    "Allow this key to publish your encrypted library index. This does not approve a transaction or grant access to your files.\n\n" +
+    `Account: ${account.toLowerCase()}\nKey: ${signingKey}`
+  );
+}
+
+export function pointerMessage(p: Pick<ManifestPointer, "account" | "cid" | "seq" | "updatedAt">): string {
+  return `ddrive-manifest-pointer\n${p.account.toLowerCase()}\n${p.cid}\n${p.seq}\n${p.updatedAt}`;
+}
+
+function emptyManifest(account: string): LibraryManifest {
+  return {
+    type: LIBRARY_MANIFEST_TYPE,
+    version: LIBRARY_MANIFEST_VERSION,
+    account: account.toLowerCase(),
+    updatedAt: 0,
+    entries: {},
+  };
+}
+
+async function loadState(account: string): Promise<ManifestState> {
+  const state = await get<ManifestState>(STATE_PREFIX + account.toLowerCase());
+  return state ?? { manifest: emptyManifest(account), syncedCid: null, seq: 0, revision: 0, pushedRevision: 0 };
+}
+
+// State updates are read-modify-write; run them one at a time
+let stateQueue: Promise<unknown> = Promise.resolve();
+
+function updateState<T>(account: string, fn: (state: ManifestState) => T): Promise<T> {
+  const run = stateQueue.then(async () => {
+    const state = await loadState(account);
+    const result = fn(state);
+    await set(STATE_PREFIX + account.toLowerCase(), state);
+    return result;
+  });
+  stateQueue = run.catch(() => undefined);
+  return run;
+}
+
+/** This device's copy of the manifest */
+export async function loadLibraryManifest(account: string): Promise<LibraryManifest> {
+  return (await loadState(account)).manifest;
+}
+
+function applyChanges(state: ManifestState, changes: LibraryChange[], stamp: number, seed: boolean): boolean {
+  let changed = false;
+  for (const { id, kind = "file", createdAt = stamp, fields } of changes) {
+    const entry: ManifestEntry = state.manifest.entries[id] ?? { kind, createdAt };
+    for (const field of MANIFEST_FIELDS) {
+      if (!(field in fields)) continue;
+      // Seeds only fill in fields the manifest has never seen
+      if (seed && entry[field]) continue;
+      (entry as any)[field] = { value: fields[field], updatedAt: stamp };
+      changed = true;
+    }
+    state.manifest.entries[id] = entry;
+  }
+  if (changed) {
+    state.manifest.updatedAt = Math.max(state.manifest.updatedAt, stamp);
+    state.revision++;
+  }
+  return changed;
+}
+
+/**
+ * Record local edits, stamped now
+ */
+export function recordLibraryChanges(account: string, changes: LibraryChange[]): Promise<boolean> {
+  return updateState(account, state => applyChanges(state, changes, Date.now(), false));
+}
+
+/**
+ * Add local state the manifest doesn't know about yet (e.g. from before sync existed)
+ * Seeded fields are stamped 0, so any recorded edit on any device wins over them.
+ */
+export function seedLibraryManifest(account: string, changes: LibraryChange[]): Promise<boolean> {
+  return updateState(account, state => applyChanges(state, changes, 0, true));
+}
+
+/**
+ * Merge two copies field by field; the newer timestamp wins, ties keep `ours`
+ */
+export function mergeManifests(ours: LibraryManifest, theirs: LibraryManifest): LibraryManifest {
+  const entries: Record<string, ManifestEntry> = { ...ours.entries };
+  for (const [id, other] of Object.entries(theirs.entries)) {
+    const mine = entries[id];
+    if (!mine) {
+      entries[id] = other;
+      continue;
+    }
+    const merged: ManifestEntry = { ...mine, createdAt: Math.min(mine.createdAt, other.createdAt) };
+    for (const field of MANIFEST_FIELDS) {
+      const a = mine[field];
+      const b = other[field];
+      if (b && (!a || b.updatedAt > a.updatedAt)) (merged as any)[field] = b;
+    }
+    entries[id] = merged;
+  }
+  return { ...ours, updatedAt: Math.max(ours.updatedAt, theirs.updatedAt), entries };
+}
+
+// True if `ours` has a field `theirs` lacks or has older - i.e. theirs needs our copy
+function hasNewerFields(ours: LibraryManifest, theirs: LibraryManifest): boolean {
+  return Object.entries(ours.entries).some(([id, mine]) => {
+    const other = theirs.entries[id];
+    return MANIFEST_FIELDS.some(f => mine[f] && (!other?.[f] || mine[f]!.updatedAt > other[f]!.updatedAt));
+  });
+}
+
+async function manifestSigningKeyPair(keyPair: nacl.BoxKeyPair): Promise<nacl.SignKeyPair> {
+  return nacl.sign.keyPair.fromSeed(await deriveKeyBytesFromSecretKey(keyPair.secretKey, HKDF_INFO.manifestSigningKey));
+}
+
+const EIP1271_MAGIC_VALUE = "0x1626ba7e";
+const EIP1271_ABI = ["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"];
+
+// ECDSA for regular accounts, EIP-1271 for contract wallets (same check as the proxy)
+async function verifyDelegation(
+  account: string,
+  signingKey: string,
+  delegation: string,
+  provider?: providers.Provider
+): Promise<boolean> {
+  const message = delegationMessage(account, signingKey);
+  try {
+    if (ethersUtils.verifyMessage(message, delegation).toLowerCase() === account.toLowerCase()) return true;
+  } catch {
+    // Not a plain ECDSA signature
+  }
+  if (!provider || (await provider.getCode(account)) === "0x") return false;
+  const wallet = new Contract(account, EIP1271_ABI, provider);
+  return (await wallet.isValidSignature(ethersUtils.hashMessage(message), delegation)) === EIP1271_MAGIC_VALUE;
+}
+
+/**
+ * Check a pointer was published by a key the account delegated to
+ * The proxy checks the same on write; this keeps a compromised proxy from redirecting us.
+ * Delegations signed by a contract wallet need `provider` to be checked.
+ */
+export async function verifyManifestPointer(
+  pointer: ManifestPointer,
+  account: string,
+  provider?: providers.Provider
+): Promise<boolean> {
+  try {
+    if (pointer.account !== account.toLowerCase()) return false;
+    if (!(await verifyDelegation(account, pointer.signingKey, pointer.delegation, provider))) return false;
+    return nacl.sign.detached.verify(
+      new TextEncoder().encode(pointerMessage(pointer)),
+      decodeBase64(pointer.signature),
+      decodeBase64(pointer.signingKey)
+    );
+  } catch {
+    return false;
+  }
+}
+
+async function fetchPointer(account: string, proxyUrl: string, provider?: providers.Provider): Promise<ManifestPointer | null> {
+  const response = await fetch(`${proxyUrl}/manifests/${account.toLowerCase()}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Could not fetch library pointer: ${response.statusText}`);
+  }
+  const pointer = (await response.json()) as ManifestPointer;
+  if (!(await verifyManifestPointer(pointer, account, provider))) {
+    throw new Error("Library pointer has an invalid signature");
+  }
+  return pointer;
+}
+
+/**
+ * @param replaces - manifest CID merged into this one; the proxy unpins it if it is still the current pointer
+ * @returns false when the proxy already has a newer pointer
+ */
+async function publishPointer(pointer: ManifestPointer, proxyUrl: string, replaces: string | null): Promise<boolean> {
+  const hmacHeaders = await generateHmacHeaders();
+  const response = await fetch(`${proxyUrl}/manifests/${pointer.account}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...hmacHeaders },
+    body: JSON.stringify({ ...pointer, replaces }),
+  });
+  if (response.status === 409) return false;
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.detail || body?.error || `Publishing library pointer failed: ${response.statusText}`);
+  }
+  return true;
+}
+
+async function openManifest(cid: string, account: string, keyPair: nacl.BoxKeyPair): Promise<LibraryManifest> {
+  const { blob } = await fetchFromIPFSGateway(cid);
+  const record = JSON.parse(await blob.text()) as EncryptedManifestRecord;
+  if (record?.type !== LIBRARY_MANIFEST_TYPE || record.version !== LIBRARY_MANIFEST_VERSION || !record.encrypted) {
+    throw new Error("Not a library manifest");
+  }
+  const manifest = JSON.parse(decryptForRecipient(record.encrypted, keyPair.secretKey)) as LibraryManifest;
+  if (manifest.account !== account.toLowerCase() || typeof manifest.entries !== "object") {
+    throw new Error("Library manifest belongs to another account");
+  }
+  return manifest;
+}
+
+async function pull(account: string, signer: any, proxyUrl: string): Promise<{ pointer: ManifestPointer | null; changed: boolean }> {
+  const pointer = await fetchPointer(account, proxyUrl, signer?.provider);
+  const { syncedCid } = await loadState(account);
+  if (!pointer || pointer.cid === syncedCid) return { pointer, changed: false };
+
+  const { keyPair } = await requestEncryptionKeypair(signer, account);
+  const remote = await openManifest(pointer.cid, account, keyPair);
+  await updateState(account, state => {
+    const localAhead = hasNewerFields(state.manifest, remote);
+    state.manifest = mergeManifests(state.manifest, remote);
+    state.syncedCid = pointer.cid;
+    state.seq = Math.max(state.seq, pointer.seq);
+    if (!localAhead) state.pushedRevision = state.revision;
+  });
+  console.log("[LibraryManifest] Merged remote manifest:", pointer.cid, "seq", pointer.seq);
+  return { pointer, changed: true };
+}
+
+/** @returns false if another device published first (pull and retry) */
+async function push(account: string, signer: any, proxyUrl: string, remote: ManifestPointer | null): Promise<boolean> {
+  const state = await loadState(account);
+  if (state.revision === state.pushedRevision) return true;
+
+  const { keyPair } = await requestEncryptionKeypair(signer, account);
+  const record: EncryptedManifestRecord = {
+    type: LIBRARY_MANIFEST_TYPE,
+    version: LIBRARY_MANIFEST_VERSION,
+    account: account.toLowerCase(),
+    encrypted: encryptForRecipient(encodeBase64(keyPair.publicKey), JSON.stringify(state.manifest)),
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+  const cid = await uploadMetadata(record, proxyUrl);
+
+  const signing = await manifestSigningKeyPair(keyPair);
+  const signingKey = encodeBase64(signing.publicKey);
+  // Same wallet key on every device → same signing key, so an existing delegation can be reused
+  let delegation =
+    state.delegation?.signingKey === signingKey
+      ? state.delegation.signature
+      : remote?.signingKey === signingKey
+        ? remote.delegation
+        : null;
+  if (!delegation) {
+    delegation = await signer.signMessage(delegationMessage(account, signingKey));
+  }
+
+  const unsigned = { account: account.toLowerCase(), cid, seq: state.seq + 1, updatedAt: Date.now() };
+  const pointer: ManifestPointer = {
+    ...unsigned,
+    signingKey,
+    delegation: delegation!,
+    signature: encodeBase64(nacl.sign.detached(new TextEncoder().encode(pointerMessage(unsigned)), signing.secretKey)),
+  };
+  // The previous manifest is merged into this one, so it can be unpinned once this is published
+  if (!(await publishPointer(pointer, proxyUrl, state.syncedCid))) return false;
+
+  await updateState(account, s => {
+    s.syncedCid = cid;
+    s.seq = pointer.seq;
+    // Edits recorded while uploading stay dirty for the next push
+    s.pushedRevision = state.revision;
+    s.delegation = { signingKey, signature: pointer.delegation };
+  });
+  console.log("[LibraryManifest] Published manifest:", cid, "seq", pointer.seq);
+  return true;
+}
+
+/**
+ * Pull and merge the published manifest, then publish the local copy if it has newer edits
+ * A signature is only requested when there is something to decrypt or publish.
+ *
+ * @returns the merged manifest and whether remote edits were merged in
+ */
+export async function syncLibraryManifest(opts: {
+  account: string;
+  signer: any;
+  proxyUrl?: string;
+}): Promise<{ manifest: LibraryManifest; remoteChanged: boolean }> {
+  const { account, signer, proxyUrl = PROXY_URL } = opts;
+  if (!proxyUrl) {
+    throw new Error("VITE_PROXY_URL not configured");
+  }
+  let remoteChanged = false;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { pointer, changed } = await pull(account, signer, proxyUrl);
+    remoteChanged ||= changed;
+    if (await push(account, signer, proxyUrl, pointer)) {
+      return { manifest: await loadLibraryManifest(account), remoteChanged };
+    }
+    console.log("[LibraryManifest] Pointer moved on another device, pulling again");
+  }
+  throw new Error("Library sync kept conflicting with another device; try again");
+}
+
+/**
+ * Bring the local library in line with a manifest
+ * Folders are created; names, locations, stars and trash updated; tombstoned entries removed.
+ * Files the library doesn't have yet are skipped; they are applied once chain sync adds them.
+ *
+ * @returns number of entries changed
+ */
+export async function applyLibraryManifest(manifest: LibraryManifest, account: string): Promise<number> {
+  let changed = 0;
+  for (const [id, e] of Object.entries(manifest.entries)) {
+    const existing = await getEntry(id);
+    if (e.deleted?.value) {
+      if (existing) {
+        await removeEntry(id);
+        changed++;
+      }
+      continue;
+    }
+
+    if (!existing) {
+      if (e.kind !== "folder") continue;
+      const folder: StoredEntry = {
+        id,
+        kind: "folder",
+        name: e.name?.value ?? "Untitled folder",
+        size: 0,
+        mime: FOLDER_MIME,
+        createdAt: e.createdAt,
+        parentId: e.parentId?.value ?? null,
+        ownerAddr: account,
+        starred: e.starred?.value ?? false,
+        trashedAt: e.trashed?.value ? e.trashed.updatedAt || Date.now() : null,
+      };
+      await putEntry(folder);
+      changed++;
+      continue;
+    }
+
+    const next: StoredEntry = { ...existing };
+    if (e.name && e.name.value !== entryDisplayName(existing)) {
+      next.displayName = e.name.value !== existing.name ? e.name.value : null;
+    }
+    if (e.parentId) next.parentId = e.parentId.value;
+    if (e.starred) next.starred = e.starred.value;
+    if (e.trashed && e.trashed.value !== !!existing.trashedAt) {
+      next.trashedAt = e.trashed.value ? e.trashed.updatedAt || Date.now() : null;
+    }
+    if (
+      next.displayName !== existing.displayName ||
+      (next.parentId ?? null) !== (existing.parentId ?? null) ||
+      !!next.starred !== !!existing.starred ||
+      (next.trashedAt ?? null) !== (existing.trashedAt ?? null)
+    ) {
+      await putEntry(next);
+      changed++;
+    }
+  }
+  return changed;
+}
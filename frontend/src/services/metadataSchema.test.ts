@@ -0,0 +1,115 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { generateAESKey } from "./cryptoService";
+import {
+  CURRENT_METADATA_VERSION,
+  METADATA_TYPE,
+  buildStoredMetadata,
+  describeStoredMetadata,
+  parseMetadata,
+  upgradeMetadata,
+  validateStoredMetadata,
+  type DescriptiveFields,
+  type FileMetadata,
+} from "./metadataSchema";
+
+const HASH_A = "a".repeat(64);
+const HASH_B = "b".repeat(64);
+
+const fields: DescriptiveFields = {
+  filename: "report.pdf",
+  mimeType: "application/pdf",
+  fileSize: 3000,
+  uploader: "0x0000000000000000000000000000000000000001",
+  uploadedAt: 1700000000000,
+};
+
+const structure = {
+  chunkSize: 2048,
+  totalChunks: 2,
+  chunks: [
+    { index: 0, cid: "QmChunk0", size: 2048, sha256: HASH_A },
+    { index: 1, cid: "QmChunk1", size: 952, sha256: HASH_B },
+  ],
+  integrity: { algorithm: "sha256" as const, merkleRoot: "c".repeat(64) },
+};
+
+// A document as written before versioning: plaintext fields and no `version`
+const legacyDocument = () => ({ type: METADATA_TYPE, ...structure, ...fields });
+
+let key: CryptoKey;
+beforeAll(async () => {
+  key = await generateAESKey();
+});
+
+describe("validateStoredMetadata", () => {
+  it("accepts an unversioned document as version 1", () => {
+    expect(validateStoredMetadata(legacyDocument())).toMatchObject({ filename: "report.pdf" });
+  });
+
+  it("rejects documents of another type or a newer version", () => {
+    expect(() => validateStoredMetadata({ ...legacyDocument(), type: "something-else" })).toThrow("unexpected type");
+    expect(() => validateStoredMetadata({ ...legacyDocument(), version: CURRENT_METADATA_VERSION + 1 })).toThrow(
+      "Unsupported metadata version"
+    );
+  });
+
+  it("rejects an inconsistent chunk layout", () => {
+    expect(() => validateStoredMetadata({ ...legacyDocument(), totalChunks: 3 })).toThrow("totalChunks 3");
+    const reordered = { ...legacyDocument(), chunks: [structure.chunks[1], structure.chunks[0]] };
+    expect(() => validateStoredMetadata(reordered)).toThrow("chunk 0 has index 1");
+    const badCid = { ...legacyDocument(), chunks: [{ ...structure.chunks[0], cid: "../etc" }, structure.chunks[1]] };
+    expect(() => validateStoredMetadata(badCid)).toThrow("invalid CID");
+  });
+
+  it("requires every chunk hash when a Merkle root is recorded", () => {
+    const { sha256: _dropped, ...unhashed } = structure.chunks[1];
+    const doc = { ...legacyDocument(), chunks: [structure.chunks[0], unhashed] };
+    expect(() => validateStoredMetadata(doc)).toThrow("chunk hashes missing");
+  });
+
+  it("allows zero chunks only for an empty file", () => {
+    const empty = { ...legacyDocument(), totalChunks: 0, chunks: [], integrity: undefined };
+    expect(() => validateStoredMetadata({ ...empty, fileSize: 0 })).not.toThrow();
+    expect(() => validateStoredMetadata(empty)).toThrow("no chunks for a 3000-byte file");
+  });
+
+  it("rejects a version 2 document without sealed fields", () => {
+    const { filename: _f, mimeType: _m, fileSize: _s, uploader: _u, uploadedAt: _t, ...bare } = legacyDocument();
+    expect(() => validateStoredMetadata({ ...bare, version: 2 })).toThrow("without sealed fields");
+  });
+});
+
+describe("buildStoredMetadata / parseMetadata", () => {
+  it("seals the descriptive fields and reads them back", async () => {
+    const stored = await buildStoredMetadata(structure, fields, key);
+    expect(stored.version).toBe(2);
+    expect(JSON.stringify(stored)).not.toContain("report.pdf");
+    expect(describeStoredMetadata(stored)).toEqual({ fileSize: 3000, sealed: true });
+
+    const parsed = await parseMetadata(JSON.parse(JSON.stringify(stored)), key);
+    expect(parsed).toMatchObject({ ...fields, version: CURRENT_METADATA_VERSION, chunks: structure.chunks });
+  });
+
+  it("refuses sealed fields opened with another file's key", async () => {
+    const stored = await buildStoredMetadata(structure, fields, key);
+    await expect(parseMetadata(stored, await generateAESKey())).rejects.toThrow("Failed to decrypt file metadata");
+  });
+
+  it("writes a plaintext version 1 document when sealing is off", async () => {
+    const stored = await buildStoredMetadata(structure, fields, key, { seal: false });
+    expect(stored).toMatchObject({ version: 1, filename: "report.pdf" });
+  });
+});
+
+describe("upgradeMetadata", () => {
+  it("upgrades a legacy document to the current version with the same fields", async () => {
+    const parsed = await parseMetadata(legacyDocument(), key);
+    expect(parsed.version).toBe(CURRENT_METADATA_VERSION);
+    expect(parsed).toMatchObject({ ...fields, chunkSize: 2048, integrity: structure.integrity });
+  });
+
+  it("fails loudly for a version without an upgrade path", () => {
+    const decoded: FileMetadata = { type: METADATA_TYPE, ...structure, ...fields, version: 0 };
+    expect(() => upgradeMetadata(decoded)).toThrow("No upgrade path from metadata version 0");
+  });
+});
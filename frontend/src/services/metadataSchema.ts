@@ -0,0 +1,253 @@
+/**
+ * dcs-chunked-file metadata schema
+ * Single source of truth for the metadata JSON pinned next to the chunks: the stored
+ * (on-IPFS) shapes of every version, a strict validator, and the upgrade chain that
+ * turns any supported version into the current in-memory FileMetadata.
+ *
+ * Adding a version: define its stored shape, teach validateStoredMetadata/decodeMetadata
+ * about it, bump CURRENT_METADATA_VERSION and register an upgrade from the previous one.
+ */
+
+import { sealJson, openSealedJson } from "./cryptoService";
+
+export const METADATA_TYPE = "dcs-chunked-file";
+export const CURRENT_METADATA_VERSION = 2;
+
+// AAD binding the sealed descriptive fields to their purpose
+export const METADATA_SEAL_AAD = "dcs-chunked-file:metadata";
+
+export interface ChunkMetadata {
+  index: number;
+  cid: string;
+  size: number;
+  // Hex SHA-256 of the packed ciphertext (absent in files uploaded before hashing)
+  sha256?: string;
+}
+
+export interface IntegrityInfo {
+  algorithm: "sha256";
+  merkleRoot: string;
+}
+
+/**
+ * Fields describing the file itself (as opposed to its chunk layout)
+ */
+export interface DescriptiveFields {
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  uploader: string;
+  uploadedAt: number;
+}
+
+/**
+ * Chunk layout, always stored in plaintext so the download can be planned before decryption
+ */
+export interface ChunkStructure {
+  type: typeof METADATA_TYPE;
+  chunkSize: number;
+  totalChunks: number;
+  chunks: ChunkMetadata[];
+  integrity?: IntegrityInfo;
+}
+
+/** Version 1: everything in plaintext. Early files have no `version` field at all. */
+export interface StoredMetadataV1 extends ChunkStructure, DescriptiveFields {
+  version?: 1;
+}
+
+/** Version 2: descriptive fields sealed with the file AES key */
+export interface StoredMetadataV2 extends ChunkStructure {
+  version: 2;
+  sealed: { iv: string; ciphertext: string };
+}
+
+export type StoredMetadata = StoredMetadataV1 | StoredMetadataV2;
+
+/**
+ * Metadata as used by the app after validation, decryption and upgrade
+ */
+export interface FileMetadata extends ChunkStructure, DescriptiveFields {
+  version: number;
+}
+
+const HEX_SHA256 = /^[0-9a-f]{64}$/i;
+
+function invalid(reason: string): never {
+  throw new Error(`Invalid metadata: ${reason}`);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeInt(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function validateChunks(m: Record<string, any>) {
+  if (!isNonNegativeInt(m.chunkSize) || m.chunkSize === 0) {
+    invalid("chunkSize must be a positive integer");
+  }
+  // An empty file has no chunks; its size is checked against fileSize once the fields are readable
+  if (!Array.isArray(m.chunks)) {
+    invalid("missing chunks array");
+  }
+  if (m.totalChunks !== m.chunks.length) {
+    invalid(`totalChunks ${m.totalChunks} does not match ${m.chunks.length} chunk entries`);
+  }
+  m.chunks.forEach((c: unknown, i: number) => {
+    if (!isObject(c)) invalid(`chunk ${i} is not an object`);
+    if (c.index !== i) invalid(`chunk ${i} has index ${c.index}`);
+    if (typeof c.cid !== "string" || !/^[bBQm][a-zA-Z0-9]+$/.test(c.cid)) invalid(`chunk ${i} has an invalid CID`);
+    if (!isNonNegativeInt(c.size)) invalid(`chunk ${i} has an invalid size`);
+    if (c.sha256 !== undefined && (typeof c.sha256 !== "string" || !HEX_SHA256.test(c.sha256))) {
+      invalid(`chunk ${i} has an invalid sha256`);
+    }
+  });
+  if (m.integrity !== undefined) {
+    if (!isObject(m.integrity)) invalid("integrity must be an object");
+    if (m.chunks.length === 0) invalid("integrity root present for a file without chunks");
+    if (m.integrity.algorithm !== "sha256") invalid(`unsupported integrity algorithm ${m.integrity.algorithm}`);
+    if (typeof m.integrity.merkleRoot !== "string" || !HEX_SHA256.test(m.integrity.merkleRoot)) {
+      invalid("integrity.merkleRoot must be a hex SHA-256");
+    }
+    if (!m.chunks.every((c: ChunkMetadata) => c.sha256)) {
+      invalid("integrity root present but chunk hashes missing");
+    }
+  }
+}
+
+// Zero chunks are only valid for a 0-byte file
+function validateChunkCount(chunks: ChunkMetadata[], fields: DescriptiveFields) {
+  if (chunks.length === 0 && fields.fileSize !== 0) {
+    invalid(`no chunks for a ${fields.fileSize}-byte file`);
+  }
+}
+
+/**
+ * Check the decrypted/plaintext descriptive fields
+ */
+export function validateDescriptiveFields(value: unknown): DescriptiveFields {
+  if (!isObject(value)) invalid("descriptive fields must be an object");
+  if (typeof value.filename !== "string" || !value.filename) invalid("missing filename");
+  if (typeof value.mimeType !== "string") invalid("mimeType must be a string");
+  if (!isNonNegativeInt(value.fileSize)) invalid("fileSize must be a non-negative integer");
+  if (typeof value.uploader !== "string") invalid("uploader must be a string");
+  if (!isNonNegativeInt(value.uploadedAt)) invalid("uploadedAt must be a unix timestamp");
+  return {
+    filename: value.filename,
+    mimeType: value.mimeType,
+    fileSize: value.fileSize,
+    uploader: value.uploader,
+    uploadedAt: value.uploadedAt,
+  };
+}
+
+/**
+ * Strict structural validation of a metadata document as stored on IPFS
+ */
+export function validateStoredMetadata(value: unknown): StoredMetadata {
+  if (!isObject(value)) invalid("not a JSON object");
+  if (value.type !== METADATA_TYPE) invalid(`unexpected type ${JSON.stringify(value.type)}`);
+  const version = value.version ?? 1;
+  if (version > CURRENT_METADATA_VERSION) {
+    throw new Error(`Unsupported metadata version ${version}. Please update the app to open this file.`);
+  }
+  validateChunks(value);
+
+  switch (version) {
+    case 1:
+      validateChunkCount(value.chunks, validateDescriptiveFields(value));
+      return value as StoredMetadataV1;
+    case 2:
+      if (!isObject(value.sealed) || typeof value.sealed.iv !== "string" || typeof value.sealed.ciphertext !== "string") {
+        invalid("version 2 without sealed fields");
+      }
+      return value as StoredMetadataV2;
+    default:
+      return invalid(`unknown version ${JSON.stringify(value.version)}`);
+  }
+}
+
+function structureOf(m: ChunkStructure): ChunkStructure {
+  const { type, chunkSize, totalChunks, chunks, integrity } = m;
+  return integrity ? { type, chunkSize, totalChunks, chunks, integrity } : { type, chunkSize, totalChunks, chunks };
+}
+
+/**
+ * Decode a validated document at its own version (decrypting sealed fields where needed)
+ */
+async function decodeMetadata(stored: StoredMetadata, aesKey: CryptoKey): Promise<FileMetadata> {
+  if (stored.version === 2) {
+    let fields: unknown;
+    try {
+      fields = await openSealedJson(aesKey, stored.sealed, METADATA_SEAL_AAD);
+    } catch (err) {
+      throw new Error("Failed to decrypt file metadata. The key may not belong to this file.");
+    }
+    const descriptive = validateDescriptiveFields(fields);
+    validateChunkCount(stored.chunks, descriptive);
+    return { ...structureOf(stored), ...descriptive, version: 2 };
+  }
+  return { ...structureOf(stored), ...validateDescriptiveFields(stored), version: 1 };
+}
+
+/**
+ * Upgrade steps keyed by the version they upgrade from
+ */
+const UPGRADES: Record<number, (m: FileMetadata) => FileMetadata> = {
+  // v2 only moved descriptive fields under the seal; the decoded shape is unchanged
+  1: (m) => ({ ...m, version: 2 }),
+};
+
+export function upgradeMetadata(metadata: FileMetadata): FileMetadata {
+  let m = metadata;
+  while (m.version < CURRENT_METADATA_VERSION) {
+    const step = UPGRADES[m.version];
+    if (!step) {
+      throw new Error(`No upgrade path from metadata version ${m.version}`);
+    }
+    m = step(m);
+  }
+  return m;
+}
+
+/**
+ * Validate, decrypt and upgrade raw metadata JSON to the current FileMetadata
+ */
+export async function parseMetadata(raw: unknown, aesKey: CryptoKey): Promise<FileMetadata> {
+  const stored = validateStoredMetadata(raw);
+  return upgradeMetadata(await decodeMetadata(stored, aesKey));
+}
+
+/**
+ * Build the document to pin for a new upload.
+ * `seal: false` writes a plaintext version 1 document for consumers that cannot decrypt.
+ */
+export async function buildStoredMetadata(
+  structure: Omit<ChunkStructure, "type">,
+  fields: DescriptiveFields,
+  aesKey: CryptoKey,
+  opts: { seal?: boolean } = {}
+): Promise<StoredMetadata> {
+  const { seal = true } = opts;
+  const base = structureOf({ ...structure, type: METADATA_TYPE });
+  const doc: StoredMetadata = seal
+    ? { ...base, version: 2, sealed: await sealJson(aesKey, validateDescriptiveFields(fields), METADATA_SEAL_AAD) }
+    : { ...base, ...validateDescriptiveFields(fields), version: 1 };
+  // Never pin something the download side would reject
+  return validateStoredMetadata(doc);
+}
+
+/**
+ * What can be learned from a stored document without the file key.
+ * For sealed versions only the size is known (sum of plaintext chunk sizes).
+ */
+export function describeStoredMetadata(stored: StoredMetadata): Partial<DescriptiveFields> & { fileSize: number; sealed: boolean } {
+  if (stored.version === 2) {
+    return { fileSize: stored.chunks.reduce((sum, c) => sum + c.size, 0), sealed: true };
+  }
+  const { filename, mimeType, fileSize, uploader, uploadedAt } = stored;
+  return { filename, mimeType, fileSize, uploader, uploadedAt, sealed: false };
+}
@@ -0,0 +1,101 @@
+/**
+ * Passphrase-wrapped X25519 keypairs
+ * Key source for wallets that don't sign deterministically (see utils/keySource.ts): a random
+ * keypair is sealed under a PBKDF2 passphrase key and pinned to IPFS, so the same key can be
+ * unlocked on any device with the record's CID and the passphrase.
+ */
+
+import nacl from "tweetnacl";
+import { encodeBase64, decodeBase64 } from "tweetnacl-util";
+import { derivePassphraseKey, sealJson, openSealedJson, arrayBufferToBase64, base64ToArrayBuffer } from "./cryptoService";
+import { uploadMetadata } from "./chunkedUpload";
+import { fetchFromIPFSGateway } from "../utils/ipfsGateway";
+import { setKeySource } from "../utils/keySource";
+
+const PROXY_URL = import.meta.env.VITE_PROXY_URL || "";
+
+export const PASSPHRASE_KEY_TYPE = "dcs-passphrase-keypair";
+export const PBKDF2_ITERATIONS = 600_000;
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+export interface PassphraseKeyRecord {
+  type: typeof PASSPHRASE_KEY_TYPE;
+  version: 1;
+  account: string;
+  publicKey: string;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  // sealJson({ secretKey }) under the passphrase key
+  sealed: { iv: string; ciphertext: string };
+  createdAt: number;
+}
+
+// Binds the sealed secret to its account so a record can't be replayed for another one
+function sealAad(account: string): string {
+  return `${PASSPHRASE_KEY_TYPE}:${account.toLowerCase()}`;
+}
+
+/**
+ * Generate a keypair, seal it with the passphrase, pin it and make it the account's key source
+ */
+export async function createPassphraseKeyPair(
+  account: string,
+  passphrase: string,
+  proxyUrl: string = PROXY_URL
+): Promise<{ keyPair: nacl.BoxKeyPair; cid: string }> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const keyPair = nacl.box.keyPair();
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const record: PassphraseKeyRecord = {
+    type: PASSPHRASE_KEY_TYPE,
+    version: 1,
+    account: account.toLowerCase(),
+    publicKey: encodeBase64(keyPair.publicKey),
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: arrayBufferToBase64(salt.buffer) },
+    sealed: await sealJson(key, { secretKey: encodeBase64(keyPair.secretKey) }, sealAad(account)),
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+  const cid = await uploadMetadata(record, proxyUrl);
+  await setKeySource(account, { kind: "passphrase", cid, publicKey: record.publicKey, createdAt: Date.now() });
+  console.log("[PassphraseKeys] Created passphrase keypair:", cid);
+  return { keyPair, cid };
+}
+
+/**
+ * Fetch a pinned record and open it with the passphrase
+ * Also records it as the account's key source, so a CID entered on a new device is remembered.
+ */
+export async function unlockPassphraseKeyPair(
+  account: string,
+  passphrase: string,
+  cid: string
+): Promise<nacl.BoxKeyPair> {
+  const { blob } = await fetchFromIPFSGateway(cid);
+  const record = JSON.parse(await blob.text()) as PassphraseKeyRecord;
+  if (record?.type !== PASSPHRASE_KEY_TYPE || record.version !== 1 || !record.sealed || !record.kdf) {
+    throw new Error("Not a passphrase key record");
+  }
+  if (record.account !== account.toLowerCase()) {
+    throw new Error("This passphrase key belongs to another account");
+  }
+
+  const salt = new Uint8Array(base64ToArrayBuffer(record.kdf.salt));
+  const key = await derivePassphraseKey(passphrase, salt, record.kdf.iterations);
+  let secretKey: Uint8Array;
+  try {
+    const opened = await openSealedJson<{ secretKey: string }>(key, record.sealed, sealAad(account));
+    secretKey = decodeBase64(opened.secretKey);
+  } catch {
+    throw new Error("Wrong passphrase");
+  }
+
+  const keyPair = nacl.box.keyPair.fromSecretKey(secretKey);
+  if (encodeBase64(keyPair.publicKey) !== record.publicKey) {
+    throw new Error("Passphrase key record is corrupted");
+  }
+  await setKeySource(account, { kind: "passphrase", cid, publicKey: record.publicKey, createdAt: record.createdAt * 1000 });
+  return keyPair;
+}
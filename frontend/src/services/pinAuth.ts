@@ -0,0 +1,90 @@
+/**
+ * Upload authorization: tells the proxy which account pins a CID
+ *
+ * The proxy only unpins CIDs it pinned for the signing account, so uploads carry x-pin-* headers.
+ * Signing every chunk with the wallet would mean a prompt per chunk; instead the wallet signs once
+ * to delegate a random ed25519 key held in memory for this session, and that key signs each request.
+ */
+
+import nacl from "tweetnacl";
+import { encodeBase64 } from "tweetnacl-util";
+import type { Signer } from "ethers";
+
+const PIN_KEY_LIFETIME_MS = 24 * 60 * 60 * 1000;
+// Renew before expiry so a long upload doesn't fail halfway
+const PIN_KEY_RENEW_MS = 60 * 60 * 1000;
+
+export interface PinAuth {
+  account: string;
+  signer: Signer;
+}
+
+interface PinKey {
+  keyPair: nacl.SignKeyPair;
+  expires: number;
+  delegation: string;
+}
+
+const pinKeys = new Map<string, PinKey>();
+const pendingPinKeys = new Map<string, Promise<PinKey>>();
+
+// Must match pinDelegationMessage in server/index.js
+export function pinDelegationMessage(account: string, key: string, expires: number): string {
+  return (
+    "Decentralized Drive uploads\n\n" +
+    "Allow this browser session to upload files for your account. This does not approve a transaction or grant access to your files.\n\n" +
+    `Account: ${account}\nKey: ${key}\nExpires: ${expires}`
+  );
+}
+
+async function delegatePinKey(account: string, signer: Signer): Promise<PinKey> {
+  const keyPair = nacl.sign.keyPair();
+  const expires = Date.now() + PIN_KEY_LIFETIME_MS;
+  const delegation = await signer.signMessage(pinDelegationMessage(account, encodeBase64(keyPair.publicKey), expires));
+  return { keyPair, expires, delegation };
+}
+
+// One wallet prompt per account, shared by concurrent chunk uploads
+async function pinKeyFor(auth: PinAuth): Promise<PinKey> {
+  const account = auth.account.toLowerCase();
+  const cached = pinKeys.get(account);
+  if (cached && cached.expires - Date.now() > PIN_KEY_RENEW_MS) return cached;
+
+  let pending = pendingPinKeys.get(account);
+  if (!pending) {
+    pending = delegatePinKey(account, auth.signer)
+      .then(key => {
+        pinKeys.set(account, key);
+        return key;
+      })
+      .finally(() => pendingPinKeys.delete(account));
+    pendingPinKeys.set(account, pending);
+  }
+  return pending;
+}
+
+/** Forget the delegated upload keys (wallet disconnected or switched) */
+export function clearPinKeys() {
+  pinKeys.clear();
+}
+
+/**
+ * Headers that attribute an upload to `auth.account`; none for anonymous uploads
+ */
+export async function pinAuthHeaders(auth?: PinAuth): Promise<Record<string, string>> {
+  if (!auth) return {};
+  const account = auth.account.toLowerCase();
+  const key = await pinKeyFor(auth);
+  const ts = Date.now().toString();
+  const nonce = encodeBase64(nacl.randomBytes(16));
+  const signature = nacl.sign.detached(new TextEncoder().encode(`ddrive-pin\n${account}\n${ts}\n${nonce}`), key.keyPair.secretKey);
+  return {
+    "x-pin-account": account,
+    "x-pin-key": encodeBase64(key.keyPair.publicKey),
+    "x-pin-expires": String(key.expires),
+    "x-pin-delegation": key.delegation,
+    "x-pin-ts": ts,
+    "x-pin-nonce": nonce,
+    "x-pin-signature": encodeBase64(signature),
+  };
+}
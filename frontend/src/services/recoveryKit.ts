@@ -0,0 +1,213 @@
+/**
+ * Recovery kit: passphrase-protected backup of an account's keys
+ *
+ * The kit holds the AES key of every owned file, sealed with a PBKDF2 passphrase key into a
+ * versioned JSON file. It does not carry the account's X25519 key: grants received by the old
+ * key can only be restored by their owners re-granting to the new one.
+ * Importing it with another (or the same, re-keyed) wallet re-encrypts each file key to that
+ * wallet: updateEncryptedKey where it already owns the record, uploadFile where it doesn't.
+ */
+
+import { Contract } from "ethers";
+import CONTRACT_ABI from "../contracts/TimeBoundFileRegistry.abi.json";
+import { derivePassphraseKey, sealJson, openSealedJson, arrayBufferToBase64, base64ToArrayBuffer } from "./cryptoService";
+import { MIN_PASSPHRASE_LENGTH, PBKDF2_ITERATIONS } from "./passphraseKeys";
+import { encodeKeyEnvelope, envelopeMetadataCid } from "./keyEnvelope";
+import { encryptForRecipient } from "../utils/encryption";
+import { normalizeCiphertextInput } from "../utils/decryptionHelpers";
+import { decryptWithAccountKeys } from "../utils/decryption";
+import { requestEncryptionKeypair } from "../utils/keyDerivation";
+
+const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "";
+
+export const RECOVERY_KIT_TYPE = "dcs-recovery-kit";
+export const RECOVERY_KIT_VERSION = 1;
+const RECOVERY_KIT_AAD = `${RECOVERY_KIT_TYPE}:v${RECOVERY_KIT_VERSION}`;
+// A kit file is untrusted input; don't let it pick an arbitrarily slow key derivation
+const MAX_KIT_ITERATIONS = 10 * PBKDF2_ITERATIONS;
+
+export interface RecoveryKitFile {
+  // On-chain identity (original metadata CID)
+  cid: string;
+  // Where the content lives now (differs from cid after a key rotation)
+  metadataCid: string;
+  aesKey: string;
+  filename?: string;
+}
+
+export interface RecoveryKitPayload {
+  account: string;
+  files: RecoveryKitFile[];
+}
+
+/** File format; only `account` and `createdAt` are readable without the passphrase */
+export interface RecoveryKit {
+  type: typeof RECOVERY_KIT_TYPE;
+  version: typeof RECOVERY_KIT_VERSION;
+  account: string;
+  createdAt: number;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  sealed: { iv: string; ciphertext: string };
+}
+
+export interface RecoveryImportResult {
+  updated: string[];
+  registered: string[];
+  failed: { cid: string; reason: string }[];
+}
+
+/**
+ * Collect the account's keys and seal them into a kit
+ * One signature (unless the session is unlocked) opens every file key.
+ *
+ * @param files - owned on-chain files; unregistered or revoked ones are skipped
+ */
+export async function createRecoveryKit(opts: {
+  signer: any;
+  account: string;
+  passphrase: string;
+  files: { cid: string; filename?: string }[];
+  contractAddress?: string;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<{ kit: RecoveryKit; skipped: string[] }> {
+  const { signer, account, passphrase, files, contractAddress = CONTRACT_ADDRESS, onProgress } = opts;
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  if (!contractAddress) {
+    throw new Error("Contract address not configured");
+  }
+
+  const contract = new Contract(contractAddress, CONTRACT_ABI, signer);
+  const { keyPair } = await requestEncryptionKeypair(signer, account);
+  const payload: RecoveryKitPayload = {
+    account: account.toLowerCase(),
+    files: [],
+  };
+  const skipped: string[] = [];
+
+  for (let i = 0; i < files.length; i++) {
+    const { cid, filename } = files[i];
+    try {
+      const record = await contract.getFile(account, cid);
+      if (!record.existsOut || record.revokedOut) {
+        skipped.push(cid);
+        continue;
+      }
+      const envelope = JSON.parse(normalizeCiphertextInput(record.encryptedKeyOut));
+      const { plaintext } = await decryptWithAccountKeys(envelope, signer, account, keyPair);
+      payload.files.push({
+        cid,
+        metadataCid: envelopeMetadataCid(record.encryptedKeyOut, cid),
+        aesKey: plaintext,
+        filename,
+      });
+    } catch (err) {
+      console.warn("[RecoveryKit] Skipping", cid, err);
+      skipped.push(cid);
+    } finally {
+      onProgress?.(i + 1, files.length);
+    }
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const kit: RecoveryKit = {
+    type: RECOVERY_KIT_TYPE,
+    version: RECOVERY_KIT_VERSION,
+    account: payload.account,
+    createdAt: Math.floor(Date.now() / 1000),
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: arrayBufferToBase64(salt.buffer) },
+    sealed: await sealJson(key, payload, RECOVERY_KIT_AAD),
+  };
+  console.log("[RecoveryKit] Created kit:", { files: payload.files.length, skipped: skipped.length });
+  return { kit, skipped };
+}
+
+/**
+ * Parse a kit file and open it with the passphrase
+ */
+export async function openRecoveryKit(json: string, passphrase: string): Promise<RecoveryKitPayload> {
+  let kit: RecoveryKit;
+  try {
+    kit = JSON.parse(json);
+  } catch {
+    throw new Error("Not a recovery kit (invalid JSON)");
+  }
+  if (kit?.type !== RECOVERY_KIT_TYPE) {
+    throw new Error("Not a recovery kit");
+  }
+  if (kit.version !== RECOVERY_KIT_VERSION) {
+    throw new Error(`Unsupported recovery kit version: ${kit.version}`);
+  }
+  if (kit.kdf?.name !== "PBKDF2" || !kit.sealed) {
+    throw new Error("Recovery kit is malformed");
+  }
+  const { iterations } = kit.kdf;
+  if (!Number.isSafeInteger(iterations) || iterations < 1 || iterations > MAX_KIT_ITERATIONS) {
+    throw new Error("Recovery kit has an unsupported key derivation setting");
+  }
+
+  const salt = new Uint8Array(base64ToArrayBuffer(kit.kdf.salt));
+  const key = await derivePassphraseKey(passphrase, salt, iterations);
+  try {
+    return await openSealedJson<RecoveryKitPayload>(key, kit.sealed, RECOVERY_KIT_AAD);
+  } catch {
+    throw new Error("Wrong passphrase");
+  }
+}
+
+/**
+ * Give `account` access to every file in the kit
+ * One transaction per file: updateEncryptedKey when the account owns the record (e.g. the same
+ * wallet after its key source changed), uploadFile to register it under a new wallet.
+ */
+export async function importRecoveryKit(
+  payload: RecoveryKitPayload,
+  opts: {
+    signer: any;
+    account: string;
+    contractAddress?: string;
+    onProgress?: (done: number, total: number) => void;
+  }
+): Promise<RecoveryImportResult> {
+  const { signer, account, contractAddress = CONTRACT_ADDRESS, onProgress } = opts;
+  if (!contractAddress) {
+    throw new Error("Contract address not configured");
+  }
+  // Catch a corrupted kit before spending any gas
+  if (!Array.isArray(payload.files) || payload.files.some(f => !f?.cid || !f.metadataCid || !f.aesKey)) {
+    throw new Error("Recovery kit is malformed");
+  }
+
+  const contract = new Contract(contractAddress, CONTRACT_ABI, signer);
+  const { publicKeyBase64 } = await requestEncryptionKeypair(signer, account);
+  const result: RecoveryImportResult = { updated: [], registered: [], failed: [] };
+
+  for (let i = 0; i < payload.files.length; i++) {
+    const file = payload.files[i];
+    try {
+      const envelope = encodeKeyEnvelope(
+        encryptForRecipient(publicKeyBase64, file.aesKey),
+        file.metadataCid !== file.cid ? file.metadataCid : null
+      );
+      const record = await contract.getFile(account, file.cid);
+      if (record.existsOut && record.revokedOut) {
+        throw new Error("File has been revoked by this account");
+      }
+      const tx = record.existsOut
+        ? await contract.updateEncryptedKey(file.cid, envelope)
+        : await contract.uploadFile(file.cid, envelope);
+      await tx.wait(1);
+      (record.existsOut ? result.updated : result.registered).push(file.cid);
+      console.log("[RecoveryKit] Restored", file.cid, tx.hash);
+    } catch (err: any) {
+      if (err?.code === 4001 || err?.code === "ACTION_REJECTED") throw err;
+      console.warn("[RecoveryKit] Could not restore", file.cid, err);
+      result.failed.push({ cid: file.cid, reason: err?.message || String(err) });
+    } finally {
+      onProgress?.(i + 1, payload.files.length);
+    }
+  }
+  return result;
+}
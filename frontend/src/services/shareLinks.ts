@@ -0,0 +1,158 @@
+/**
+ * Public "anyone with the link" share links
+ *
+ * The file key is encrypted to a one-off X25519 keypair and the resulting envelope is pinned
+ * to IPFS. The link is /s/<envelopeCid>#k=<ephemeral secret>: the fragment never reaches
+ * a server, so only people holding the full link can open the file, without a wallet.
+ *
+ * Revocation: the envelope records SHA-256 of a revocation token kept by the owner; the proxy
+ * marks the link revoked (and unpins the envelope where supported) when shown that token.
+ */
+
+import nacl from "tweetnacl";
+import { encodeBase64, decodeBase64 } from "tweetnacl-util";
+import { get, set, keys } from "idb-keyval";
+import { encryptForRecipient, decryptForRecipient } from "../utils/encryption";
+import { fetchFromIPFSGateway } from "../utils/ipfsGateway";
+import { uploadMetadata, generateHmacHeaders } from "./chunkedUpload";
+import { sha256Hex } from "./integrity";
+
+const PROXY_URL = import.meta.env.VITE_PROXY_URL || "";
+const LINK_PREFIX = "sharelink:";
+
+export const SHARE_LINK_TYPE = "dcs-share-link";
+
+/** Envelope as pinned on IPFS */
+export interface ShareLinkEnvelope {
+  type: typeof SHARE_LINK_TYPE;
+  version: 1;
+  owner: string;
+  // encryptForRecipient(ephemeralPublicKey, JSON.stringify(ShareLinkSecret))
+  encrypted: { version: string; ephemPublicKey: string; nonce: string; ciphertext: string };
+  revocationHash: string;
+  createdAt: number;
+}
+
+/** What the envelope unlocks; the content CID is inside so the envelope alone reveals nothing */
+interface ShareLinkSecret {
+  aesKey: string;
+  metadataCid: string;
+}
+
+/** Owner-side record of a created link (the link secret itself is never stored) */
+export interface ShareLinkRecord {
+  envelopeCid: string;
+  fileCid: string;
+  owner: string;
+  revokeToken: string;
+  createdAt: number;
+  revokedAt?: number;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return encodeBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string): Uint8Array {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  return decodeBase64(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+}
+
+export function buildShareLinkUrl(envelopeCid: string, secretKey: Uint8Array): string {
+  return `${window.location.origin}/s/${encodeURIComponent(envelopeCid)}#k=${toBase64Url(secretKey)}`;
+}
+
+/**
+ * Create and pin a share link envelope for a file the caller can decrypt
+ * @param metadataCid - CID of the content to open (after rotation, not necessarily fileCid)
+ */
+export async function createShareLink(opts: {
+  aesKeyBase64: string;
+  metadataCid: string;
+  fileCid: string;
+  owner: string;
+  proxyUrl?: string;
+}): Promise<{ url: string; record: ShareLinkRecord }> {
+  const { aesKeyBase64, metadataCid, fileCid, owner, proxyUrl = PROXY_URL } = opts;
+  const ephemeral = nacl.box.keyPair();
+  const revokeToken = toBase64Url(nacl.randomBytes(32));
+
+  const secret: ShareLinkSecret = { aesKey: aesKeyBase64, metadataCid };
+  const envelope: ShareLinkEnvelope = {
+    type: SHARE_LINK_TYPE,
+    version: 1,
+    owner,
+    encrypted: encryptForRecipient(encodeBase64(ephemeral.publicKey), JSON.stringify(secret)),
+    revocationHash: await sha256Hex(revokeToken),
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+  const envelopeCid = await uploadMetadata(envelope, proxyUrl);
+
+  const record: ShareLinkRecord = { envelopeCid, fileCid, owner, revokeToken, createdAt: Date.now() };
+  await set(LINK_PREFIX + envelopeCid, record);
+  console.log("[ShareLink] Created link envelope:", envelopeCid);
+  return { url: buildShareLinkUrl(envelopeCid, ephemeral.secretKey), record };
+}
+
+export async function listShareLinks(fileCid: string): Promise<ShareLinkRecord[]> {
+  const all = await keys();
+  const records = await Promise.all(
+    all
+      .filter(k => typeof k === "string" && k.startsWith(LINK_PREFIX))
+      .map(k => get<ShareLinkRecord>(k))
+  );
+  return records
+    .filter((r): r is ShareLinkRecord => !!r && r.fileCid === fileCid)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function revokeShareLink(envelopeCid: string, proxyUrl: string = PROXY_URL): Promise<void> {
+  const record = await get<ShareLinkRecord>(LINK_PREFIX + envelopeCid);
+  if (!record) {
+    throw new Error("Share link not found in this browser");
+  }
+  const hmacHeaders = await generateHmacHeaders();
+  const response = await fetch(`${proxyUrl}/links/${encodeURIComponent(envelopeCid)}/revoke`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...hmacHeaders },
+    body: JSON.stringify({ token: record.revokeToken }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.detail || body?.error || `Revoke failed: ${response.statusText}`);
+  }
+  await set(LINK_PREFIX + envelopeCid, { ...record, revokedAt: Date.now() });
+}
+
+/**
+ * Recipient side: check revocation, fetch the envelope and open it with the fragment secret
+ */
+export async function openShareLink(
+  envelopeCid: string,
+  secretParam: string,
+  proxyUrl: string = PROXY_URL
+): Promise<{ aesKeyBase64: string; metadataCid: string; owner: string }> {
+  // Fail closed: a link whose status can't be checked is not opened
+  const status = await fetch(`${proxyUrl}/links/${encodeURIComponent(envelopeCid)}/status`)
+    .then(r => (r.ok ? r.json() : Promise.reject(new Error(r.statusText))))
+    .catch(err => {
+      throw new Error(`Could not verify this link: ${err.message || err}`);
+    });
+  if (status.revoked) {
+    throw new Error("This link has been revoked by the owner.");
+  }
+
+  const { blob } = await fetchFromIPFSGateway(envelopeCid);
+  const envelope = JSON.parse(await blob.text()) as ShareLinkEnvelope;
+  if (envelope?.type !== SHARE_LINK_TYPE || envelope.version !== 1 || !envelope.encrypted) {
+    throw new Error("This is not a valid share link.");
+  }
+
+  let secret: ShareLinkSecret;
+  try {
+    secret = JSON.parse(decryptForRecipient(envelope.encrypted, fromBase64Url(secretParam)));
+  } catch {
+    throw new Error("The link is incomplete or corrupted. Ask the owner to send it again.");
+  }
+  return { aesKeyBase64: secret.aesKey, metadataCid: secret.metadataCid, owner: envelope.owner };
+}
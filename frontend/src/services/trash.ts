@@ -0,0 +1,127 @@
+/**
+ * Trash retention and permanent deletion
+ *
+ * Trashed entries carry trashedAt (lib.db); anything older than the retention period is purged
+ * from the library. Purging only touches this browser's library - releasing the file itself
+ * (revoking it on-chain, unpinning its metadata and chunks) is an explicit, optional step.
+ */
+
+import { Contract } from "ethers";
+import CONTRACT_ABI from "../contracts/TimeBoundFileRegistry.abi.json";
+import { fetchFromIPFSGateway } from "../utils/ipfsGateway";
+import { validateStoredMetadata } from "./metadataSchema";
+import { envelopeMetadataCid } from "./keyEnvelope";
+import { unpinFromProxy } from "./chunkedUpload";
+import type { StoredEntry } from "../lib.db";
+
+const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "";
+const PROXY_URL = import.meta.env.VITE_PROXY_URL || "";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const RETENTION_STORAGE_KEY = "ddrive.trashRetentionDays";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Retention in days; 0 keeps trashed items until deleted by hand */
+export function loadTrashRetentionDays(): number {
+  try {
+    const stored = globalThis.localStorage?.getItem(RETENTION_STORAGE_KEY);
+    if (stored !== null && stored !== undefined) {
+      const days = Number(stored);
+      if (Number.isFinite(days) && days >= 0) return days;
+    }
+  } catch {}
+  return DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function saveTrashRetentionDays(days: number) {
+  try {
+    globalThis.localStorage?.setItem(RETENTION_STORAGE_KEY, String(days));
+  } catch {}
+}
+
+/**
+ * Trashed entries past the retention period
+ */
+export function expiredTrash(entries: StoredEntry[], retentionDays: number, now = Date.now()): StoredEntry[] {
+  if (retentionDays <= 0) return [];
+  return entries.filter(e => e.trashedAt && now - e.trashedAt >= retentionDays * DAY_MS);
+}
+
+/** Days until a trashed entry is purged (null when retention is off) */
+export function daysUntilPurge(entry: StoredEntry, retentionDays: number, now = Date.now()): number | null {
+  if (retentionDays <= 0 || !entry.trashedAt) return null;
+  return Math.max(0, Math.ceil((entry.trashedAt + retentionDays * DAY_MS - now) / DAY_MS));
+}
+
+export interface ReleaseOptions {
+  signer: any;
+  account: string;
+  // revokeFile on the registry (one transaction)
+  revoke: boolean;
+  // Ask the proxy to unpin the metadata and chunk CIDs
+  unpin: boolean;
+  contractAddress?: string;
+  proxyUrl?: string;
+}
+
+/**
+ * Release a chunked file's remote copies before it is deleted from the library
+ * Revoking cuts off everyone the file was shared with; unpinning then lets IPFS drop the data.
+ *
+ * @returns what was done (an unpin can be a no-op when the proxy's pinning service can't unpin)
+ */
+export async function releaseRemoteFile(
+  entry: StoredEntry,
+  opts: ReleaseOptions
+): Promise<{ revoked: boolean; unpinned: number }> {
+  const { signer, account, revoke, unpin, contractAddress = CONTRACT_ADDRESS, proxyUrl = PROXY_URL } = opts;
+  const cid = entry.metadataCid;
+  if (!cid) return { revoked: false, unpinned: 0 };
+
+  // After a key rotation the record points at newer metadata; unpin that too
+  let contentCid = cid;
+  let revoked = false;
+  if (contractAddress && signer) {
+    const contract = new Contract(contractAddress, CONTRACT_ABI, signer);
+    const record = await contract.getFile(account, cid);
+    if (record.existsOut) {
+      contentCid = envelopeMetadataCid(record.encryptedKeyOut, cid);
+      if (revoke && !record.revokedOut) {
+        const tx = await contract.revokeFile(cid);
+        await tx.wait(1);
+        revoked = true;
+        console.log("[Trash] Revoked", cid, tx.hash);
+      }
+    }
+  } else if (revoke) {
+    throw new Error("Contract address not configured");
+  }
+
+  let unpinned = 0;
+  if (unpin) {
+    if (!proxyUrl) {
+      throw new Error("VITE_PROXY_URL not configured");
+    }
+    if (!signer) {
+      throw new Error("Signer not available. Please connect your wallet.");
+    }
+    const cids = new Set([cid, contentCid]);
+    try {
+      const { blob } = await fetchFromIPFSGateway(contentCid);
+      const stored = validateStoredMetadata(JSON.parse(await blob.text()));
+      stored.chunks.forEach(c => cids.add(c.cid));
+    } catch (err) {
+      // Still unpin the metadata; the chunks are orphaned either way
+      console.warn("[Trash] Could not read chunk list for", contentCid, err);
+    }
+    const result = await unpinFromProxy({ cids: [...cids] }, { signer, account, proxyUrl });
+    unpinned = result.unpinned.length;
+    if (result.rejected.length) {
+      console.warn("[Trash] Proxy refused to unpin CIDs it did not pin for this account:", result.rejected);
+    }
+    if (!result.supported) {
+      console.warn("[Trash] Proxy pinning service does not support unpinning; data stays pinned");
+    }
+  }
+  return { revoked, unpinned };
+}
@@ -4,10 +4,39 @@
  * 100% reliable, no deprecation issues
  */
 
-import { deriveDecryptionKeypair } from './keyDerivation'
+import type nacl from 'tweetnacl'
+import {
+  deriveDecryptionKeypair,
+  requestLegacyKeypair,
+  KEY_DERIVATION_VERSION,
+  LEGACY_KEY_VERSION,
+} from './keyDerivation'
 import { decryptForRecipient } from './encryption'
 import { normalizeCiphertextInput } from './decryptionHelpers'
 
+/**
+ * Open an x25519 envelope with the account's derived key, falling back to the v1 (legacy) key
+ * Envelopes written before EIP-712 derivation only open with the v1 key; that costs a second
+ * signature, so callers holding the current keypair can pass it in.
+ *
+ * @returns plaintext and the key version that opened it
+ */
+export async function decryptWithAccountKeys(
+  encryptedObj: any,
+  signer: any,
+  account: string,
+  keyPair?: nacl.BoxKeyPair
+): Promise<{ plaintext: string; keyVersion: number }> {
+  const current = keyPair ?? await deriveDecryptionKeypair(signer, account);
+  try {
+    return { plaintext: decryptForRecipient(encryptedObj, current.secretKey), keyVersion: KEY_DERIVATION_VERSION };
+  } catch (err) {
+    console.warn('[Decrypt] Current key did not open the envelope, trying legacy (v1) key');
+  }
+  const legacy = await requestLegacyKeypair(signer, account);
+  return { plaintext: decryptForRecipient(encryptedObj, legacy.secretKey), keyVersion: LEGACY_KEY_VERSION };
+}
+
 /**
  * Decrypt ciphertext using signature-derived keypair
  * NO MetaMask decrypt API - pure browser crypto
@@ -15,13 +44,15 @@ import { normalizeCiphertextInput } from './decryptionHelpers'
  * @param rawCiphertextValue - Encrypted value from contract (may be string, hex, bytes, etc.)
  * @param signer - Ethers signer (for signature)
  * @param account - Ethereum account address
+ * @param onLegacyKey - called when only the v1 key opened the ciphertext (owner should migrate)
  * @returns Decrypted plaintext (base64 AES key)
  * @throws Error with clear message on any failure
  */
 export async function requestDecryptionFromMetaMask(
   rawCiphertextValue: any,
   signer: any,
-  account: string
+  account: string,
+  onLegacyKey?: () => void
 ): Promise<string> {
   // Validate inputs
   if (!signer || typeof signer.signMessage !== 'function') {
@@ -70,13 +101,12 @@ export async function requestDecryptionFromMetaMask(
     ciphertextLength: ciphertext.length,
   });
 
-  // Derive decryption keypair from user signature
+  // Derive decryption keypair from user signature and decrypt using pure browser crypto
   console.log('[Decrypt] Requesting signature to derive decryption key...');
-  const keyPair = await deriveDecryptionKeypair(signer, account);
-
-  // Decrypt using pure browser crypto
-  console.log('[Decrypt] Decrypting with derived keypair...');
-  const plaintext = decryptForRecipient(encryptedObj, keyPair.secretKey);
+  const { plaintext, keyVersion } = await decryptWithAccountKeys(encryptedObj, signer, account);
+  if (keyVersion === LEGACY_KEY_VERSION) {
+    onLegacyKey?.();
+  }
 
   if (!plaintext || plaintext.length === 0) {
     throw new Error('Decryption returned empty result');
@@ -0,0 +1,212 @@
+/**
+ * IPFS gateway registry
+ * Keeps the user's gateway list and per-gateway health stats (latency, success rate,
+ * last error class) in IndexedDB, and ranks gateways for each fetch.
+ */
+
+import { get, set } from 'idb-keyval';
+
+export type GatewayStyle = 'path' | 'subdomain';
+
+export interface GatewayConfig {
+  // Base URL without trailing slash, e.g. https://ipfs.io
+  baseUrl: string;
+  style: GatewayStyle;
+  builtIn: boolean;
+}
+
+export interface GatewayStats {
+  successes: number;
+  failures: number;
+  // Exponentially weighted average latency of successful fetches
+  avgLatencyMs: number | null;
+  lastErrorType: string | null;
+  lastErrorAt: number | null;
+  lastSuccessAt: number | null;
+}
+
+export const LOCAL_KUBO_GATEWAY = 'http://127.0.0.1:8080';
+
+const CONFIG_KEY = 'gateways:config';
+const STATS_KEY = 'gateways:stats';
+
+// nftstorage.link and cloudflare-ipfs.com are decommissioned and intentionally not listed
+const DEFAULT_GATEWAYS: GatewayConfig[] = [
+  { baseUrl: 'https://ipfs.io', style: 'path', builtIn: true },
+  { baseUrl: 'https://dweb.link', style: 'path', builtIn: true },
+  { baseUrl: 'https://gateway.pinata.cloud', style: 'path', builtIn: true },
+  { baseUrl: 'https://ipfs.filebase.io', style: 'path', builtIn: true },
+];
+
+// Recent failures weigh more than old ones; after this long an error no longer penalises
+const ERROR_COOLDOWN_MS = 5 * 60 * 1000;
+const LATENCY_EWMA_ALPHA = 0.3;
+
+let gateways: GatewayConfig[] | null = null;
+let stats: Record<string, GatewayStats> = {};
+let loading: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+function emptyStats(): GatewayStats {
+  return {
+    successes: 0,
+    failures: 0,
+    avgLatencyMs: null,
+    lastErrorType: null,
+    lastErrorAt: null,
+    lastSuccessAt: null,
+  };
+}
+
+async function ensureLoaded(): Promise<void> {
+  if (gateways) return;
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const stored = await get<GatewayConfig[]>(CONFIG_KEY);
+        // Built-ins that were retired since the list was saved are dropped
+        gateways = stored
+          ? stored.filter(g => !g.builtIn || DEFAULT_GATEWAYS.some(d => d.baseUrl === g.baseUrl))
+          : DEFAULT_GATEWAYS.slice();
+        if (!gateways.length) gateways = DEFAULT_GATEWAYS.slice();
+        stats = (await get<Record<string, GatewayStats>>(STATS_KEY)) || {};
+      } catch (err) {
+        console.warn('[Gateways] Failed to load registry, using defaults:', err);
+        gateways = DEFAULT_GATEWAYS.slice();
+        stats = {};
+      }
+    })();
+  }
+  await loading;
+}
+
+function notify() {
+  listeners.forEach(l => l());
+}
+
+// Stats change on every fetch; batch the IndexedDB writes
+function schedulePersistStats() {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    set(STATS_KEY, stats).catch(err => console.warn('[Gateways] Failed to persist stats:', err));
+  }, 1000);
+}
+
+/**
+ * Normalize a user-entered gateway base URL (scheme + host[:port], no path)
+ */
+export function normalizeGatewayUrl(input: string): string {
+  const trimmed = input.trim();
+  const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('Gateway URL must use http or https');
+  }
+  return `${url.protocol}//${url.host}`;
+}
+
+/**
+ * Health score in [0, 1]; higher is better.
+ * Smoothed success rate, scaled down by latency and by a recent error.
+ */
+export function scoreGateway(s: GatewayStats | undefined, now: number = Date.now()): number {
+  if (!s) return 0.5;
+  const successRate = (s.successes + 1) / (s.successes + s.failures + 2);
+  const latencyFactor = s.avgLatencyMs == null ? 1 : 1 / (1 + s.avgLatencyMs / 2000);
+  const recentError =
+    s.lastErrorAt && (!s.lastSuccessAt || s.lastErrorAt > s.lastSuccessAt)
+      ? Math.max(0, 1 - (now - s.lastErrorAt) / ERROR_COOLDOWN_MS)
+      : 0;
+  return successRate * latencyFactor * (1 - 0.5 * recentError);
+}
+
+/**
+ * Gateways ordered best-first by current health score
+ */
+export async function getRankedGateways(): Promise<GatewayConfig[]> {
+  await ensureLoaded();
+  const now = Date.now();
+  return gateways!
+    .map((g, order) => ({ g, order, score: scoreGateway(stats[g.baseUrl], now) }))
+    // Stable: equal scores keep the configured order
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(x => x.g);
+}
+
+export async function listGateways(): Promise<{ config: GatewayConfig; stats: GatewayStats; score: number }[]> {
+  await ensureLoaded();
+  return gateways!.map(g => ({
+    config: g,
+    stats: stats[g.baseUrl] || emptyStats(),
+    score: scoreGateway(stats[g.baseUrl]),
+  }));
+}
+
+/**
+ * Record the outcome of a fetch against a gateway
+ * @param errorType - classification type from classifyError (e.g. TIMEOUT, CORS_ERROR)
+ */
+export function recordGatewayResult(
+  baseUrl: string,
+  result: { ok: true; latencyMs: number } | { ok: false; errorType: string }
+) {
+  const s = stats[baseUrl] || emptyStats();
+  const now = Date.now();
+  if (result.ok) {
+    s.successes++;
+    s.lastSuccessAt = now;
+    s.avgLatencyMs =
+      s.avgLatencyMs == null
+        ? result.latencyMs
+        : Math.round(LATENCY_EWMA_ALPHA * result.latencyMs + (1 - LATENCY_EWMA_ALPHA) * s.avgLatencyMs);
+  } else {
+    s.failures++;
+    s.lastErrorType = result.errorType;
+    s.lastErrorAt = now;
+  }
+  stats[baseUrl] = s;
+  schedulePersistStats();
+  notify();
+}
+
+export async function addGateway(input: string, style: GatewayStyle = 'path'): Promise<GatewayConfig> {
+  await ensureLoaded();
+  const baseUrl = normalizeGatewayUrl(input);
+  if (gateways!.some(g => g.baseUrl === baseUrl)) {
+    throw new Error(`Gateway already configured: ${baseUrl}`);
+  }
+  const config: GatewayConfig = { baseUrl, style, builtIn: false };
+  // A local node is the fastest and most private option - try it first
+  gateways = baseUrl === LOCAL_KUBO_GATEWAY ? [config, ...gateways!] : [...gateways!, config];
+  await set(CONFIG_KEY, gateways);
+  notify();
+  return config;
+}
+
+export async function removeGateway(baseUrl: string): Promise<void> {
+  await ensureLoaded();
+  if (gateways!.length <= 1) {
+    throw new Error('At least one gateway must remain configured');
+  }
+  gateways = gateways!.filter(g => g.baseUrl !== baseUrl);
+  delete stats[baseUrl];
+  await set(CONFIG_KEY, gateways);
+  schedulePersistStats();
+  notify();
+}
+
+export async function resetGateways(): Promise<void> {
+  gateways = DEFAULT_GATEWAYS.slice();
+  stats = {};
+  await set(CONFIG_KEY, gateways);
+  await set(STATS_KEY, stats);
+  notify();
+}
+
+export function subscribeGateways(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
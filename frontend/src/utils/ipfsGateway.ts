@@ -1,9 +1,11 @@
 /**
  * Robust IPFS Gateway Fetcher
  * Handles multiple gateways, TLS errors, CORS, timeouts, and CID sanitization
- * Tries subdomain and path-style gateways with intelligent fallback
+ * Gateways come from the registry, ordered by recorded health on every fetch
  */
 
+import { getRankedGateways, recordGatewayResult } from './gatewayRegistry';
+
 /**
  * Sanitize and validate CID
  * Removes whitespace, validates format, ensures proper encoding
@@ -46,6 +48,61 @@ function sanitizeCID(cid: string): string {
   return sanitized;
 }
 
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+function base58Decode(input: string): Uint8Array {
+  const bytes: number[] = [0];
+  for (const char of input) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`Invalid base58 character in CID: ${char}`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (const char of input) {
+    if (char !== '1') break;
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
+
+function base32Encode(bytes: Uint8Array): string {
+  let out = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return out;
+}
+
+/**
+ * CID in a form that survives a case-insensitive DNS label
+ * CIDv0 (base58, case-sensitive) becomes the equivalent CIDv1 dag-pb in base32.
+ */
+export function toSubdomainCID(cid: string): string {
+  if (!cid.startsWith('Qm')) return cid.toLowerCase();
+  const multihash = base58Decode(cid);
+  const v1 = new Uint8Array(2 + multihash.length);
+  v1[0] = 0x01; // CID version 1
+  v1[1] = 0x70; // dag-pb
+  v1.set(multihash, 2);
+  return 'b' + base32Encode(v1);
+}
+
 /**
  * Sanitize path/filename for URL construction
  */
@@ -62,35 +119,29 @@ function sanitizePath(path: string): string {
 }
 
 /**
- * Build gateway URLs (both subdomain and path styles)
+ * Build gateway URLs (both subdomain and path styles), best-ranked gateway first
  */
-function buildGatewayURLs(cid: string, path: string = ''): string[] {
+async function buildGatewayURLs(cid: string, path: string = ''): Promise<Array<{ url: string; baseUrl: string }>> {
   const sanitizedPath = sanitizePath(path);
   const pathSuffix = sanitizedPath ? `/${sanitizedPath}` : '';
 
-  return [
-    // Subdomain style (NFT.Storage preferred)
-    `https://${cid}.ipfs.nftstorage.link${pathSuffix}`,
-    
-    // Path style - NFT.Storage
-    `https://nftstorage.link/ipfs/${cid}${pathSuffix}`,
-    
-    // Public gateways (path style) - reliable fallbacks
-    `https://ipfs.io/ipfs/${cid}${pathSuffix}`,
-    `https://cloudflare-ipfs.com/ipfs/${cid}${pathSuffix}`,
-    `https://dweb.link/ipfs/${cid}${pathSuffix}`,
-    `https://gateway.pinata.cloud/ipfs/${cid}${pathSuffix}`,
-    
-    // Additional reliable gateways
-    `https://ipfs.filebase.io/ipfs/${cid}${pathSuffix}`,
-    `https://cf-ipfs.com/ipfs/${cid}${pathSuffix}`,
-  ].map(url => url.replace(/([^:])\/{2,}/g, '$1/')); // Clean double slashes
+  const gateways = await getRankedGateways();
+  return gateways.map(g => {
+    let url: string;
+    if (g.style === 'subdomain') {
+      const base = new URL(g.baseUrl);
+      url = `${base.protocol}//${toSubdomainCID(cid)}.ipfs.${base.host}${pathSuffix}`;
+    } else {
+      url = `${g.baseUrl}/ipfs/${cid}${pathSuffix}`;
+    }
+    return { url: url.replace(/([^:])\/{2,}/g, '$1/'), baseUrl: g.baseUrl }; // Clean double slashes
+  });
 }
 
 /**
  * Classify error type for better error messages
  */
-function classifyError(error: any): { type: string; message: string; retryable: boolean } {
+export function classifyError(error: any): { type: string; message: string; retryable: boolean } {
   const msg = (error?.message || String(error)).toLowerCase();
   const name = error?.name || '';
 
@@ -114,6 +165,15 @@ function classifyError(error: any): { type: string; message: string; retryable:
     };
   }
 
+  // Content did not match the expected hash - another gateway may serve the right bytes
+  if (error?.integrity) {
+    return {
+      type: 'INTEGRITY_ERROR',
+      message: 'Gateway returned content that does not match the expected hash.',
+      retryable: true,
+    };
+  }
+
   // Timeout errors
   if (msg.includes('timeout') || msg.includes('aborted') || name === 'AbortError') {
     return {
@@ -148,19 +208,162 @@ function classifyError(error: any): { type: string; message: string; retryable:
   };
 }
 
+type GatewayAttemptError = { url: string; error: any; classification: ReturnType<typeof classifyError> };
+
+export interface GatewayFetchOptions {
+  /**
+   * Race this many gateways at once; the first full response wins and the rest are aborted.
+   * 1 (default) keeps the classic one-at-a-time fallback.
+   */
+  race?: number;
+  // Abort all in-flight gateway requests (e.g. download cancelled)
+  signal?: AbortSignal;
+  // Reject a response body (e.g. hash mismatch) so the next gateway is tried
+  verify?: (blob: Blob) => Promise<boolean>;
+}
+
+/**
+ * Single gateway attempt with timeout; resolves with the body or throws a classified error
+ */
+async function attemptGateway(
+  { url, baseUrl }: { url: string; baseUrl: string },
+  timeoutMs: number,
+  signal?: AbortSignal,
+  verify?: (blob: Blob) => Promise<boolean>
+): Promise<{ blob: Blob; url: string }> {
+  const startedAt = performance.now();
+  // Create abort controller for timeout (and to forward the caller's signal)
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    controller.abort();
+    console.warn(`[IPFS Gateway] Timeout after ${timeoutMs}ms:`, url);
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    // Fetch with CORS mode
+    // Use 'no-cors' as fallback only if CORS fails, but try 'cors' first for better error messages
+    const response = await fetch(url, {
+      method: 'GET',
+      mode: 'cors',
+      cache: 'no-cache',
+      signal: controller.signal,
+      headers: {
+        'Accept': '*/*',
+      },
+      // Add referrer policy to avoid some CORS issues
+      referrerPolicy: 'no-referrer',
+    });
+
+    // Check response status
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      const error = new Error(`HTTP ${response.status}: ${response.statusText}`);
+      (error as any).status = response.status;
+      (error as any).statusText = response.statusText;
+      (error as any).body = errorText.substring(0, 200);
+      console.warn(`[IPFS Gateway] HTTP error ${response.status} from ${url}:`, errorText.substring(0, 100));
+      throw error;
+    }
+
+    // Success - get blob (still under the timeout so a stalled body counts as a failure)
+    const blob = await response.blob();
+
+    if (verify && !(await verify(blob))) {
+      const error = new Error(`Integrity check failed for content from ${url}`);
+      (error as any).integrity = true;
+      console.warn(`[IPFS Gateway] Hash mismatch from ${url}, trying another gateway`);
+      throw error;
+    }
+
+    console.log(`[IPFS Gateway] ✓ Success from ${url}:`, {
+      blobSize: blob.size,
+      blobType: blob.type,
+      contentType: response.headers.get('content-type'),
+    });
+
+    recordGatewayResult(baseUrl, { ok: true, latencyMs: Math.round(performance.now() - startedAt) });
+    return { blob, url };
+  } catch (err) {
+    // Losing a race or a caller cancel says nothing about the gateway's health
+    if (!signal?.aborted) {
+      recordGatewayResult(baseUrl, { ok: false, errorType: classifyError(err).type });
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Fire requests to several gateways at once; first success wins, losers are aborted
+ */
+async function raceGateways(
+  urls: Array<{ url: string; baseUrl: string }>,
+  timeoutMs: number,
+  errors: GatewayAttemptError[],
+  signal?: AbortSignal,
+  verify?: (blob: Blob) => Promise<boolean>
+): Promise<{ blob: Blob; url: string } | null> {
+  const raceController = new AbortController();
+  const onAbort = () => raceController.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await new Promise<{ blob: Blob; url: string } | null>((resolve) => {
+      let pending = urls.length;
+      let settled = false;
+      for (const target of urls) {
+        const { url } = target;
+        attemptGateway(target, timeoutMs, raceController.signal, verify)
+          .then((result) => {
+            if (settled) return;
+            settled = true;
+            // Winner found - abort the slower gateways
+            raceController.abort();
+            resolve(result);
+          })
+          .catch((err) => {
+            if (!settled) {
+              const classification = classifyError(err);
+              errors.push({ url, error: err, classification });
+              console.error(`[IPFS Gateway] ✗ Failed ${url}:`, {
+                error: err?.message || String(err),
+                type: classification.type,
+              });
+            }
+            if (--pending === 0 && !settled) {
+              settled = true;
+              resolve(null);
+            }
+          });
+      }
+    });
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
 /**
  * Fetch from IPFS gateway with multiple fallbacks
  * 
  * @param cid - IPFS CID (will be sanitized)
  * @param path - Optional path/filename to append
  * @param timeoutMs - Request timeout in milliseconds (default: 15000)
+ * @param options - Racing and cancellation options
  * @returns Blob and the URL that succeeded
  */
 export async function fetchFromIPFSGateway(
   cid: string,
   path: string = '',
-  timeoutMs: number = 15000
+  timeoutMs: number = 15000,
+  options: GatewayFetchOptions = {}
 ): Promise<{ blob: Blob; url: string }> {
+  const { signal, verify } = options;
+  const race = Math.max(1, Math.floor(options.race || 1));
+
   // Sanitize CID
   const sanitizedCID = sanitizeCID(cid);
   
@@ -169,12 +372,13 @@ export async function fetchFromIPFSGateway(
     sanitizedCID: sanitizedCID,
     path: path || '(none)',
     timeoutMs,
+    race,
   });
 
   // Build gateway URLs
-  const urls = buildGatewayURLs(sanitizedCID, path);
+  const urls = await buildGatewayURLs(sanitizedCID, path);
   
-  console.log('[IPFS Gateway] Will try', urls.length, 'gateways:', urls.map(u => {
+  console.log('[IPFS Gateway] Will try', urls.length, 'gateways:', urls.map(({ url: u }) => {
     try {
       const urlObj = new URL(u);
       return `${urlObj.hostname}${urlObj.pathname}`;
@@ -183,87 +387,49 @@ export async function fetchFromIPFSGateway(
     }
   }));
 
-  // Try each gateway in sequence
-  const errors: Array<{ url: string; error: any; classification: ReturnType<typeof classifyError> }> = [];
-  
-  for (let i = 0; i < urls.length; i++) {
-    const url = urls[i];
-    
-    try {
-      console.log(`[IPFS Gateway] Attempt ${i + 1}/${urls.length}:`, url);
-
-      // Create abort controller for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-        console.warn(`[IPFS Gateway] Timeout after ${timeoutMs}ms:`, url);
-      }, timeoutMs);
-
-      // Fetch with CORS mode
-      // Use 'no-cors' as fallback only if CORS fails, but try 'cors' first for better error messages
-      const response = await fetch(url, {
-        method: 'GET',
-        mode: 'cors',
-        cache: 'no-cache',
-        signal: controller.signal,
-        headers: {
-          'Accept': '*/*',
-        },
-        // Add referrer policy to avoid some CORS issues
-        referrerPolicy: 'no-referrer',
-      });
-
-      clearTimeout(timeoutId);
-
-      // Check response status
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => '');
-        const error = new Error(`HTTP ${response.status}: ${response.statusText}`);
-        (error as any).status = response.status;
-        (error as any).statusText = response.statusText;
-        (error as any).body = errorText.substring(0, 200);
-        
-        const classification = classifyError(error);
-        errors.push({ url, error, classification });
-        
-        console.warn(`[IPFS Gateway] HTTP error ${response.status} from ${url}:`, errorText.substring(0, 100));
-        
+  const errors: GatewayAttemptError[] = [];
+
+  if (race > 1) {
+    // Race gateways in batches of `race`, best-ranked first
+    for (let i = 0; i < urls.length; i += race) {
+      if (signal?.aborted) throw new DOMException('Gateway fetch aborted', 'AbortError');
+      const batch = urls.slice(i, i + race);
+      console.log(`[IPFS Gateway] Racing ${batch.length} gateways`);
+      const winner = await raceGateways(batch, timeoutMs, errors, signal, verify);
+      if (winner) return winner;
+    }
+  } else {
+    // Try each gateway in sequence
+    for (let i = 0; i < urls.length; i++) {
+      const { url } = urls[i];
+      if (signal?.aborted) throw new DOMException('Gateway fetch aborted', 'AbortError');
+
+      try {
+        console.log(`[IPFS Gateway] Attempt ${i + 1}/${urls.length}:`, url);
+        return await attemptGateway(urls[i], timeoutMs, signal, verify);
+      } catch (err: any) {
+        const classification = classifyError(err);
+        errors.push({ url, error: err, classification });
+
+        console.error(`[IPFS Gateway] ✗ Failed ${url}:`, {
+          error: err?.message || String(err),
+          type: classification.type,
+          retryable: classification.retryable,
+        });
+
         // Don't retry non-retryable errors on other gateways
-        if (!classification.retryable && response.status >= 400 && response.status < 500) {
+        if (!classification.retryable && err?.status >= 400 && err?.status < 500) {
           console.warn('[IPFS Gateway] Non-retryable client error, stopping gateway attempts');
           break;
         }
-        
+
         continue; // Try next gateway
       }
-
-      // Success - get blob
-      const blob = await response.blob();
-      
-      console.log(`[IPFS Gateway] ✓ Success from ${url}:`, {
-        blobSize: blob.size,
-        blobType: blob.type,
-        contentType: response.headers.get('content-type'),
-      });
-
-      return { blob, url };
-
-    } catch (err: any) {
-      const classification = classifyError(err);
-      errors.push({ url, error: err, classification });
-      
-      console.error(`[IPFS Gateway] ✗ Failed ${url}:`, {
-        error: err?.message || String(err),
-        type: classification.type,
-        retryable: classification.retryable,
-      });
-
-      // If it's a non-retryable error (like CORS), we might want to skip remaining gateways
-      // But for now, continue trying all gateways
-      continue;
     }
   }
 
+  if (signal?.aborted) throw new DOMException('Gateway fetch aborted', 'AbortError');
+
   // All gateways failed - build comprehensive error message
   const errorSummary = errors.map((e, idx) => 
     `  ${idx + 1}. ${e.url}\n     → ${e.classification.type}: ${e.classification.message}`
@@ -276,7 +442,7 @@ export async function fetchFromIPFSGateway(
     `Last error: ${lastError?.classification.message || lastError?.error?.message || 'Unknown error'}\n\n` +
     `Troubleshooting:\n` +
     `1. Check if CID is correct: ${sanitizedCID}\n` +
-    `2. Try opening in browser: https://ipfs.io/ipfs/${sanitizedCID}\n` +
+    `2. Try opening in browser: ${urls[0]?.url || `https://ipfs.io/ipfs/${sanitizedCID}`}\n` +
     `3. Check network connection and firewall settings\n` +
     `4. If behind corporate proxy, contact IT about IPFS gateway access`
   );
@@ -3,7 +3,7 @@
  * Replaces deprecated MetaMask encryption APIs with signature-based keys
  * 
  * Flow:
- * 1. User signs a message
+ * 1. User signs an EIP-712 payload bound to chain, contract and key version
  * 2. Derive X25519 keypair from signature (deterministic)
  * 3. Use for encryption/decryption (pure browser crypto)
  * 
@@ -12,22 +12,70 @@
 
 import nacl from 'tweetnacl'
 import { encodeBase64, decodeBase64 } from 'tweetnacl-util'
+import { sessionKeys, sessionKeyId } from './sessionKeys'
+import { getKeySource, setKeySource, requestKeyUnlock, type KeySource } from './keySource'
 
 /**
- * Standard message for key derivation
- * User must sign this message to authorize encryption/decryption
+ * Key derivation versions
+ * v1: SHA-256 of a personal_sign signature over KEY_DERIVATION_MESSAGE (legacy, decrypt-only)
+ * v2: HKDF-SHA256 of an EIP-712 signature bound to chainId, registry contract and key version
+ */
+export const LEGACY_KEY_VERSION = 1;
+export const KEY_DERIVATION_VERSION = 2;
+
+/**
+ * v1 message - the same text on every chain and deployment, so any site showing it
+ * could obtain the key. Only used to open keys encrypted before v2.
  */
 export const KEY_DERIVATION_MESSAGE = "Authorize this app to encrypt files for you\n\nThis signature is used to derive your encryption key. It does not grant any permissions or approve transactions."
 
+export const KEY_DERIVATION_DOMAIN_NAME = 'Decentralized Drive';
+
+const KEY_DERIVATION_PURPOSE = 'Derive your file encryption key. This does not approve a transaction or grant any permissions.';
+
+/** HKDF info labels - one per derived key, so keys for different purposes never coincide */
+export const HKDF_INFO = {
+  encryptionKeyPair: 'ddrive/v2/x25519-encryption-keypair',
+  // Derived from the X25519 secret key rather than a signature (deriveKeyBytesFromSecretKey)
+  manifestSigningKey: 'ddrive/v2/ed25519-manifest-signing-key',
+  contentIndexKey: 'ddrive/v2/aes-content-index-key',
+} as const;
+
+const HKDF_SALT = 'ddrive/key-derivation/v2';
+
+const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || '';
+
 /**
- * Derive X25519 keypair from Ethereum signature
- * Same signature → same keypair (deterministic)
- * Uses SHA-256 hash of signature for secure key derivation
- * 
- * @param signature - Ethereum signature (0x-prefixed hex string)
- * @returns X25519 keypair { publicKey: Uint8Array, secretKey: Uint8Array }
+ * EIP-712 payload signed to derive the v2 key
+ * The wallet shows the domain, so a signature requested on another chain or for another
+ * contract yields a different key.
  */
-export async function deriveKeyPairFromSignature(signature: string): Promise<nacl.BoxKeyPair> {
+export function buildKeyDerivationTypedData(
+  chainId: number,
+  contractAddress: string,
+  account: string,
+  keyVersion: number = KEY_DERIVATION_VERSION
+) {
+  const domain: Record<string, any> = {
+    name: KEY_DERIVATION_DOMAIN_NAME,
+    version: String(keyVersion),
+    chainId,
+  };
+  if (contractAddress) {
+    domain.verifyingContract = contractAddress;
+  }
+  const types = {
+    KeyDerivation: [
+      { name: 'purpose', type: 'string' },
+      { name: 'account', type: 'address' },
+      { name: 'keyVersion', type: 'uint256' },
+    ],
+  };
+  const value = { purpose: KEY_DERIVATION_PURPOSE, account, keyVersion };
+  return { domain, types, value };
+}
+
+function signatureToBytes(signature: string) {
   if (!signature || typeof signature !== 'string' || !signature.startsWith('0x')) {
     throw new Error('Invalid signature format: must be 0x-prefixed hex string');
   }
@@ -38,24 +86,225 @@ export async function deriveKeyPairFromSignature(signature: string): Promise<nac
     throw new Error('Invalid signature: too short');
   }
 
-  // Convert hex signature to bytes
   const signatureBytes = new Uint8Array(hex.length / 2);
   for (let i = 0; i < signatureBytes.length; i++) {
     signatureBytes[i] = parseInt(hex.substr(i * 2, 2), 16);
   }
+  return signatureBytes;
+}
+
+/**
+ * HKDF-SHA256 over a signature
+ *
+ * @param info - one of HKDF_INFO; distinct labels give independent keys from one signature
+ */
+export async function deriveKeyBytes(signature: string, info: string, length = 32): Promise<Uint8Array> {
+  const ikm = await crypto.subtle.importKey('raw', signatureToBytes(signature), 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new TextEncoder().encode(HKDF_SALT),
+      info: new TextEncoder().encode(info),
+    },
+    ikm,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * HKDF-SHA256 over the account's X25519 secret key
+ * For keys that must follow whichever key source is active (signature or passphrase) rather
+ * than one particular signature.
+ */
+export async function deriveKeyBytesFromSecretKey(secretKey: Uint8Array, info: string, length = 32): Promise<Uint8Array> {
+  const ikm = await crypto.subtle.importKey('raw', secretKey as BufferSource, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(info) },
+    ikm,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Derive X25519 keypair from a v2 (EIP-712) signature
+ * Same signature → same keypair (deterministic)
+ *
+ * @param signature - Ethereum signature (0x-prefixed hex string)
+ * @returns X25519 keypair { publicKey: Uint8Array, secretKey: Uint8Array }
+ */
+export async function deriveKeyPairFromSignature(signature: string): Promise<nacl.BoxKeyPair> {
+  const seed = await deriveKeyBytes(signature, HKDF_INFO.encryptionKeyPair);
+  return nacl.box.keyPair.fromSecretKey(seed);
+}
+
+/**
+ * Derive X25519 keypair from a v1 (personal_sign) signature - legacy SHA-256 derivation
+ */
+export async function deriveLegacyKeyPairFromSignature(signature: string): Promise<nacl.BoxKeyPair> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', signatureToBytes(signature));
+  return nacl.box.keyPair.fromSecretKey(new Uint8Array(hashBuffer).slice(0, 32));
+}
+
+// Derivations in progress, by session cache id; concurrent callers share one signature prompt
+const pendingDerivations = new Map<string, Promise<nacl.BoxKeyPair>>();
+
+function sharedDerivation(cacheId: string, derive: () => Promise<nacl.BoxKeyPair>): Promise<nacl.BoxKeyPair> {
+  let pending = pendingDerivations.get(cacheId);
+  if (!pending) {
+    pending = derive().finally(() => pendingDerivations.delete(cacheId));
+    pendingDerivations.set(cacheId, pending);
+  }
+  return pending;
+}
 
-  // Hash signature using SHA-256 for secure key derivation
-  // This ensures deterministic key generation while maintaining security
-  const hashBuffer = await crypto.subtle.digest('SHA-256', signatureBytes);
-  const seedBytes = new Uint8Array(hashBuffer).slice(0, 32); // Use first 32 bytes of hash
+/**
+ * Derive the v2 keypair, reusing the session cache (utils/sessionKeys.ts) so one signature
+ * serves every file until the session locks
+ *
+ * The first derivation for an account signs twice: a wallet whose signatures differ would
+ * derive a new key every time, so it is switched to a passphrase keypair (utils/keySource.ts).
+ */
+async function deriveAccountKeyPair(signer: any, account: string): Promise<nacl.BoxKeyPair> {
+  const source = await getKeySource(account);
+  if (source?.kind === 'passphrase' || source?.kind === 'nondeterministic') {
+    return unlockPassphraseKeyPair(account, source);
+  }
 
-  // Derive X25519 keypair from seed
-  // tweetnacl uses the seed directly for key generation
-  const keyPair = nacl.box.keyPair.fromSecretKey(seedBytes);
+  if (typeof signer._signTypedData !== 'function') {
+    throw new Error('Wallet does not support typed-data signatures (EIP-712)');
+  }
+  const chainId: number = await signer.getChainId();
+  const cacheId = sessionKeyId(account, chainId, KEY_DERIVATION_VERSION);
+  const cached = await sessionKeys.get(cacheId);
+  if (cached) {
+    console.log('[KeyDerivation] Using session keypair');
+    return cached;
+  }
+  const generation = sessionKeys.generation;
+  return sharedDerivation(cacheId, () => signAndDeriveKeyPair(signer, account, chainId, cacheId, generation, source));
+}
 
+async function signAndDeriveKeyPair(
+  signer: any,
+  account: string,
+  chainId: number,
+  cacheId: string,
+  generation: number,
+  source: KeySource | undefined
+): Promise<nacl.BoxKeyPair> {
+  if (!CONTRACT_ADDRESS) {
+    console.warn('[KeyDerivation] No contract address configured; key is bound to the chain only');
+  }
+  const { domain, types, value } = buildKeyDerivationTypedData(chainId, CONTRACT_ADDRESS, account);
+  const signature = await signer._signTypedData(domain, types, value);
+  if (!signature || typeof signature !== 'string') {
+    throw new Error('Invalid signature received from wallet');
+  }
+
+  if (!source) {
+    console.log('[KeyDerivation] Checking that the wallet signs deterministically...');
+    const again = await signer._signTypedData(domain, types, value);
+    if (again !== signature) {
+      console.warn('[KeyDerivation] Wallet signatures differ; signature-based encryption disabled');
+      const nondeterministic: KeySource = { kind: 'nondeterministic', checkedAt: Date.now() };
+      await setKeySource(account, nondeterministic);
+      return unlockPassphraseKeyPair(account, nondeterministic);
+    }
+    await setKeySource(account, { kind: 'signature', checkedAt: Date.now() });
+  }
+
+  console.log('[KeyDerivation] Signature received, deriving keypair...');
+  const keyPair = await deriveKeyPairFromSignature(signature);
+  await sessionKeys.put(cacheId, keyPair, generation);
   return keyPair;
 }
 
+/**
+ * Passphrase keypair for wallets that can't derive one from signatures
+ */
+async function unlockPassphraseKeyPair(account: string, source: KeySource): Promise<nacl.BoxKeyPair> {
+  const cacheId = sessionKeyId(account, 0, 'passphrase');
+  const cached = await sessionKeys.get(cacheId);
+  if (cached) return cached;
+
+  const generation = sessionKeys.generation;
+  return sharedDerivation(cacheId, async () => {
+    const keyPair = await requestKeyUnlock(account, source.kind === 'passphrase' ? 'unlock' : 'setup', source);
+    await sessionKeys.put(cacheId, keyPair, generation);
+    return keyPair;
+  });
+}
+
+/**
+ * The account's current public key when it is known without a prompt (passphrase key source
+ * or the session cache), else null
+ */
+export async function knownEncryptionPublicKey(signer: any, account: string): Promise<string | null> {
+  const source = await getKeySource(account);
+  if (source?.kind === 'passphrase') return source.publicKey;
+  if (source?.kind === 'nondeterministic' || typeof signer?.getChainId !== 'function') return null;
+  const chainId: number = await signer.getChainId();
+  const publicKey = sessionKeys.publicKey(sessionKeyId(account, chainId, KEY_DERIVATION_VERSION));
+  return publicKey ? encodeBase64(publicKey) : null;
+}
+
+/**
+ * Whether opening a file will use the session keypair, i.e. needs no signature or passphrase
+ */
+export async function hasSessionKeyPair(signer: any, account: string): Promise<boolean> {
+  const source = await getKeySource(account);
+  if (source?.kind === 'passphrase' || source?.kind === 'nondeterministic') {
+    return !!sessionKeys.publicKey(sessionKeyId(account, 0, 'passphrase'));
+  }
+  if (typeof signer?.getChainId !== 'function') return false;
+  const chainId: number = await signer.getChainId();
+  return !!sessionKeys.publicKey(sessionKeyId(account, chainId, KEY_DERIVATION_VERSION));
+}
+
+function signatureError(err: any, action: string): Error {
+  const errorMsg = err?.message || String(err);
+  if (errorMsg.includes('reject') || errorMsg.includes('denied') || err?.code === 4001) {
+    return new Error(
+      'Signature request was rejected. ' +
+      `Please approve the signature request in MetaMask to ${action}.`
+    );
+  }
+  return new Error(`Failed to derive encryption key: ${errorMsg}`);
+}
+
+/**
+ * Request the v1 signature and derive the legacy keypair
+ * Only for opening keys encrypted before v2 (see utils/decryption.ts and services/keyMigration.ts)
+ */
+export async function requestLegacyKeypair(signer: any, account: string): Promise<nacl.BoxKeyPair> {
+  if (!signer || typeof signer.signMessage !== 'function') {
+    throw new Error('Signer not available. Please connect your wallet.');
+  }
+  if (!account || typeof account !== 'string' || !account.startsWith('0x')) {
+    throw new Error('Invalid account address');
+  }
+
+  const cacheId = sessionKeyId(account, 0, LEGACY_KEY_VERSION);
+  const cached = await sessionKeys.get(cacheId);
+  if (cached) return cached;
+
+  const generation = sessionKeys.generation;
+  try {
+    return await sharedDerivation(cacheId, async () => {
+      console.log('[KeyDerivation] Requesting legacy (v1) signature...');
+      const signature = await signer.signMessage(KEY_DERIVATION_MESSAGE);
+      const keyPair = await deriveLegacyKeyPairFromSignature(signature);
+      await sessionKeys.put(cacheId, keyPair, generation);
+      return keyPair;
+    });
+  } catch (err: any) {
+    throw signatureError(err, 'open files encrypted with your previous key');
+  }
+}
+
 /**
  * Request user signature and derive encryption keypair
  * 
@@ -78,17 +327,8 @@ export async function requestEncryptionKeypair(
   console.log('[KeyDerivation] Requesting signature for key derivation...');
 
   try {
-    // Request signature from user
-    const signature = await signer.signMessage(KEY_DERIVATION_MESSAGE);
-    
-    if (!signature || typeof signature !== 'string') {
-      throw new Error('Invalid signature received from wallet');
-    }
-
-    console.log('[KeyDerivation] Signature received, deriving keypair...');
-
-    // Derive keypair from signature (async - uses SHA-256 hash)
-    const keyPair = await deriveKeyPairFromSignature(signature);
+    // Typed-data signature (or the session's cached keypair) -> HKDF
+    const keyPair = await deriveAccountKeyPair(signer, account);
 
     // Encode public key to base64 for storage
     const publicKeyBase64 = encodeBase64(keyPair.publicKey);
@@ -103,16 +343,7 @@ export async function requestEncryptionKeypair(
       keyPair,
     };
   } catch (err: any) {
-    const errorMsg = err?.message || String(err);
-    
-    if (errorMsg.includes('reject') || errorMsg.includes('denied') || err?.code === 4001) {
-      throw new Error(
-        'Signature request was rejected. ' +
-        'Please approve the signature request in MetaMask to enable file encryption/decryption.'
-      );
-    }
-
-    throw new Error(`Failed to derive encryption key: ${errorMsg}`);
+    throw signatureError(err, 'enable file encryption/decryption');
   }
 }
 
@@ -139,32 +370,14 @@ export async function deriveDecryptionKeypair(
   console.log('[KeyDerivation] Requesting signature for decryption...');
 
   try {
-    // Request signature from user (same message = same key)
-    const signature = await signer.signMessage(KEY_DERIVATION_MESSAGE);
-    
-    if (!signature || typeof signature !== 'string') {
-      throw new Error('Invalid signature received from wallet');
-    }
-
-    console.log('[KeyDerivation] Signature received, deriving decryption keypair...');
-
-    // Derive keypair from signature (deterministic - same as encryption, uses SHA-256 hash)
-    const keyPair = await deriveKeyPairFromSignature(signature);
+    // Same payload = same key; cached for the session after the first signature
+    const keyPair = await deriveAccountKeyPair(signer, account);
 
     console.log('[KeyDerivation] Decryption keypair derived successfully');
 
     return keyPair;
   } catch (err: any) {
-    const errorMsg = err?.message || String(err);
-    
-    if (errorMsg.includes('reject') || errorMsg.includes('denied') || err?.code === 4001) {
-      throw new Error(
-        'Signature request was rejected. ' +
-        'Please approve the signature request in MetaMask to decrypt the file.'
-      );
-    }
-
-    throw new Error(`Failed to derive decryption key: ${errorMsg}`);
+    throw signatureError(err, 'decrypt the file');
   }
 }
 
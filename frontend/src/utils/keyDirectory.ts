@@ -0,0 +1,66 @@
+/**
+ * Public key directory
+ * Each account publishes the X25519 public key derived by requestEncryptionKeypair
+ * to the registry contract, so owners can encrypt file keys for a grantee by address.
+ * The contract stores keys per msg.sender, so a published key is authenticated by the
+ * account's own transaction.
+ */
+
+import { Contract, utils } from 'ethers';
+import { encodeBase64, decodeBase64 } from 'tweetnacl-util';
+import CONTRACT_ABI from '../contracts/TimeBoundFileRegistry.abi.json';
+import { requestEncryptionKeypair } from './keyDerivation';
+
+/**
+ * Look up the published encryption key for an address
+ *
+ * @returns X25519 public key (base64), or null if the address has not published one
+ */
+export async function lookupEncryptionKey(
+  contractAddress: string,
+  providerOrSigner: any,
+  address: string
+): Promise<string | null> {
+  if (!contractAddress) {
+    throw new Error('Contract address not configured');
+  }
+  if (!utils.isAddress(address)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+  const contract = new Contract(contractAddress, CONTRACT_ABI, providerOrSigner);
+  const raw: string = await contract.getEncryptionKey(address);
+  const bytes = utils.arrayify(raw);
+  if (bytes.length === 0) {
+    return null;
+  }
+  if (bytes.length !== 32) {
+    console.warn('[KeyDirectory] Ignoring malformed key for', address, bytes.length);
+    return null;
+  }
+  return encodeBase64(bytes);
+}
+
+/**
+ * Derive this account's encryption key and publish it if the directory doesn't already hold it
+ *
+ * @returns the public key and the publishing tx hash (null when already up to date)
+ */
+export async function publishEncryptionKey(
+  contractAddress: string,
+  signer: any,
+  account: string
+): Promise<{ publicKeyBase64: string; txHash: string | null }> {
+  const { publicKeyBase64 } = await requestEncryptionKeypair(signer, account);
+
+  const current = await lookupEncryptionKey(contractAddress, signer, account);
+  if (current === publicKeyBase64) {
+    console.log('[KeyDirectory] Encryption key already published');
+    return { publicKeyBase64, txHash: null };
+  }
+
+  const contract = new Contract(contractAddress, CONTRACT_ABI, signer);
+  const tx = await contract.publishEncryptionKey(decodeBase64(publicKeyBase64));
+  await tx.wait(1);
+  console.log('[KeyDirectory] Published encryption key:', tx.hash);
+  return { publicKeyBase64, txHash: tx.hash };
+}
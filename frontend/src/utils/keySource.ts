@@ -0,0 +1,68 @@
+/**
+ * Where an account's X25519 keypair comes from
+ * - signature: derived from the EIP-712 signature (utils/keyDerivation.ts). Only safe when the
+ *   wallet signs deterministically, which is checked once by signing twice and comparing.
+ * - passphrase: a random keypair wrapped with a passphrase and pinned to IPFS
+ *   (services/passphraseKeys.ts), for smart accounts, MPC and hardware wallets whose
+ *   signatures differ between calls.
+ *
+ * The choice is remembered per account in IndexedDB.
+ */
+
+import nacl from 'tweetnacl';
+import { get, set, del } from 'idb-keyval';
+
+const KEY_SOURCE_PREFIX = 'keysource:';
+
+export type KeySource =
+  | { kind: 'signature'; checkedAt: number }
+  // Wallet failed the determinism check and no passphrase key is set up yet
+  | { kind: 'nondeterministic'; checkedAt: number }
+  | { kind: 'passphrase'; cid: string; publicKey: string; createdAt: number };
+
+export async function getKeySource(account: string): Promise<KeySource | undefined> {
+  return get<KeySource>(KEY_SOURCE_PREFIX + account.toLowerCase());
+}
+
+export async function setKeySource(account: string, source: KeySource): Promise<void> {
+  await set(KEY_SOURCE_PREFIX + account.toLowerCase(), source);
+}
+
+export async function clearKeySource(account: string): Promise<void> {
+  await del(KEY_SOURCE_PREFIX + account.toLowerCase());
+}
+
+/**
+ * Asks the user to unlock (or set up) a passphrase keypair
+ * Registered by WalletContext, which owns the passphrase dialog.
+ */
+export type KeyUnlockHandler = (request: {
+  account: string;
+  mode: 'unlock' | 'setup';
+  source?: KeySource;
+}) => Promise<nacl.BoxKeyPair>;
+
+let unlockHandler: KeyUnlockHandler | null = null;
+// One prompt per account; callers that ask while it is open wait for the same answer
+const pendingUnlocks = new Map<string, Promise<nacl.BoxKeyPair>>();
+
+export function setKeyUnlockHandler(handler: KeyUnlockHandler | null) {
+  unlockHandler = handler;
+}
+
+export async function requestKeyUnlock(
+  account: string,
+  mode: 'unlock' | 'setup',
+  source?: KeySource
+): Promise<nacl.BoxKeyPair> {
+  if (!unlockHandler) {
+    throw new Error('This wallet needs a passphrase key, but no passphrase prompt is available here.');
+  }
+  const id = account.toLowerCase();
+  let pending = pendingUnlocks.get(id);
+  if (!pending) {
+    pending = unlockHandler({ account, mode, source }).finally(() => pendingUnlocks.delete(id));
+    pendingUnlocks.set(id, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,12 @@
+// Files above this size (or not previewable) are streamed to disk instead of opened in memory
+export const PREVIEW_LIMIT_BYTES = 50 * 1024 * 1024
+
+export function isPreviewable(mime?: string) {
+  if (!mime) return false
+  return (
+    mime.startsWith('image/') ||
+    mime.startsWith('video/') ||
+    mime.startsWith('text/') ||
+    mime === 'application/pdf'
+  )
+}
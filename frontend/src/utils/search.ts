@@ -0,0 +1,140 @@
+import { entryDisplayName, isFolder, type StoredEntry } from '../lib.db'
+
+export type SearchField = 'name' | 'tag' | 'mime' | 'owner' | 'cid' | 'content'
+
+export type SearchHit = { entry: StoredEntry; score: number; matched: SearchField[] }
+
+// A name match ranks above the same match inside the file
+const FIELD_WEIGHTS: Record<SearchField, number> = { name: 8, tag: 5, mime: 3, owner: 2, cid: 2, content: 1 }
+
+/**
+ * Lowercased words with accents stripped; also used to build the content index
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+}
+
+/**
+ * Tags an entry answers to: its kind, extension and library state
+ */
+export function entryTags(e: StoredEntry, account?: string | null): string[] {
+  const tags: string[] = []
+  if (isFolder(e)) {
+    tags.push('folder')
+  } else {
+    const mime = e.mime || ''
+    const top = mime.split('/')[0]
+    if (['image', 'video', 'audio', 'text'].includes(top)) tags.push(top)
+    if (mime === 'application/pdf') tags.push('pdf')
+    if (mime.includes('zip') || mime.includes('rar')) tags.push('archive')
+    const name = entryDisplayName(e)
+    const dot = name.lastIndexOf('.')
+    if (dot > 0) tags.push(name.slice(dot + 1).toLowerCase())
+  }
+  if (e.starred) tags.push('starred')
+  if (e.trashedAt) tags.push('trash')
+  if (account && e.ownerAddr && e.ownerAddr.toLowerCase() !== account.toLowerCase()) tags.push('shared')
+  return tags
+}
+
+// Levenshtein distance, giving up once it exceeds max
+function withinDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return false
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      rowMin = Math.min(rowMin, cur[j])
+    }
+    if (rowMin > max) return false
+    prev = cur
+  }
+  return prev[b.length] <= max
+}
+
+/**
+ * How well a query term matches any of the words: 1 exact, 0.8 prefix, 0.5 fuzzy, 0 none
+ * Fuzzy allows one typo from 4 characters and two from 8.
+ */
+function matchTerm(term: string, words: Iterable<string>) {
+  const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0
+  let best = 0
+  for (const word of words) {
+    if (word === term) return 1
+    if (word.startsWith(term)) best = Math.max(best, 0.8)
+    else if (best < 0.5 && maxDistance && withinDistance(term, word.slice(0, term.length + maxDistance), maxDistance)) {
+      best = 0.5
+    }
+  }
+  return best
+}
+
+// Addresses and CIDs are matched as whole strings: prefix, or substring for longer fragments
+function matchIdentifier(term: string, value?: string | null) {
+  if (!value) return 0
+  const v = value.toLowerCase()
+  if (v === term) return 1
+  if (v.startsWith(term)) return 0.8
+  return term.length >= 6 && v.includes(term) ? 0.6 : 0
+}
+
+/**
+ * Rank entries against a query; every query term must match some field
+ *
+ * @param contentTerms - words indexed from the file's contents, when available
+ */
+export function searchEntries(
+  entries: StoredEntry[],
+  query: string,
+  opts: { account?: string | null; contentTerms?: (id: string) => Set<string> | undefined } = {}
+): SearchHit[] {
+  const terms = tokenize(query)
+  if (!terms.length) return []
+
+  const hits: SearchHit[] = []
+  for (const entry of entries) {
+    const fields: [SearchField, (term: string) => number][] = [
+      ['name', t => matchTerm(t, tokenize(entryDisplayName(entry)))],
+      ['tag', t => matchTerm(t, entryTags(entry, opts.account))],
+      ['mime', t => matchTerm(t, tokenize(entry.mime || ''))],
+      ['owner', t => matchIdentifier(t, entry.ownerAddr)],
+      ['cid', t => Math.max(matchIdentifier(t, entry.metadataCid), matchIdentifier(t, entry.id))],
+      ['content', t => {
+        const words = opts.contentTerms?.(entry.id)
+        if (!words) return 0
+        return words.has(t) ? 1 : matchTerm(t, words)
+      }],
+    ]
+
+    let score = 0
+    const matched = new Set<SearchField>()
+    let allTermsMatch = true
+    for (const term of terms) {
+      let best = 0
+      let bestField: SearchField | null = null
+      for (const [field, match] of fields) {
+        const s = match(term) * FIELD_WEIGHTS[field]
+        if (s > best) {
+          best = s
+          bestField = field
+        }
+      }
+      if (!bestField) {
+        allTermsMatch = false
+        break
+      }
+      score += best
+      matched.add(bestField)
+    }
+    if (allTermsMatch) hits.push({ entry, score, matched: [...matched] })
+  }
+
+  return hits.sort((a, b) => b.score - a.score || entryDisplayName(a.entry).localeCompare(entryDisplayName(b.entry)))
+}
@@ -0,0 +1,171 @@
+/**
+ * Session cache for signature-derived X25519 keypairs
+ * Deriving a keypair costs a wallet signature, so the derived keypair is kept in memory for the
+ * session and reused until it is locked, the idle timeout passes, or the wallet context changes
+ * (WalletContext clears it on accountsChanged, chainChanged and disconnect).
+ *
+ * The secret key is held encrypted under a non-extractable AES-GCM key, so it is only present in
+ * plain form while a caller uses it. Without Web Crypto the raw keypair is kept instead.
+ */
+
+import nacl from 'tweetnacl';
+
+export const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+const IDLE_TIMEOUT_STORAGE_KEY = 'ddrive.sessionKeyIdleMinutes';
+
+type CachedKey =
+  | { publicKey: Uint8Array; wrapped: ArrayBuffer; iv: Uint8Array<ArrayBuffer> }
+  | { publicKey: Uint8Array; raw: nacl.BoxKeyPair };
+
+export class SessionKeyManager {
+  private wrappingKey: CryptoKey | null = null;
+  private keys = new Map<string, CachedKey>();
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(unlocked: boolean) => void>();
+  private idleTimeoutMs: number;
+  // Bumped by clear(), so a derivation that finishes after a lock can't repopulate the cache
+  private clearCount = 0;
+
+  constructor(idleTimeoutMs: number = DEFAULT_IDLE_TIMEOUT_MS) {
+    this.idleTimeoutMs = idleTimeoutMs;
+  }
+
+  get unlocked(): boolean {
+    return this.keys.size > 0;
+  }
+
+  get idleTimeout(): number {
+    return this.idleTimeoutMs;
+  }
+
+  /** Read before deriving a keypair and pass to put(); stale once the cache is cleared */
+  get generation(): number {
+    return this.clearCount;
+  }
+
+  /** 0 disables caching: every use asks for a signature again */
+  setIdleTimeout(ms: number) {
+    this.idleTimeoutMs = Math.max(0, ms);
+    if (this.idleTimeoutMs === 0) {
+      this.clear();
+    } else if (this.unlocked) {
+      this.touch();
+    }
+  }
+
+  /** Subscribe to lock/unlock changes; returns the unsubscribe function */
+  subscribe(listener: (unlocked: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async get(id: string): Promise<nacl.BoxKeyPair | null> {
+    const entry = this.keys.get(id);
+    if (!entry) return null;
+    this.touch();
+    if ('raw' in entry) return entry.raw;
+    try {
+      const secret = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: entry.iv }, this.wrappingKey!, entry.wrapped);
+      return { publicKey: entry.publicKey, secretKey: new Uint8Array(secret) };
+    } catch (err) {
+      console.warn('[SessionKeys] Unwrap failed, dropping cached key', err);
+      this.keys.delete(id);
+      this.notify();
+      return null;
+    }
+  }
+
+  /** Public half of a cached keypair; doesn't count as use for the idle timer */
+  publicKey(id: string): Uint8Array | null {
+    return this.keys.get(id)?.publicKey ?? null;
+  }
+
+  /**
+   * Cache a derived keypair
+   * @param generation - `generation` read when the derivation started; the keypair is dropped if
+   *   the cache was cleared since (disconnect, account switch or lock while the wallet was prompting)
+   */
+  async put(id: string, keyPair: nacl.BoxKeyPair, generation: number = this.clearCount): Promise<void> {
+    if (this.idleTimeoutMs === 0 || generation !== this.clearCount) return;
+    let entry: CachedKey;
+    try {
+      if (!this.wrappingKey) {
+        const wrappingKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        if (generation !== this.clearCount) return;
+        this.wrappingKey ??= wrappingKey;
+      }
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.wrappingKey, keyPair.secretKey as BufferSource);
+      if (generation !== this.clearCount) return;
+      entry = { publicKey: keyPair.publicKey, wrapped, iv };
+    } catch (err) {
+      if (generation !== this.clearCount) return;
+      console.warn('[SessionKeys] Web Crypto unavailable, caching keypair unwrapped', err);
+      entry = { publicKey: keyPair.publicKey, raw: keyPair };
+    }
+    const wasUnlocked = this.unlocked;
+    this.keys.set(id, entry);
+    this.touch();
+    if (!wasUnlocked) this.notify();
+  }
+
+  /** Forget every cached keypair (lock) */
+  clear() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    const wasUnlocked = this.unlocked;
+    for (const entry of this.keys.values()) {
+      if ('raw' in entry) entry.raw.secretKey.fill(0);
+    }
+    this.keys.clear();
+    this.wrappingKey = null;
+    this.clearCount++;
+    if (wasUnlocked) {
+      console.log('[SessionKeys] Session locked');
+      this.notify();
+    }
+  }
+
+  private touch() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => this.clear(), this.idleTimeoutMs);
+  }
+
+  private notify() {
+    const unlocked = this.unlocked;
+    this.listeners.forEach(l => l(unlocked));
+  }
+}
+
+function loadIdleTimeout(): number {
+  try {
+    const stored = globalThis.localStorage?.getItem(IDLE_TIMEOUT_STORAGE_KEY);
+    const minutes = Number(stored);
+    if (stored !== null && stored !== undefined && Number.isFinite(minutes) && minutes >= 0) {
+      return minutes * 60 * 1000;
+    }
+  } catch {
+    // ignore
+  }
+  return DEFAULT_IDLE_TIMEOUT_MS;
+}
+
+export function saveIdleTimeoutMinutes(minutes: number) {
+  try {
+    globalThis.localStorage?.setItem(IDLE_TIMEOUT_STORAGE_KEY, String(minutes));
+  } catch {
+    // ignore
+  }
+  sessionKeys.setIdleTimeout(minutes * 60 * 1000);
+}
+
+/** Cache id for a derived keypair: one per account, chain and derivation version (or key source) */
+export function sessionKeyId(account: string, chainId: number, keyVersion: number | string): string {
+  return `${account.toLowerCase()}:${chainId}:v${keyVersion}`;
+}
+
+export const sessionKeys = new SessionKeyManager(loadIdleTimeout());
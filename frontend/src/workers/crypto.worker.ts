@@ -0,0 +1,24 @@
+/**
+ * Crypto worker
+ * Runs AES-GCM chunk encryption/decryption off the main thread for CryptoWorkerPool.
+ * Keys arrive structured-cloned (non-extractable keys stay non-extractable);
+ * chunk buffers are transferred both ways.
+ */
+
+import { encryptChunk, decryptChunk } from "../services/cryptoService";
+import type { CryptoTask, CryptoTaskResult } from "../services/cryptoWorkerPool";
+
+self.onmessage = async (event: MessageEvent<CryptoTask>) => {
+  const { id, op, key, data, index } = event.data;
+  try {
+    const result =
+      op === "encrypt"
+        ? await (await encryptChunk(key, data, index)).packed.arrayBuffer()
+        : await decryptChunk(key, data, index);
+    const reply: CryptoTaskResult = { id, result };
+    self.postMessage(reply, { transfer: [result] });
+  } catch (err: any) {
+    const reply: CryptoTaskResult = { id, error: err?.message || String(err), errorName: err?.name };
+    self.postMessage(reply);
+  }
+};
@@ -21,12 +21,15 @@ contract TimeBoundFileRegistry {
 
     mapping(address => mapping(bytes32 => FileRecord)) private uploads;
     mapping(bytes32 => mapping(address => AccessRecord)) private access;
+    // Public key directory: X25519 key (32 bytes) each account shares files to
+    mapping(address => bytes) private encryptionKeys;
 
     event FileUploaded(address indexed owner, string indexed cid, bytes32 indexed cidHash, uint256 timestamp);
     event FileUpdated(address indexed owner, string indexed cid, bytes32 indexed cidHash, uint256 timestamp);
     event FileRevoked(address indexed owner, string indexed cid, bytes32 indexed cidHash, uint256 timestamp);
     event AccessGranted(address indexed owner, address indexed grantee, string indexed cid, bytes32 cidHash, uint256 start, uint256 end, uint256 timestamp);
     event AccessRevoked(address indexed owner, address indexed grantee, string indexed cid, bytes32 cidHash, uint256 timestamp);
+    event EncryptionKeyPublished(address indexed account, bytes publicKey, uint256 timestamp);
 
     function _cidHash(string memory cid) internal pure returns (bytes32) {
         return keccak256(abi.encodePacked(cid));
@@ -170,4 +173,14 @@ contract TimeBoundFileRegistry {
         FileRecord storage rec = uploads[owner][cidHash];
         return (rec.cid, rec.encryptedKey, rec.timestamp, rec.revoked, rec.exists);
     }
+
+    function publishEncryptionKey(bytes calldata publicKey) external {
+        require(publicKey.length == 32, "INVALID_PUBLIC_KEY");
+        encryptionKeys[msg.sender] = publicKey;
+        emit EncryptionKeyPublished(msg.sender, publicKey, block.timestamp);
+    }
+
+    function getEncryptionKey(address account) external view returns (bytes memory publicKey) {
+        return encryptionKeys[account];
+    }
 }
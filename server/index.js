@@ -28,6 +28,9 @@ const morgan = require("morgan");
 const axios = require("axios");
 const FormData = require("form-data");
 const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const { ethers } = require("ethers");
 
 const PORT = process.env.PORT || 3000;
 // Trim whitespace and newlines from API key (common issue)
@@ -60,6 +63,9 @@ const NONCE_TTL = 10 * 60 * 1000; // 10 minutes
 const MAX_NONCES = 10000;
 setInterval(() => {
   const now = Date.now();
+  for (const [key, { expires }] of pinKeys.entries()) {
+    if (expires < now) pinKeys.delete(key);
+  }
   for (const [nonce, timestamp] of nonceStore.entries()) {
     if (now - timestamp > NONCE_TTL) nonceStore.delete(nonce);
   }
@@ -69,7 +75,7 @@ setInterval(() => {
       .slice(0, nonceStore.size - MAX_NONCES);
     for (const [nonce] of entries) nonceStore.delete(nonce);
   }
-}, 60000);
+}, 60000).unref();
 
 // Middlewares
 app.use(helmet());
@@ -211,6 +217,204 @@ async function uploadToIPFS(buffer, filename = "file", contentType = "applicatio
   }
 }
 
+// Best-effort unpin (Pinata only; other services don't expose an unpin we can rely on)
+async function unpinFromIPFS(cid) {
+  if (!USE_PINATA) {
+    console.warn(`[IPFS] Unpin not supported without Pinata, leaving ${cid} pinned`);
+    return false;
+  }
+  const cleanApiKey = IPFS_API_KEY ? IPFS_API_KEY.trim().replace(/\s+/g, '') : null;
+  const response = await axios.delete(`${IPFS_PINNING_API}/pinning/unpin/${encodeURIComponent(cid)}`, {
+    headers: {
+      pinata_api_key: cleanApiKey,
+      pinata_secret_api_key: process.env.PINATA_SECRET_API_KEY || cleanApiKey,
+    },
+    validateStatus: (status) => status >= 200 && status < 600,
+  });
+  if (response.status >= 400 && response.status !== 404) {
+    throw new Error(`Pinata unpin error (${response.status}): ${JSON.stringify(response.data)}`);
+  }
+  console.log(`[IPFS] Unpinned ${cid}`);
+  return true;
+}
+
+// Gateway for reading back what the proxy pinned (defaults to the pinning service's own gateway)
+const IPFS_GATEWAY = (process.env.IPFS_GATEWAY || (USE_PINATA ? "https://gateway.pinata.cloud" : "https://ipfs.io")).replace(/\/+$/, "");
+
+async function fetchJsonFromGateway(cid) {
+  return (await axios.get(`${IPFS_GATEWAY}/ipfs/${cid}`, { timeout: 20000 })).data;
+}
+
+// Chain access for checking contract-wallet (EIP-1271) signatures
+const RPC_URL = process.env.RPC_URL || null;
+const chainProvider = RPC_URL ? new ethers.providers.JsonRpcProvider(RPC_URL) : null;
+
+// Wallet signature check for account-bound requests. Contract wallets (Safe, smart accounts)
+// can't produce an ECDSA signature of their own, so they are asked via EIP-1271 when RPC_URL is set.
+const EIP1271_MAGIC_VALUE = "0x1626ba7e";
+const EIP1271_ABI = ["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"];
+
+async function verifyAccountSignature(account, message, signature) {
+  try {
+    if (ethers.utils.verifyMessage(message, signature).toLowerCase() === account) return true;
+  } catch {
+    // Not a plain ECDSA signature; may still be valid for a contract wallet
+  }
+  if (!chainProvider) return false;
+  try {
+    if ((await chainProvider.getCode(account)) === "0x") return false;
+    const wallet = new ethers.Contract(account, EIP1271_ABI, chainProvider);
+    return (await wallet.isValidSignature(ethers.utils.hashMessage(message), signature)) === EIP1271_MAGIC_VALUE;
+  } catch (err) {
+    console.warn("EIP-1271 signature check failed:", err.message);
+    return false;
+  }
+}
+
+// Must match unpinRequestMessage in frontend services/chunkedUpload.ts
+function unpinRequestMessage(account, cids, issuedAt) {
+  const digest = crypto.createHash("sha256").update(cids.join("\n")).digest("hex");
+  return (
+    "Decentralized Drive unpin\n\n" +
+    "Stop pinning encrypted data you uploaded. This does not approve a transaction.\n\n" +
+    `Account: ${account}\nCIDs: ${cids.length} (sha256 ${digest})\nIssued: ${issuedAt}`
+  );
+}
+
+// Must match pinDelegationMessage in frontend services/pinAuth.ts
+function pinDelegationMessage(account, key, expires) {
+  return (
+    "Decentralized Drive uploads\n\n" +
+    "Allow this browser session to upload files for your account. This does not approve a transaction or grant access to your files.\n\n" +
+    `Account: ${account}\nKey: ${key}\nExpires: ${expires}`
+  );
+}
+
+// Which account pinned each CID through this proxy (CID -> account). The first account to pin
+// a CID owns it; /unpin only removes CIDs owned by the signer, so registering someone else's
+// CID on-chain or re-uploading their public ciphertext gives no way to unpin it.
+const PIN_OWNERS_FILE = process.env.PIN_OWNERS_FILE || path.join(__dirname, "pin-owners.json");
+let pinOwners = {};
+try {
+  pinOwners = JSON.parse(fs.readFileSync(PIN_OWNERS_FILE, "utf8"));
+} catch (err) {
+  if (err.code !== "ENOENT") console.error("Failed to read pin owners file:", err.message);
+}
+function savePinOwners() {
+  fs.writeFile(PIN_OWNERS_FILE, JSON.stringify(pinOwners), (err) => {
+    if (err) console.error("Failed to persist pin owners:", err.message);
+  });
+}
+function recordPinOwner(cid, account) {
+  if (!account || pinOwners[cid]) return;
+  pinOwners[cid] = account;
+  savePinOwners();
+}
+
+// Revoked public share links (envelope CID -> revokedAt), persisted so revocations survive restarts
+const REVOKED_LINKS_FILE = process.env.REVOKED_LINKS_FILE || path.join(__dirname, "revoked-links.json");
+let revokedLinks = {};
+try {
+  revokedLinks = JSON.parse(fs.readFileSync(REVOKED_LINKS_FILE, "utf8"));
+} catch (err) {
+  if (err.code !== "ENOENT") console.error("Failed to read revoked links file:", err.message);
+}
+function saveRevokedLinks() {
+  fs.writeFile(REVOKED_LINKS_FILE, JSON.stringify(revokedLinks), (err) => {
+    if (err) console.error("Failed to persist revoked links:", err.message);
+  });
+}
+
+// Library manifest pointers (account -> latest signed pointer), see frontend services/libraryManifest.ts
+const MANIFEST_POINTERS_FILE = process.env.MANIFEST_POINTERS_FILE || path.join(__dirname, "manifest-pointers.json");
+let manifestPointers = {};
+try {
+  manifestPointers = JSON.parse(fs.readFileSync(MANIFEST_POINTERS_FILE, "utf8"));
+} catch (err) {
+  if (err.code !== "ENOENT") console.error("Failed to read manifest pointers file:", err.message);
+}
+function saveManifestPointers() {
+  fs.writeFile(MANIFEST_POINTERS_FILE, JSON.stringify(manifestPointers), (err) => {
+    if (err) console.error("Failed to persist manifest pointers:", err.message);
+  });
+}
+
+// Must match delegationMessage/pointerMessage in the frontend
+function manifestDelegationMessage(account, signingKey) {
+  return (
+    "Decentralized Drive library sync\n\n" +
+    "Allow this key to publish your encrypted library index. This does not approve a transaction or grant access to your files.\n\n" +
+    `Account: ${account}\nKey: ${signingKey}`
+  );
+}
+function manifestPointerMessage(p) {
+  return `ddrive-manifest-pointer\n${p.account}\n${p.cid}\n${p.seq}\n${p.updatedAt}`;
+}
+
+// DER prefix turning a raw 32-byte ed25519 public key into SPKI for crypto.createPublicKey
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+function verifyEd25519(rawKeyBase64, message, signatureBase64) {
+  const rawKey = Buffer.from(rawKeyBase64, "base64");
+  if (rawKey.length !== 32) return false;
+  const publicKey = crypto.createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, rawKey]),
+    format: "der",
+    type: "spki",
+  });
+  return crypto.verify(null, Buffer.from(message), publicKey, Buffer.from(signatureBase64, "base64"));
+}
+
+// Pointer is valid if the wallet delegated its signing key and that key signed the pointer
+async function verifyManifestPointer(pointer, account) {
+  try {
+    if (pointer.account !== account) return false;
+    if (!(await verifyAccountSignature(account, manifestDelegationMessage(account, pointer.signingKey), pointer.delegation))) {
+      return false;
+    }
+    return verifyEd25519(pointer.signingKey, manifestPointerMessage(pointer), pointer.signature);
+  } catch (err) {
+    console.warn("Manifest pointer verification error:", err.message);
+    return false;
+  }
+}
+
+// Delegated upload keys already checked against their wallet signature (key -> { account, expires })
+const pinKeys = new Map();
+
+// Account an upload is made for, from the x-pin-* headers: a wallet-delegated session key signs
+// each request. Resolves to null for anonymous uploads (pinned, but nobody can unpin them) and
+// throws when the headers are present but don't verify.
+async function verifyPinAuth(req) {
+  const account = req.header("x-pin-account");
+  if (!account) return null;
+  const key = req.header("x-pin-key");
+  const expires = Number(req.header("x-pin-expires"));
+  const delegation = req.header("x-pin-delegation");
+  const ts = Number(req.header("x-pin-ts"));
+  const nonce = req.header("x-pin-nonce");
+  const signature = req.header("x-pin-signature");
+  if (!/^0x[0-9a-f]{40}$/.test(account) || !key || !delegation || !nonce || !signature) {
+    throw new Error("Incomplete upload authorization");
+  }
+  if (!Number.isSafeInteger(expires) || expires < Date.now()) throw new Error("Upload key expired");
+  if (!Number.isSafeInteger(ts) || Math.abs(Date.now() - ts) > 5 * 60 * 1000) throw new Error("Upload request expired");
+  if (nonceStore.has(`pin:${nonce}`)) throw new Error("Upload request replayed");
+
+  const known = pinKeys.get(key);
+  if (!known || known.account !== account || known.expires !== expires) {
+    if (!(await verifyAccountSignature(account, pinDelegationMessage(account, key, expires), delegation))) {
+      throw new Error("Upload key was not delegated by this account");
+    }
+    pinKeys.set(key, { account, expires });
+  }
+  if (!verifyEd25519(key, `ddrive-pin\n${account}\n${ts}\n${nonce}`, signature)) {
+    throw new Error("Invalid upload signature");
+  }
+  nonceStore.set(`pin:${nonce}`, Date.now());
+  return account;
+}
+
 // HMAC verification (timestamp in milliseconds)
 function verifyHmac(req) {
   if (!UPLOAD_SECRET) {
@@ -269,6 +473,12 @@ app.post("/upload", upload.single("file"), (req, res, next) => {
 }, async (req, res) => {
   try {
     if (!verifyHmac(req)) return res.status(401).json({ error: "Unauthorized", detail: "HMAC authentication failed" });
+    let pinAccount;
+    try {
+      pinAccount = await verifyPinAuth(req);
+    } catch (err) {
+      return res.status(401).json({ error: "Unauthorized", detail: err.message });
+    }
 
     if (!req.file) {
       if (req.headers['content-length'] && parseInt(req.headers['content-length']) > MAX_UPLOAD_MB * 1024 * 1024) {
@@ -308,6 +518,7 @@ app.post("/upload", upload.single("file"), (req, res, next) => {
       return res.status(500).json({ error: "Invalid CID returned from storage", detail: `Received invalid CID: ${cid}` });
     }
 
+    recordPinOwner(cid, pinAccount);
     return res.json({ cid, name: originalName });
   } catch (err) {
     console.error("Upload failed:", err);
@@ -319,6 +530,12 @@ app.post("/upload", upload.single("file"), (req, res, next) => {
 app.post("/metadata", upload.single("file"), async (req, res) => {
   try {
     if (!verifyHmac(req)) return res.status(401).json({ error: "Unauthorized", detail: "HMAC authentication failed" });
+    let pinAccount;
+    try {
+      pinAccount = await verifyPinAuth(req);
+    } catch (err) {
+      return res.status(401).json({ error: "Unauthorized", detail: err.message });
+    }
 
     let cid;
     if (req.file) {
@@ -374,6 +591,7 @@ app.post("/metadata", upload.single("file"), async (req, res) => {
       });
     }
 
+    recordPinOwner(cid, pinAccount);
     return res.json({ cid });
   } catch (err) {
     console.error("Metadata upload failed:", err);
@@ -388,7 +606,8 @@ app.get("/gateway/:cid", async (req, res) => {
     return res.status(400).json({ error: "Invalid CID format" });
   }
   try {
-    const url = `https://${cid}.ipfs.nftstorage.link/`;
+    // nftstorage.link was decommissioned along with NFT.Storage Classic
+    const url = `${IPFS_GATEWAY}/ipfs/${cid}`;
     return res.redirect(url);
   } catch (err) {
     console.error("Gateway redirect failed:", err);
@@ -396,6 +615,167 @@ app.get("/gateway/:cid", async (req, res) => {
   }
 });
 
+// Unpin CIDs (metadata + chunks) after a file is deleted or its key rotated.
+// The account signs the CID list; only CIDs this proxy pinned for that account are unpinned.
+const MAX_UNPIN_CIDS = 10000;
+const UNPIN_SIGNATURE_TTL = 10 * 60 * 1000;
+app.post("/unpin", async (req, res) => {
+  if (!verifyHmac(req)) return res.status(401).json({ error: "Unauthorized", detail: "HMAC authentication failed" });
+  const { account, cids, issuedAt, signature } = req.body || {};
+  if (typeof account !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(account)) {
+    return res.status(400).json({ error: "Invalid account address" });
+  }
+  if (!Array.isArray(cids) || cids.length === 0 || cids.length > MAX_UNPIN_CIDS) {
+    return res.status(400).json({ error: "cids must be a non-empty array", detail: `At most ${MAX_UNPIN_CIDS} CIDs per request` });
+  }
+  if (!cids.every((cid) => typeof cid === "string" && /^[a-zA-Z0-9]+$/.test(cid))) {
+    return res.status(400).json({ error: "Invalid CID format" });
+  }
+  if (!Number.isSafeInteger(issuedAt) || Math.abs(Date.now() - issuedAt) > UNPIN_SIGNATURE_TTL) {
+    return res.status(400).json({ error: "Request expired", detail: "Sign the unpin request again" });
+  }
+  if (typeof signature !== "string" || nonceStore.has(signature)) {
+    return res.status(400).json({ error: "Invalid or reused signature" });
+  }
+
+  const owner = account.toLowerCase();
+  const requested = [...new Set(cids)].sort();
+  if (!(await verifyAccountSignature(owner, unpinRequestMessage(owner, requested, issuedAt), signature))) {
+    return res.status(403).json({ error: "Forbidden", detail: "Signature does not match this account" });
+  }
+  nonceStore.set(signature, Date.now());
+
+  const unpinned = [];
+  const failed = [];
+  const rejected = requested.filter((cid) => pinOwners[cid] !== owner);
+  for (const cid of requested.filter((cid) => pinOwners[cid] === owner)) {
+    try {
+      if (await unpinFromIPFS(cid)) {
+        unpinned.push(cid);
+        delete pinOwners[cid];
+      }
+    } catch (err) {
+      console.error(`Unpin ${cid} failed:`, err.message);
+      failed.push(cid);
+    }
+  }
+  if (unpinned.length) savePinOwners();
+  if (rejected.length) console.warn(`Refused to unpin ${rejected.length} CID(s) not pinned by ${owner}`);
+  return res.json({ unpinned, failed, rejected, supported: USE_PINATA });
+});
+
+// Public share link status (checked by the /s/:envelopeCid page before opening a link)
+app.get("/links/:cid/status", (req, res) => {
+  const cid = req.params.cid;
+  if (!/^[a-zA-Z0-9]+$/.test(cid)) {
+    return res.status(400).json({ error: "Invalid CID format" });
+  }
+  const revokedAt = revokedLinks[cid] || null;
+  return res.json({ revoked: !!revokedAt, revokedAt });
+});
+
+// Revoke a public share link. The caller proves ownership with the token whose SHA-256
+// is recorded in the (public) envelope as revocationHash.
+app.post("/links/:cid/revoke", async (req, res) => {
+  if (!verifyHmac(req)) return res.status(401).json({ error: "Unauthorized", detail: "HMAC authentication failed" });
+  const cid = req.params.cid;
+  const token = req.body && req.body.token;
+  if (!/^[a-zA-Z0-9]+$/.test(cid)) {
+    return res.status(400).json({ error: "Invalid CID format" });
+  }
+  if (!token || typeof token !== "string") {
+    return res.status(400).json({ error: "Revocation token required" });
+  }
+  if (revokedLinks[cid]) {
+    return res.json({ revoked: true, revokedAt: revokedLinks[cid] });
+  }
+  try {
+    const envelope = await fetchJsonFromGateway(cid);
+    const tokenHash = crypto.createHash("sha256").update(token).digest("hex");
+    if (!envelope || envelope.type !== "dcs-share-link" || envelope.revocationHash !== tokenHash) {
+      return res.status(403).json({ error: "Forbidden", detail: "Token does not match this link" });
+    }
+  } catch (err) {
+    console.error("Share link lookup failed:", err.message);
+    return res.status(502).json({ error: "Could not fetch share link envelope", detail: err.message });
+  }
+
+  revokedLinks[cid] = Date.now();
+  saveRevokedLinks();
+  let unpinned = false;
+  try {
+    unpinned = await unpinFromIPFS(cid);
+  } catch (err) {
+    console.error("Unpin after revoke failed:", err.message);
+  }
+  return res.json({ revoked: true, revokedAt: revokedLinks[cid], unpinned });
+});
+
+// Latest library manifest pointer for an account
+app.get("/manifests/:account", (req, res) => {
+  const account = req.params.account.toLowerCase();
+  if (!/^0x[0-9a-f]{40}$/.test(account)) {
+    return res.status(400).json({ error: "Invalid account address" });
+  }
+  const pointer = manifestPointers[account];
+  if (!pointer) {
+    return res.status(404).json({ error: "No manifest published" });
+  }
+  return res.json(pointer);
+});
+
+// Publish a new pointer. Sequence numbers must increase; a stale one gets 409 so the
+// client pulls, merges and retries. `replaces` names the manifest CID the client merged
+// into this one; if that is the current pointer's CID it is unpinned.
+app.post("/manifests/:account", async (req, res) => {
+  if (!verifyHmac(req)) return res.status(401).json({ error: "Unauthorized", detail: "HMAC authentication failed" });
+  const account = req.params.account.toLowerCase();
+  const pointer = req.body;
+  if (!/^0x[0-9a-f]{40}$/.test(account)) {
+    return res.status(400).json({ error: "Invalid account address" });
+  }
+  if (
+    !pointer ||
+    typeof pointer.cid !== "string" ||
+    !/^[a-zA-Z0-9]+$/.test(pointer.cid) ||
+    !Number.isSafeInteger(pointer.seq) ||
+    !Number.isSafeInteger(pointer.updatedAt) ||
+    typeof pointer.signingKey !== "string" ||
+    typeof pointer.delegation !== "string" ||
+    typeof pointer.signature !== "string"
+  ) {
+    return res.status(400).json({ error: "Malformed manifest pointer" });
+  }
+  if (!(await verifyManifestPointer(pointer, account))) {
+    return res.status(403).json({ error: "Forbidden", detail: "Pointer signature does not match this account" });
+  }
+  const current = manifestPointers[account];
+  if (current && pointer.seq <= current.seq) {
+    return res.status(409).json({ error: "Stale pointer", detail: `Current sequence is ${current.seq}`, seq: current.seq });
+  }
+
+  manifestPointers[account] = {
+    account,
+    cid: pointer.cid,
+    seq: pointer.seq,
+    updatedAt: pointer.updatedAt,
+    signingKey: pointer.signingKey,
+    delegation: pointer.delegation,
+    signature: pointer.signature,
+  };
+  saveManifestPointers();
+
+  let unpinned = false;
+  if (current && pointer.replaces === current.cid && current.cid !== pointer.cid) {
+    try {
+      unpinned = await unpinFromIPFS(current.cid);
+    } catch (err) {
+      console.error("Unpin of replaced manifest failed:", err.message);
+    }
+  }
+  return res.json({ ok: true, seq: pointer.seq, unpinned });
+});
+
 // Multer error handler
 app.use((err, req, res, next) => {
   if (err instanceof multer.MulterError) {
@@ -420,15 +800,20 @@ app.use((err, req, res, next) => {
   });
 });
 
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`Environment: ${NODE_ENV}`);
-  console.log(`Health check: http://localhost:${PORT}/health`);
-  console.log(`Allowed origins: ${ALLOWED_ORIGINS.join(", ")}`);
-  console.log(`HMAC authentication: ${UPLOAD_SECRET ? "ENABLED" : "DISABLED (development only)"}`);
-  if (NODE_ENV === "production") {
-    console.log("⚠️  Production mode: Ensure UPLOAD_SECRET is set and use Redis for nonce store in multi-instance deployments");
-  } else {
-    console.log("⚠️  Development mode: Using in-memory nonce store (not safe for multi-instance)");
-  }
-});
+module.exports = app;
+
+// Started directly (npm start); tests require the app without listening
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+    console.log(`Environment: ${NODE_ENV}`);
+    console.log(`Health check: http://localhost:${PORT}/health`);
+    console.log(`Allowed origins: ${ALLOWED_ORIGINS.join(", ")}`);
+    console.log(`HMAC authentication: ${UPLOAD_SECRET ? "ENABLED" : "DISABLED (development only)"}`);
+    if (NODE_ENV === "production") {
+      console.log("⚠️  Production mode: Ensure UPLOAD_SECRET is set and use Redis for nonce store in multi-instance deployments");
+    } else {
+      console.log("⚠️  Development mode: Using in-memory nonce store (not safe for multi-instance)");
+    }
+  });
+}
@@ -0,0 +1,119 @@
+// Shared setup for the proxy tests: loads index.js against stubbed pinning calls and temp state files
+const os = require("os");
+const path = require("path");
+const fs = require("fs");
+const crypto = require("crypto");
+
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "ddrive-proxy-test-"));
+Object.assign(process.env, {
+  NODE_ENV: "development",
+  NFT_STORAGE_API_KEY: "testkey.testsecret",
+  USE_PINATA: "true",
+  RATE_LIMIT_MAX: "10000",
+  PIN_OWNERS_FILE: path.join(stateDir, "pin-owners.json"),
+  REVOKED_LINKS_FILE: path.join(stateDir, "revoked-links.json"),
+  MANIFEST_POINTERS_FILE: path.join(stateDir, "manifest-pointers.json"),
+  RPC_URL: "http://rpc.invalid",
+});
+
+// Pinning service stub: uploads return the queued CID, unpins are recorded
+const axios = require("axios");
+const pinning = { nextCids: [], unpinned: [] };
+axios.post = async () => ({ status: 200, data: { IpfsHash: pinning.nextCids.shift() } });
+axios.delete = async (url) => {
+  pinning.unpinned.push(decodeURIComponent(url.split("/").pop()));
+  return { status: 200, data: {} };
+};
+
+// Chain stub for EIP-1271: `contractWallets` maps a contract account to the EOA that owns it,
+// and isValidSignature accepts signatures that recover to that owner (like a 1-of-1 Safe)
+const { ethers } = require("ethers");
+const contractWallets = new Map();
+const eip1271 = new ethers.utils.Interface(["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"]);
+ethers.providers.JsonRpcProvider.prototype.send = async function (method, params) {
+  switch (method) {
+    case "eth_chainId":
+      return "0x1";
+    case "eth_getCode":
+      return contractWallets.has(params[0].toLowerCase()) ? "0x6080" : "0x";
+    case "eth_call": {
+      const owner = contractWallets.get(params[0].to.toLowerCase());
+      const [hash, signature] = eip1271.decodeFunctionData("isValidSignature", params[0].data);
+      let valid = false;
+      try {
+        valid = !!owner && ethers.utils.recoverAddress(hash, signature).toLowerCase() === owner;
+      } catch {
+        valid = false;
+      }
+      return eip1271.encodeFunctionResult("isValidSignature", [valid ? "0x1626ba7e" : "0xffffffff"]);
+    }
+    default:
+      throw new Error(`Unexpected RPC call ${method}`);
+  }
+};
+
+const app = require("../index");
+
+async function startServer() {
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  return { server, baseUrl: `http://127.0.0.1:${server.address().port}` };
+}
+
+// Same format as frontend services/pinAuth.ts
+async function pinHeaders(wallet, { delegator = wallet } = {}) {
+  const account = wallet.address.toLowerCase();
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const key = publicKey.export({ format: "der", type: "spki" }).subarray(-32).toString("base64");
+  const expires = Date.now() + 60 * 60 * 1000;
+  const delegation = await delegator.signMessage(
+    "Decentralized Drive uploads\n\n" +
+      "Allow this browser session to upload files for your account. This does not approve a transaction or grant access to your files.\n\n" +
+      `Account: ${account}\nKey: ${key}\nExpires: ${expires}`
+  );
+  const ts = Date.now().toString();
+  const nonce = crypto.randomBytes(16).toString("base64");
+  const signature = crypto.sign(null, Buffer.from(`ddrive-pin\n${account}\n${ts}\n${nonce}`), privateKey).toString("base64");
+  return {
+    "x-pin-account": account,
+    "x-pin-key": key,
+    "x-pin-expires": String(expires),
+    "x-pin-delegation": delegation,
+    "x-pin-ts": ts,
+    "x-pin-nonce": nonce,
+    "x-pin-signature": signature,
+  };
+}
+
+// Same format as frontend services/chunkedUpload.ts unpinFromProxy
+async function unpinBody(wallet, cids) {
+  const account = wallet.address.toLowerCase();
+  const sorted = [...new Set(cids)].sort();
+  const issuedAt = Date.now();
+  const digest = crypto.createHash("sha256").update(sorted.join("\n")).digest("hex");
+  const signature = await wallet.signMessage(
+    "Decentralized Drive unpin\n\n" +
+      "Stop pinning encrypted data you uploaded. This does not approve a transaction.\n\n" +
+      `Account: ${account}\nCIDs: ${sorted.length} (sha256 ${digest})\nIssued: ${issuedAt}`
+  );
+  return { account, cids: sorted, issuedAt, signature };
+}
+
+// Same format as frontend services/libraryManifest.ts; `delegator` signs for `account`
+async function manifestPointer(account, delegator, { cid, seq }) {
+  account = account.toLowerCase();
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const signingKey = publicKey.export({ format: "der", type: "spki" }).subarray(-32).toString("base64");
+  const delegation = await delegator.signMessage(
+    "Decentralized Drive library sync\n\n" +
+      "Allow this key to publish your encrypted library index. This does not approve a transaction or grant access to your files.\n\n" +
+      `Account: ${account}\nKey: ${signingKey}`
+  );
+  const updatedAt = Date.now();
+  const signature = crypto
+    .sign(null, Buffer.from(`ddrive-manifest-pointer\n${account}\n${cid}\n${seq}\n${updatedAt}`), privateKey)
+    .toString("base64");
+  return { account, cid, seq, updatedAt, signingKey, delegation, signature };
+}
+
+module.exports = { pinning, contractWallets, startServer, pinHeaders, unpinBody, manifestPointer };
@@ -0,0 +1,89 @@
+const { test, before, after, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { ethers } = require("ethers");
+const { pinning, contractWallets, startServer, pinHeaders, unpinBody, manifestPointer } = require("./helpers");
+
+const alice = ethers.Wallet.createRandom();
+const mallory = ethers.Wallet.createRandom();
+// A contract wallet owned by alice: it signs through alice's key and is checked via EIP-1271
+const safeAddress = ethers.Wallet.createRandom().address;
+const safe = { address: safeAddress, signMessage: (message) => alice.signMessage(message) };
+let server;
+let baseUrl;
+
+before(async () => {
+  ({ server, baseUrl } = await startServer());
+  contractWallets.set(safeAddress.toLowerCase(), alice.address.toLowerCase());
+});
+after(() => server.close());
+beforeEach(() => {
+  pinning.unpinned.length = 0;
+});
+
+async function publish(pointer, replaces = null) {
+  const res = await fetch(`${baseUrl}/manifests/${pointer.account}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...pointer, replaces }),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+test("a pointer delegated by the account's wallet is published", async () => {
+  const pointer = await manifestPointer(alice.address, alice, { cid: "QmLibraryA1", seq: 1 });
+  assert.equal((await publish(pointer)).status, 200);
+
+  const res = await fetch(`${baseUrl}/manifests/${alice.address.toLowerCase()}`);
+  assert.equal((await res.json()).cid, "QmLibraryA1");
+});
+
+test("a pointer delegated by another wallet is refused", async () => {
+  const pointer = await manifestPointer(alice.address, mallory, { cid: "QmLibraryForged", seq: 100 });
+  assert.equal((await publish(pointer)).status, 403);
+});
+
+test("a pointer changed after signing is refused", async () => {
+  const pointer = await manifestPointer(alice.address, alice, { cid: "QmLibraryA2", seq: 2 });
+  assert.equal((await publish({ ...pointer, cid: "QmLibraryTampered" })).status, 403);
+});
+
+test("a stale sequence number gets 409 and the replaced manifest is unpinned", async () => {
+  const account = ethers.Wallet.createRandom();
+  await publish(await manifestPointer(account.address, account, { cid: "QmLibraryB1", seq: 5 }));
+
+  const stale = await publish(await manifestPointer(account.address, account, { cid: "QmLibraryB2", seq: 5 }));
+  assert.equal(stale.status, 409);
+  assert.equal(stale.body.seq, 5);
+
+  const next = await publish(await manifestPointer(account.address, account, { cid: "QmLibraryB3", seq: 6 }), "QmLibraryB1");
+  assert.equal(next.status, 200);
+  assert.equal(next.body.unpinned, true);
+  assert.deepEqual(pinning.unpinned, ["QmLibraryB1"]);
+});
+
+test("a contract wallet's pointer is accepted through EIP-1271", async () => {
+  const pointer = await manifestPointer(safeAddress, safe, { cid: "QmLibrarySafe1", seq: 1 });
+  assert.equal((await publish(pointer)).status, 200);
+});
+
+test("EIP-1271 refuses signatures from someone other than the contract wallet's owner", async () => {
+  const pointer = await manifestPointer(safeAddress, mallory, { cid: "QmLibrarySafe2", seq: 2 });
+  assert.equal((await publish(pointer)).status, 403);
+});
+
+test("a contract wallet can pin and unpin its own uploads", async () => {
+  pinning.nextCids.push("QmSafeMetadata1");
+  const pinned = await fetch(`${baseUrl}/metadata`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await pinHeaders(safe)) },
+    body: JSON.stringify({ cid: "QmSafeMetadata1" }),
+  });
+  assert.equal(pinned.status, 200);
+
+  const res = await fetch(`${baseUrl}/unpin`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(await unpinBody(safe, ["QmSafeMetadata1"])),
+  });
+  assert.deepEqual((await res.json()).unpinned, ["QmSafeMetadata1"]);
+});
@@ -0,0 +1,94 @@
+const { test, before, after, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { ethers } = require("ethers");
+const { pinning, startServer, pinHeaders, unpinBody } = require("./helpers");
+
+const alice = ethers.Wallet.createRandom();
+const mallory = ethers.Wallet.createRandom();
+let server;
+let baseUrl;
+
+before(async () => {
+  ({ server, baseUrl } = await startServer());
+});
+after(() => server.close());
+beforeEach(() => {
+  pinning.unpinned.length = 0;
+});
+
+async function pinMetadata(cid, headers = {}) {
+  pinning.nextCids.push(cid);
+  const res = await fetch(`${baseUrl}/metadata`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({ cid }),
+  });
+  return res;
+}
+
+async function unpin(body) {
+  const res = await fetch(`${baseUrl}/unpin`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+test("an account cannot unpin CIDs another account pinned", async () => {
+  assert.equal((await pinMetadata("QmAliceMetadata1", await pinHeaders(alice))).status, 200);
+
+  const { status, body } = await unpin(await unpinBody(mallory, ["QmAliceMetadata1"]));
+  assert.equal(status, 200);
+  assert.deepEqual(body.unpinned, []);
+  assert.deepEqual(body.rejected, ["QmAliceMetadata1"]);
+  assert.deepEqual(pinning.unpinned, []);
+});
+
+test("re-pinning someone else's CID does not make it yours", async () => {
+  assert.equal((await pinMetadata("QmAliceMetadata2", await pinHeaders(alice))).status, 200);
+  assert.equal((await pinMetadata("QmAliceMetadata2", await pinHeaders(mallory))).status, 200);
+
+  const { body } = await unpin(await unpinBody(mallory, ["QmAliceMetadata2"]));
+  assert.deepEqual(body.rejected, ["QmAliceMetadata2"]);
+  assert.deepEqual(pinning.unpinned, []);
+});
+
+test("the pinning account can unpin its own CIDs, once", async () => {
+  await pinMetadata("QmAliceMetadata3", await pinHeaders(alice));
+
+  const first = await unpin(await unpinBody(alice, ["QmAliceMetadata3"]));
+  assert.deepEqual(first.body.unpinned, ["QmAliceMetadata3"]);
+  assert.deepEqual(pinning.unpinned, ["QmAliceMetadata3"]);
+
+  const second = await unpin(await unpinBody(alice, ["QmAliceMetadata3"]));
+  assert.deepEqual(second.body.rejected, ["QmAliceMetadata3"]);
+});
+
+test("anonymous pins cannot be unpinned", async () => {
+  assert.equal((await pinMetadata("QmAnonymous1")).status, 200);
+  const { body } = await unpin(await unpinBody(alice, ["QmAnonymous1"]));
+  assert.deepEqual(body.rejected, ["QmAnonymous1"]);
+});
+
+test("an upload key delegated by another wallet is refused", async () => {
+  const headers = await pinHeaders(alice, { delegator: mallory });
+  const res = await pinMetadata("QmForged1", headers);
+  assert.equal(res.status, 401);
+  pinning.nextCids.length = 0;
+});
+
+test("an unpin request signed by another wallet is refused", async () => {
+  await pinMetadata("QmAliceMetadata4", await pinHeaders(alice));
+  const body = { ...(await unpinBody(mallory, ["QmAliceMetadata4"])), account: alice.address.toLowerCase() };
+  const { status } = await unpin(body);
+  assert.equal(status, 403);
+  assert.deepEqual(pinning.unpinned, []);
+});
+
+test("an unpin signature cannot be replayed", async () => {
+  await pinMetadata("QmAliceMetadata5", await pinHeaders(alice));
+  const body = await unpinBody(alice, ["QmAliceMetadata5"]);
+  assert.equal((await unpin(body)).status, 200);
+  assert.equal((await unpin(body)).status, 400);
+});